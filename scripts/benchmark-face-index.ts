@@ -0,0 +1,82 @@
+// Benchmark FaceVectorIndex against the linear matcher on a synthetic roster
+// Usage: npx tsx scripts/benchmark-face-index.ts [employees] [entriesPerEmployee] [queries]
+
+import type { FaceEmbeddingEntry } from "../src/entities/employee";
+import { findBestMatchWithConfidenceGap, type MatchCandidate } from "../src/shared/lib/face-embedding";
+import { FaceVectorIndex } from "../src/shared/lib/face-vector-index";
+
+const [employeeCount = 3000, entriesPerEmployee = 20, queryCount = 50] = process.argv
+  .slice(2)
+  .map((arg) => Number.parseInt(arg, 10));
+const DIMENSION = 128; // face-api.js descriptor length
+const VERSION = "faceapi-v1";
+
+// Deterministic PRNG so runs are comparable
+let seed = 42;
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+const randomVector = (center?: number[]) =>
+  Array.from({ length: DIMENSION }, (_, i) => (center ? center[i] + (random() - 0.5) * 0.05 : random() - 0.5) * 0.2);
+
+const employees: MatchCandidate[] = Array.from({ length: employeeCount }, (_, e) => {
+  const center = randomVector();
+  const entries: FaceEmbeddingEntry[] = Array.from({ length: entriesPerEmployee }, (_, i) => ({
+    id: `emp_${e}_${i}`,
+    vector: randomVector(center),
+    angle: "front",
+    createdAt: new Date(0).toISOString(),
+    source: "enrollment",
+  }));
+  return {
+    id: `emp_${e}`,
+    name: `Employee ${e}`,
+    embeddings: {
+      version: VERSION,
+      entries,
+      averageVector: center,
+      createdAt: new Date(0).toISOString(),
+      updatedAt: new Date(0).toISOString(),
+      source: "camera",
+    },
+  };
+});
+const queries = Array.from({ length: queryCount }, () =>
+  randomVector(employees[Math.floor(random() * employeeCount)].embeddings!.averageVector)
+);
+
+const time = (label: string, run: () => void, repeat = 1) => {
+  const start = performance.now();
+  for (let i = 0; i < repeat; i++) run();
+  const ms = (performance.now() - start) / repeat;
+  console.log(`${label.padEnd(24)} ${ms.toFixed(2)} ms`);
+  return ms;
+};
+
+console.log(`${employeeCount} employees x ${entriesPerEmployee} entries, ${DIMENSION}-d, ${queryCount} queries\n`);
+
+let index = new FaceVectorIndex(employees, VERSION);
+time("index build", () => (index = new FaceVectorIndex(employees, VERSION)));
+
+// Warm up both paths (JIT and the Float32Array cache of the linear matcher)
+findBestMatchWithConfidenceGap(queries[0], employees);
+index.search(queries[0], 2);
+
+const linear = time(`linear x${queryCount}`, () => queries.forEach((q) => findBestMatchWithConfidenceGap(q, employees)));
+const indexed = time(`index x${queryCount}`, () => queries.forEach((q) => index.search(q, 2)), 5);
+console.log(`\nper query: linear ${(linear / queryCount).toFixed(2)} ms, index ${(indexed / queryCount).toFixed(2)} ms`);
+console.log(`speedup ${(linear / indexed).toFixed(1)}x`);
+
+// Both must agree on best and runner-up
+const mismatches = queries.filter((q) => {
+  const expected = findBestMatchWithConfidenceGap(q, employees, { threshold: Infinity });
+  const [best, second] = index.search(q, 2);
+  return (
+    expected.bestMatch?.employeeId !== best?.employeeId ||
+    expected.secondBestMatch?.employeeId !== second?.employeeId ||
+    Math.abs((expected.bestMatch?.distance ?? 0) - (best?.distance ?? 0)) > 1e-6
+  );
+}).length;
+console.log(mismatches ? `${mismatches} queries disagree with the linear matcher` : "results identical");
+if (mismatches) process.exitCode = 1;
@@ -0,0 +1,457 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type { CalendarEntry, CalendarEntryKind, CreateCalendarEntryInput } from "@/entities/calendar";
+import {
+  CALENDAR_KINDS,
+  calendarFromIcs,
+  calendarKindLabel,
+  calendarToIcs,
+  withoutExistingEntries,
+} from "@/shared/lib/calendar";
+import { APP_TIME_ZONE, toDateKey } from "@/shared/lib/datetime";
+import { cn } from "@/lib/utils";
+
+const COMPANY_WIDE = "all"; // Select value for "no department" - Radix items can't use ""
+
+const KIND_STYLES: Record<CalendarEntryKind, string> = {
+  "public-holiday": "bg-red-500/20 text-red-400",
+  "company-closure": "bg-orange-500/20 text-orange-400",
+  "working-day": "bg-green-500/20 text-green-400",
+};
+
+const emptyForm = (date: string): CreateCalendarEntryInput => ({ date, name: "", kind: "public-holiday" });
+
+const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatEntryDate = (date: string) =>
+  new Date(date).toLocaleDateString("th-TH", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: APP_TIME_ZONE,
+  });
+
+const formatMonth = (date: string) =>
+  new Date(date).toLocaleDateString("th-TH", { month: "long", year: "numeric", timeZone: APP_TIME_ZONE });
+
+export default function CalendarPage() {
+  const repository = useMemo(() => createEmployeeRepository(), []);
+  const today = toDateKey(new Date());
+  const [year, setYear] = useState(() => Number(today.slice(0, 4)));
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [form, setForm] = useState<CreateCalendarEntryInput>(() => emptyForm(today));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importKind, setImportKind] = useState<CalendarEntryKind>("public-holiday");
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Year the shown entries were loaded for - switching years shows the spinner
+  const [loadedYear, setLoadedYear] = useState<number | null>(null);
+  const isLoading = loadedYear !== year;
+
+  useEffect(() => {
+    repository
+      .listEmployees({ includeEmbeddings: false })
+      .then((employees) =>
+        setDepartments([...new Set(employees.map((e) => e.department).filter((d): d is string => !!d))].sort())
+      )
+      .catch((err) => console.error("Failed to load employees:", err));
+  }, [repository]);
+
+  useEffect(() => {
+    let cancelled = false;
+    repository
+      .listCalendarEntries({ from: `${year}-01-01`, to: `${year}-12-31` })
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((err) => {
+        console.error("Failed to load calendar:", err);
+        if (!cancelled) toast.error("ไม่สามารถโหลดปฏิทินได้");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedYear(year);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, year]);
+
+  const entriesByMonth = useMemo(() => {
+    const groups = new Map<string, CalendarEntry[]>();
+    for (const entry of entries) {
+      const month = entry.date.slice(0, 7);
+      groups.set(month, [...(groups.get(month) ?? []), entry]);
+    }
+    return [...groups.entries()];
+  }, [entries]);
+
+  const counts = useMemo(
+    () =>
+      Object.fromEntries(
+        CALENDAR_KINDS.map((kind) => [kind, entries.filter((entry) => entry.kind === kind).length])
+      ) as Record<CalendarEntryKind, number>,
+    [entries]
+  );
+
+  // Keep the list in date order and on the shown year
+  const mergeEntries = (changed: CalendarEntry[]) =>
+    setEntries((prev) =>
+      [...prev.filter((entry) => !changed.some((c) => c.id === entry.id)), ...changed]
+        .filter((entry) => entry.date.startsWith(`${year}-`))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm(form.date));
+  };
+
+  const handleSave = async () => {
+    if (!form.date || !form.name.trim()) {
+      toast.error("กรุณาระบุวันที่และชื่อวัน");
+      return;
+    }
+    // The database allows one entry per day and department
+    const duplicate = entries.find(
+      (entry) => entry.id !== editingId && entry.date === form.date && (entry.department ?? "") === (form.department ?? "")
+    );
+    if (duplicate) {
+      toast.error(`มี "${duplicate.name}" ในวันนี้แล้ว`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const input = { ...form, name: form.name.trim() };
+      const saved = editingId
+        ? await repository.updateCalendarEntry(editingId, { ...input, department: form.department ?? "" })
+        : await repository.createCalendarEntry(input);
+      mergeEntries([saved]);
+      resetForm();
+      toast.success(editingId ? "แก้ไขวันแล้ว" : "เพิ่มวันแล้ว");
+    } catch (err) {
+      console.error("Failed to save calendar entry:", err);
+      toast.error("ไม่สามารถบันทึกได้");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (entry: CalendarEntry) => {
+    setEditingId(entry.id);
+    setForm({ date: entry.date, name: entry.name, kind: entry.kind, department: entry.department });
+  };
+
+  const handleDelete = async (entry: CalendarEntry) => {
+    try {
+      await repository.deleteCalendarEntry(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      if (editingId === entry.id) resetForm();
+    } catch {
+      toast.error("ไม่สามารถลบได้");
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsSaving(true);
+    try {
+      const { entries: imported, skipped } = calendarFromIcs(await file.text(), importKind);
+      if (imported.length === 0) {
+        toast.error("ไม่พบวันในไฟล์นี้");
+        return;
+      }
+      // Compare against every year the file touches, not only the shown one
+      const dates = imported.map((entry) => entry.date).sort();
+      const existing = await repository.listCalendarEntries({ from: dates[0], to: dates[dates.length - 1] });
+      const fresh = withoutExistingEntries(existing, imported);
+      const created = await repository.importCalendarEntries(fresh);
+      mergeEntries(created);
+      toast.success(
+        `นำเข้า ${created.length} วัน` +
+          (imported.length > fresh.length ? ` · ข้าม ${imported.length - fresh.length} วันที่มีอยู่แล้ว` : "") +
+          (skipped > 0 ? ` · อ่านไม่ได้ ${skipped} รายการ` : "")
+      );
+    } catch (err) {
+      console.error("Failed to import calendar:", err);
+      toast.error("ไม่สามารถนำเข้าไฟล์ได้");
+    } finally {
+      setIsSaving(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(calendarToIcs(entries, `ปฏิทินวันทำงาน ${year}`), "text/calendar;charset=utf-8", `calendar-${year}.ics`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-slate-900/80 backdrop-blur-lg border-b border-slate-700">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-white">ปฏิทินวันทำงาน</h1>
+            <p className="text-sm text-slate-400">
+              วันหยุดและวันทำงานพิเศษ ใช้คำนวณการมาสายและการขาดงาน (เวลา {APP_TIME_ZONE})
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/admin">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ← กลับ
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Add / edit */}
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white">{editingId ? "แก้ไขวัน" : "เพิ่มวัน"}</CardTitle>
+            <CardDescription>
+              วันทำงานปกติมาจากวันทำงานในตารางงานของแต่ละแผนก - วันที่กำหนดให้แผนกใช้แทนวันที่ใช้ทั้งบริษัท
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="entry-date" className="text-slate-200">วันที่</Label>
+                <Input
+                  id="entry-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+                  className="bg-slate-900/50 border-slate-600 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entry-name" className="text-slate-200">ชื่อวัน</Label>
+                <Input
+                  id="entry-name"
+                  placeholder="เช่น วันสงกรานต์"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="bg-slate-900/50 border-slate-600 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-200">ประเภท</Label>
+                <Select
+                  value={form.kind}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, kind: value as CalendarEntryKind }))}
+                >
+                  <SelectTrigger aria-label="ประเภท" className="w-full bg-slate-900/50 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CALENDAR_KINDS.map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {calendarKindLabel[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-200">ใช้กับ</Label>
+                <Select
+                  value={form.department ?? COMPANY_WIDE}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, department: value === COMPANY_WIDE ? undefined : value }))
+                  }
+                >
+                  <SelectTrigger aria-label="แผนก" className="w-full bg-slate-900/50 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={COMPANY_WIDE}>ทั้งบริษัท</SelectItem>
+                    {departments.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => void handleSave()} disabled={isSaving} className="bg-blue-600 hover:bg-blue-700">
+                {editingId ? "บันทึก" : "เพิ่ม"}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm} className="border-slate-600 text-slate-300">
+                  ยกเลิก
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* iCalendar import / export */}
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardHeader>
+            <CardTitle className="text-white">นำเข้า / ส่งออก .ics</CardTitle>
+            <CardDescription>
+              นำเข้าปฏิทินวันหยุดจาก Google Calendar หรือ Outlook - วันที่มีอยู่แล้วจะถูกข้าม
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <Select value={importKind} onValueChange={(value) => setImportKind(value as CalendarEntryKind)}>
+              <SelectTrigger aria-label="ประเภทของวันที่นำเข้า" className="sm:w-56 bg-slate-900/50 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CALENDAR_KINDS.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    นำเข้าเป็น{calendarKindLabel[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleImport(file);
+              }}
+            />
+            <Button
+              variant="outline"
+              disabled={isSaving}
+              onClick={() => fileInputRef.current?.click()}
+              className="border-slate-600 text-slate-300"
+            >
+              ⬆️ นำเข้าไฟล์ .ics
+            </Button>
+            <Button
+              variant="outline"
+              disabled={entries.length === 0}
+              onClick={handleExport}
+              className="border-slate-600 text-slate-300"
+            >
+              ⬇️ ส่งออกปี {year}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Year selector */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setYear(year - 1)} className="border-slate-600 text-slate-300">
+              ‹
+            </Button>
+            <span className="text-lg font-bold text-white w-16 text-center">{year}</span>
+            <Button size="sm" variant="outline" onClick={() => setYear(year + 1)} className="border-slate-600 text-slate-300">
+              ›
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {CALENDAR_KINDS.map((kind) => (
+              <Badge key={kind} className={cn("text-xs", KIND_STYLES[kind])}>
+                {calendarKindLabel[kind]} {counts[kind]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-slate-400">กำลังโหลดข้อมูล...</p>
+          </div>
+        ) : entriesByMonth.length === 0 ? (
+          <Card className="bg-slate-800/50 border-slate-700">
+            <CardContent className="py-12 text-center">
+              <p className="text-4xl mb-4">📅</p>
+              <p className="text-slate-400">ยังไม่มีวันหยุดในปี {year}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          entriesByMonth.map(([month, monthEntries]) => (
+            <Card key={month} className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-white text-base">{formatMonth(`${month}-01`)}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {monthEntries.map((entry) => (
+                  <EntryRow
+                    key={entry.id}
+                    entry={entry}
+                    isEditing={entry.id === editingId}
+                    onEdit={() => handleEdit(entry)}
+                    onDelete={() => void handleDelete(entry)}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
+
+const EntryRow = ({
+  entry,
+  isEditing,
+  onEdit,
+  onDelete,
+}: {
+  entry: CalendarEntry;
+  isEditing: boolean;
+  onEdit: () => void;
+  onDelete: () => void;
+}) => (
+  <div
+    className={cn(
+      "flex flex-wrap items-center gap-3 rounded-lg p-3 bg-slate-900/40",
+      isEditing && "ring-1 ring-blue-500"
+    )}
+  >
+    <span className="w-24 flex-shrink-0 text-sm text-slate-400">{formatEntryDate(entry.date)}</span>
+    <div className="flex-1 min-w-0">
+      <p className="text-slate-200 font-medium truncate">{entry.name}</p>
+      <p className="text-xs text-slate-500">{entry.department ?? "ทั้งบริษัท"}</p>
+    </div>
+    <Badge className={cn("text-xs", KIND_STYLES[entry.kind])}>{calendarKindLabel[entry.kind]}</Badge>
+    <div className="flex gap-1">
+      <Button size="sm" variant="outline" onClick={onEdit} className="h-7 border-slate-600 text-xs text-slate-300">
+        แก้ไข
+      </Button>
+      <Button size="sm" variant="outline" onClick={onDelete} className="h-7 border-red-500/40 text-xs text-red-400">
+        ลบ
+      </Button>
+    </div>
+  </div>
+);
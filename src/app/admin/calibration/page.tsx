@@ -0,0 +1,370 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type { Employee, NearMissEvent } from "@/entities/employee";
+import { GLOBAL_SETTINGS_SCOPE, type RecognitionSettingsRecord } from "@/entities/settings";
+import { applyRecognitionSettings, resolveRecognitionSettings } from "@/shared/lib/recognition-settings";
+import { hasCompatibleEmbedding } from "@/shared/lib/face-embedding";
+import {
+  CALIBRATION_CONFIG,
+  collectCalibrationSamples,
+  computeErrorRates,
+  errorRatesAt,
+  findEqualErrorRate,
+  gapRejectRate,
+  scoreCalibrationSamples,
+  suggestConfidenceGap,
+  suggestThreshold,
+  type CalibrationSource,
+  type ErrorRatePoint,
+} from "@/shared/lib/calibration";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<CalibrationSource, string> = {
+  enrollment: "ภาพลงทะเบียน",
+  "check-in": "ภาพจากการเช็คอิน",
+  "near-miss": "เหตุการณ์ไม่แน่ใจที่ตรวจแล้ว",
+};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(rate > 0 && rate < 0.01 ? 2 : 1)}%`;
+
+export default function CalibrationPage() {
+  const repository = useMemo(() => createEmployeeRepository(), []);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [nearMisses, setNearMisses] = useState<NearMissEvent[]>([]);
+  // Calibration tunes the global layer - kiosk overrides still win on their own kiosk
+  const [globalRecord, setGlobalRecord] = useState<RecognitionSettingsRecord>();
+  const savedMatch = useMemo(
+    () => resolveRecognitionSettings(globalRecord ? [globalRecord] : []).match,
+    [globalRecord]
+  );
+  const [threshold, setThreshold] = useState(savedMatch.threshold);
+  const [minGap, setMinGap] = useState(savedMatch.minConfidenceGap);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [employeeData, nearMissData, records] = await Promise.all([
+          repository.listEmployees(),
+          repository.listNearMisses(500),
+          repository.listRecognitionSettings(),
+        ]);
+        setEmployees(employeeData);
+        setNearMisses(nearMissData);
+        const record = records.find((r) => r.scope === GLOBAL_SETTINGS_SCOPE);
+        const settings = resolveRecognitionSettings(record ? [record] : []);
+        const { match } = settings;
+        // Distances depend on the recognizer backend - score with the same one the kiosks use
+        applyRecognitionSettings(settings);
+        setGlobalRecord(record);
+        setThreshold(match.threshold);
+        setMinGap(match.minConfidenceGap);
+      } catch (err) {
+        console.error("Failed to load calibration data:", err);
+        toast.error("ไม่สามารถโหลดข้อมูลได้");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    void load();
+  }, [repository]);
+
+  // Pairwise scoring is O(samples x entries) - only recompute when the data changes.
+  // Templates from another embedding version can't be compared, so they are left out.
+  const data = useMemo(() => {
+    const comparable = employees.filter((employee) => hasCompatibleEmbedding(employee));
+    return scoreCalibrationSamples(collectCalibrationSamples(comparable, nearMisses), comparable);
+  }, [employees, nearMisses]);
+  const points = useMemo(() => computeErrorRates(data.scores), [data]);
+  const eer = useMemo(() => findEqualErrorRate(points), [points]);
+  const suggested = useMemo(() => suggestThreshold(points), [points]);
+  const suggestedGap = useMemo(() => suggestConfidenceGap(data.gaps), [data]);
+
+  const selectedRates = errorRatesAt(data.scores, threshold);
+  const savedRates = errorRatesAt(data.scores, savedMatch.threshold);
+  const hasEnoughData =
+    data.genuineCount >= CALIBRATION_CONFIG.MIN_SCORES && data.impostorCount >= CALIBRATION_CONFIG.MIN_SCORES;
+  const isDirty = threshold !== savedMatch.threshold || minGap !== savedMatch.minConfidenceGap;
+
+  const handleApplySuggestion = () => {
+    if (suggested) setThreshold(suggested.threshold);
+    if (suggestedGap !== null) setMinGap(suggestedGap);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await repository.saveRecognitionSettings(GLOBAL_SETTINGS_SCOPE, {
+        ...globalRecord?.settings,
+        match: { ...globalRecord?.settings.match, threshold, minConfidenceGap: minGap },
+      });
+      setGlobalRecord(saved);
+      toast.success("บันทึกค่าการจับคู่แล้ว - Kiosk ที่ออนไลน์จะใช้ค่าใหม่ทันที");
+    } catch (err) {
+      console.error("Failed to save match settings:", err);
+      toast.error("ไม่สามารถบันทึกได้");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-slate-900/80 backdrop-blur-lg border-b border-slate-700">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-white">ปรับเทียบเกณฑ์การจดจำ</h1>
+            <p className="text-sm text-slate-400">
+              เกณฑ์ปัจจุบัน {savedMatch.threshold.toFixed(2)} · ช่องว่าง {savedMatch.minConfidenceGap.toFixed(2)}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/admin">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ← กลับ
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-slate-400">กำลังคำนวณ...</p>
+          </div>
+        ) : (
+          <>
+            {/* Data summary */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {(Object.keys(SOURCE_LABELS) as CalibrationSource[]).map((source) => (
+                <Card key={source} className="bg-slate-800/50 border-slate-700">
+                  <CardContent className="py-4 text-center">
+                    <p className="text-2xl font-bold text-white">{data.sampleCounts[source]}</p>
+                    <p className="text-xs text-slate-400">{SOURCE_LABELS[source]}</p>
+                  </CardContent>
+                </Card>
+              ))}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardContent className="py-4 text-center">
+                  <p className="text-2xl font-bold text-white">{data.genuineCount}/{data.impostorCount}</p>
+                  <p className="text-xs text-slate-400">คู่คนเดียวกัน/ต่างคน</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {!hasEnoughData && (
+              <Alert className="bg-amber-500/10 border-amber-500/30">
+                <AlertTitle className="text-amber-400">ข้อมูลยังน้อยเกินไป</AlertTitle>
+                <AlertDescription className="text-amber-200/80">
+                  ต้องมีคู่คนเดียวกันและคู่ต่างคนอย่างละ {CALIBRATION_CONFIG.MIN_SCORES} คู่ขึ้นไป
+                  ลงทะเบียนพนักงานเพิ่มหรือตรวจสอบเหตุการณ์ที่ระบบไม่แน่ใจในหน้าประวัติ
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Curves */}
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">ROC</CardTitle>
+                  <CardDescription>อัตรายอมรับคนจริง (1 − FRR) เทียบกับ FAR</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ErrorRateChart
+                    points={points}
+                    variant="roc"
+                    markers={[
+                      { point: savedRates, color: "#94a3b8" },
+                      { point: selectedRates, color: "#3b82f6" },
+                    ]}
+                  />
+                </CardContent>
+              </Card>
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">DET</CardTitle>
+                  <CardDescription>FRR เทียบกับ FAR (สเกลลอการิทึม)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ErrorRateChart
+                    points={points}
+                    variant="det"
+                    markers={[
+                      { point: savedRates, color: "#94a3b8" },
+                      { point: selectedRates, color: "#3b82f6" },
+                    ]}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Threshold and gap */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="text-white text-lg">ตั้งค่าเกณฑ์</CardTitle>
+                <CardDescription>
+                  {eer && `EER ${formatRate(eer.far)} ที่เกณฑ์ ${eer.threshold.toFixed(2)}`}
+                  {suggested && ` · แนะนำ ${suggested.threshold.toFixed(2)} (FAR ≤ ${formatRate(CALIBRATION_CONFIG.TARGET_FAR)})`}
+                  {suggestedGap !== null && ` · ช่องว่างแนะนำ ${suggestedGap.toFixed(2)}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label className="text-slate-300">เกณฑ์ระยะห่าง (ยิ่งต่ำยิ่งเข้มงวด)</Label>
+                    <span className="font-mono text-white">{threshold.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={CALIBRATION_CONFIG.THRESHOLD_RANGE.MIN}
+                    max={CALIBRATION_CONFIG.THRESHOLD_RANGE.MAX}
+                    step={CALIBRATION_CONFIG.THRESHOLD_RANGE.STEP}
+                    value={threshold}
+                    onChange={(e) => setThreshold(Number(e.target.value))}
+                    className="w-full accent-blue-500"
+                  />
+                  <div className="flex gap-4 text-sm">
+                    <span className={cn(selectedRates.far > CALIBRATION_CONFIG.TARGET_FAR ? "text-red-400" : "text-green-400")}>
+                      FAR {formatRate(selectedRates.far)}
+                    </span>
+                    <span className="text-slate-300">FRR {formatRate(selectedRates.frr)}</span>
+                    <span className="text-slate-500">
+                      (เดิม FAR {formatRate(savedRates.far)} · FRR {formatRate(savedRates.frr)})
+                    </span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="min-gap" className="text-slate-300">ช่องว่างขั้นต่ำจากคนที่ใกล้เคียงอันดับสอง</Label>
+                  <div className="flex items-center gap-3">
+                    <Input
+                      id="min-gap"
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      value={minGap}
+                      onChange={(e) => setMinGap(Math.max(0, Number(e.target.value)))}
+                      className="w-28 bg-slate-900/50 border-slate-600 text-white"
+                    />
+                    <span className="text-sm text-slate-400">
+                      ทำให้คนจริงถูกระงับเพราะไม่แน่ใจ {formatRate(gapRejectRate(data.gaps, minGap))}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleApplySuggestion}
+                    disabled={!hasEnoughData || !suggested}
+                    className="border-slate-600 text-slate-300"
+                  >
+                    ใช้ค่าที่แนะนำ
+                  </Button>
+                  <Button
+                    onClick={() => void handleSave()}
+                    disabled={!isDirty || isSaving}
+                    className="bg-blue-600 hover:bg-blue-700"
+                  >
+                    {isSaving ? "กำลังบันทึก..." : "💾 บันทึกเกณฑ์"}
+                  </Button>
+                  {globalRecord?.updatedAt && (
+                    <Badge className="bg-slate-700 text-slate-300 self-center">
+                      บันทึกล่าสุด {new Date(globalRecord.updatedAt).toLocaleString("th-TH")}
+                    </Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// SVG error-rate curve - ROC on linear axes, DET on log axes
+const ErrorRateChart = ({
+  points,
+  variant,
+  markers,
+}: {
+  points: ErrorRatePoint[];
+  variant: "roc" | "det";
+  markers: Array<{ point: ErrorRatePoint; color: string }>;
+}) => {
+  const size = 240;
+  const pad = 28;
+  const span = size - pad * 2;
+  const LOG_FLOOR = 1e-4;
+
+  const axis = (rate: number) =>
+    variant === "roc"
+      ? rate
+      : (Math.log10(Math.max(rate, LOG_FLOOR)) - Math.log10(LOG_FLOOR)) / -Math.log10(LOG_FLOOR);
+  const toXY = (point: ErrorRatePoint) => {
+    const x = pad + axis(point.far) * span;
+    // ROC plots 1 - FRR upwards, so FRR maps straight to the distance from the top
+    const y = variant === "roc"
+      ? pad + point.frr * span
+      : pad + (1 - axis(point.frr)) * span;
+    return { x, y };
+  };
+
+  const path = points
+    .map((point, i) => {
+      const { x, y } = toXY(point);
+      return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full h-auto">
+      <rect x={pad} y={pad} width={span} height={span} fill="none" stroke="#334155" />
+      {variant === "roc" && (
+        <line x1={pad} y1={pad + span} x2={pad + span} y2={pad} stroke="#334155" strokeDasharray="4 4" />
+      )}
+      <path d={path} fill="none" stroke="#22c55e" strokeWidth={2} />
+      {markers.map(({ point, color }, i) => {
+        const { x, y } = toXY(point);
+        return <circle key={i} cx={x} cy={y} r={4} fill={color} />;
+      })}
+      <text x={pad + span / 2} y={size - 6} textAnchor="middle" className="fill-slate-400 text-[10px]">
+        FAR
+      </text>
+      <text
+        x={10}
+        y={pad + span / 2}
+        textAnchor="middle"
+        transform={`rotate(-90 10 ${pad + span / 2})`}
+        className="fill-slate-400 text-[10px]"
+      >
+        {variant === "roc" ? "1 − FRR" : "FRR"}
+      </text>
+      {variant === "det" && (
+        <>
+          <text x={pad} y={pad + span + 12} textAnchor="middle" className="fill-slate-500 text-[9px]">0.01%</text>
+          <text x={pad + span} y={pad + span + 12} textAnchor="middle" className="fill-slate-500 text-[9px]">100%</text>
+        </>
+      )}
+    </svg>
+  );
+};
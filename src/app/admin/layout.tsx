@@ -0,0 +1,7 @@
+import type { ReactNode } from "react";
+import { AuthGuard } from "@/shared/components/auth-guard";
+import { ROUTE_ROLES } from "@/shared/lib/permissions";
+
+export default function AdminLayout({ children }: { children: ReactNode }) {
+  return <AuthGuard roles={ROUTE_ROLES.admin}>{children}</AuthGuard>;
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { toast } from "@/components/ui/sonner";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type { EmbeddingMigrationReason, EmbeddingMigrationRecord, Employee } from "@/entities/employee";
+import { useRecognitionSettings } from "@/shared/hooks/use-recognition-settings";
+import { getFaceRecognizer } from "@/shared/lib/face-recognizer";
+import {
+  EMBEDDING_MIGRATION_CONFIG,
+  assessEmbeddingMigration,
+  migrateEmbeddings,
+  summarizeEmbeddingMigration,
+  type EmbeddingMigrationState,
+  type EmployeeMigrationStatus,
+} from "@/shared/lib/embedding-migration";
+import { cn } from "@/lib/utils";
+
+const STATE_LABELS: Record<EmbeddingMigrationState, { label: string; className: string }> = {
+  "needs-reenrollment": { label: "ต้องลงทะเบียนใหม่", className: "bg-red-500/20 text-red-300" },
+  pending: { label: "รอย้าย", className: "bg-yellow-500/20 text-yellow-300" },
+  current: { label: "เป็นปัจจุบัน", className: "bg-green-500/20 text-green-300" },
+  "not-enrolled": { label: "ยังไม่ลงทะเบียน", className: "bg-slate-700 text-slate-300" },
+};
+
+const STATE_ORDER = Object.keys(STATE_LABELS) as EmbeddingMigrationState[];
+
+const REASON_LABELS: Record<EmbeddingMigrationReason, string> = {
+  "no-photos": "ไม่มีภาพลงทะเบียนขนาดเต็มที่เก็บไว้ (มีเพียงภาพย่อ)",
+  "unsupported-backend": "ระบบจดจำนี้สร้างลายใบหน้าจากภาพนิ่งไม่ได้",
+  "too-few-faces": "หาใบหน้าในภาพที่เก็บไว้ได้ไม่พอ",
+};
+
+/**
+ * Why an employee can't be migrated - from the last attempt, or predicted before trying
+ */
+const describeBlocker = (status: EmployeeMigrationStatus, canEmbedImages: boolean): string | null => {
+  if (status.state !== "needs-reenrollment") return null;
+  if (status.record?.reason) return REASON_LABELS[status.record.reason];
+  if (!canEmbedImages) return REASON_LABELS["unsupported-backend"];
+  if (!status.photoCount) return REASON_LABELS["no-photos"];
+  return `มีภาพลงทะเบียน ${status.photoCount} ภาพ ต้องมีอย่างน้อย ${EMBEDDING_MIGRATION_CONFIG.MIN_RECOMPUTED_ENTRIES} ภาพ`;
+};
+
+export default function EmbeddingMigrationPage() {
+  const repository = useMemo(() => createEmployeeRepository(), []);
+  // The global settings pick the recognizer every kiosk moves to
+  const { settings, isLoading: isLoadingSettings } = useRecognitionSettings(repository);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [records, setRecords] = useState<EmbeddingMigrationRecord[]>([]);
+  const [filter, setFilter] = useState<EmbeddingMigrationState | "all">("all");
+  const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [employeeData, migrationData] = await Promise.all([
+          repository.listEmployees(),
+          repository.listEmbeddingMigrations(),
+        ]);
+        setEmployees(employeeData);
+        setRecords(migrationData);
+      } catch (err) {
+        console.error("Failed to load migration data:", err);
+        toast.error("ไม่สามารถโหลดข้อมูลได้");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    void load();
+  }, [repository]);
+
+  const recognizer = getFaceRecognizer(settings.detection.backend);
+  const statuses = useMemo(
+    () =>
+      employees
+        .map((employee) => assessEmbeddingMigration(employee, records, recognizer))
+        .sort((a, b) => STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state)),
+    [employees, records, recognizer]
+  );
+  const summary = useMemo(() => summarizeEmbeddingMigration(statuses), [statuses]);
+  // Pending ones are re-computed, blocked ones without a record get flagged for re-enrollment
+  const runnable = statuses.filter(
+    (status) => status.state === "pending" || (status.state === "needs-reenrollment" && !status.record)
+  );
+  const visible = filter === "all" ? statuses : statuses.filter((status) => status.state === filter);
+  const isRunning = progress !== null;
+
+  const handleMigrate = async (targets: EmployeeMigrationStatus[]) => {
+    setProgress({ done: 0, total: targets.length });
+    let migrated = 0;
+    let flagged = 0;
+    let failed = 0;
+
+    // One employee at a time - each photo runs through the recognizer models
+    for (const [index, { employee }] of targets.entries()) {
+      try {
+        const { payload, embeddings } = await migrateEmbeddings(employee, recognizer);
+        if (embeddings) {
+          await repository.upsertEmbeddings(employee.id, embeddings);
+          setEmployees((prev) => prev.map((e) => (e.id === employee.id ? { ...e, embeddings } : e)));
+          migrated++;
+        } else {
+          flagged++;
+        }
+        const record = await repository.recordEmbeddingMigration(payload);
+        setRecords((prev) => [record, ...prev.filter((r) => r.employeeId !== record.employeeId)]);
+      } catch (err) {
+        console.error(`Failed to migrate ${employee.fullName}:`, err);
+        failed++;
+      }
+      setProgress({ done: index + 1, total: targets.length });
+    }
+
+    setProgress(null);
+    const message = `ย้ายแล้ว ${migrated} คน · ต้องลงทะเบียนใหม่ ${flagged} คน`;
+    if (failed) toast.error(`${message} · ผิดพลาด ${failed} คน`);
+    else toast.success(message);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-slate-900/80 backdrop-blur-lg border-b border-slate-700">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-white">ย้ายลายใบหน้า</h1>
+            <p className="text-sm text-slate-400">
+              ระบบจดจำที่ใช้อยู่สร้างลายใบหน้าแบบ <span className="font-mono">{recognizer.version}</span>
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/admin">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ← กลับ
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {isLoading || isLoadingSettings ? (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-slate-400">กำลังโหลด...</p>
+          </div>
+        ) : (
+          <>
+            {/* Progress */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-white text-base">ความคืบหน้า</CardTitle>
+                <CardDescription>
+                  พนักงานที่ลายใบหน้าเป็นเวอร์ชันอื่นจะไม่ถูกจดจำจนกว่าจะย้ายหรือลงทะเบียนใหม่
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-slate-300">
+                      {summary.current} / {summary.enrolled} คนที่ลงทะเบียนแล้ว
+                    </span>
+                    <span className="font-mono text-white">{Math.round(summary.progress * 100)}%</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                    <div className="h-full bg-green-500 transition-all" style={{ width: `${summary.progress * 100}%` }} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {STATE_ORDER.map((state) => (
+                    <button
+                      key={state}
+                      onClick={() => setFilter(filter === state ? "all" : state)}
+                      className={cn(
+                        "rounded-lg p-3 text-left bg-slate-900/40 border border-transparent",
+                        filter === state && "border-blue-500/50"
+                      )}
+                    >
+                      <p className="text-2xl font-bold text-white">{summary[state]}</p>
+                      <p className="text-xs text-slate-400">{STATE_LABELS[state].label}</p>
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    onClick={() => void handleMigrate(runnable)}
+                    disabled={isRunning || !runnable.length}
+                    className="bg-blue-600 hover:bg-blue-700"
+                  >
+                    {progress
+                      ? `กำลังย้าย ${progress.done}/${progress.total}...`
+                      : `▶ ย้ายทั้งหมด (${runnable.length})`}
+                  </Button>
+                  <p className="text-xs text-slate-500">
+                    สร้างลายใบหน้าใหม่จากภาพลงทะเบียนที่เก็บไว้ - ภาพจากการเช็คอินไม่ได้เก็บไว้จึงย้ายไม่ได้
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {summary["needs-reenrollment"] > 0 && (
+              <Alert className="bg-red-500/10 border-red-500/30">
+                <AlertTitle className="text-red-400">
+                  ต้องลงทะเบียนใบหน้าใหม่ {summary["needs-reenrollment"]} คน
+                </AlertTitle>
+                <AlertDescription className="text-red-200/80">
+                  ลงทะเบียนใหม่ได้ที่หน้าตั้งค่าระบบ - หลังลงทะเบียนสถานะจะเป็นปัจจุบันทันที
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Employees */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-white text-base">
+                  พนักงาน {filter !== "all" && `· ${STATE_LABELS[filter].label}`}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {visible.length === 0 ? (
+                  <p className="text-center text-slate-500 py-6">ไม่มีพนักงานในกลุ่มนี้</p>
+                ) : (
+                  visible.map((status) => (
+                    <MigrationRow
+                      key={status.employee.id}
+                      status={status}
+                      blocker={describeBlocker(status, recognizer.embedImage !== undefined)}
+                      disabled={isRunning}
+                      onMigrate={() => void handleMigrate([status])}
+                    />
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// One employee with their template version and what is left to do
+const MigrationRow = ({
+  status,
+  blocker,
+  disabled,
+  onMigrate,
+}: {
+  status: EmployeeMigrationStatus;
+  blocker: string | null;
+  disabled: boolean;
+  onMigrate: () => void;
+}) => {
+  const { employee, state, version, photoCount, record } = status;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg p-3 bg-slate-900/40">
+      <div className="min-w-0">
+        <p className="text-slate-200 font-medium truncate">{employee.fullName}</p>
+        <p className="text-xs text-slate-500">
+          {version ? <span className="font-mono">{version}</span> : "ไม่มีลายใบหน้า"}
+          {` · ภาพลงทะเบียน ${photoCount} ภาพ`}
+          {record?.status === "migrated" &&
+            ` · ย้ายเมื่อ ${new Date(record.updatedAt).toLocaleString("th-TH")} (${record.recomputedCount} ภาพ)`}
+        </p>
+        {blocker && <p className="text-xs text-red-300/80">{blocker}</p>}
+      </div>
+      <div className="flex items-center gap-2">
+        <Badge className={STATE_LABELS[state].className}>{STATE_LABELS[state].label}</Badge>
+        {state === "pending" && (
+          <Button size="sm" variant="outline" onClick={onMigrate} disabled={disabled} className="border-slate-600 text-slate-300">
+            ย้าย
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
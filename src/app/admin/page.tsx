@@ -12,30 +12,61 @@ import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "@/components/ui/sonner";
 import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
 import { 
   initializeFaceDetection, 
   isFaceDetectionReady,
   captureEmbeddingFromVideoAsync,
   createFaceEmbeddings,
+  cropFaceThumbnail,
+  ENROLLMENT_PHOTO_SIZE,
 } from "@/shared/lib/face-embedding";
+import {
+  loadMediaPipeModels,
+  detectFacesWithMediaPipe,
+  findMeshForBox,
+} from "@/shared/lib/mediapipe-face-detection";
+import {
+  ENROLLMENT_ANGLES,
+  enrollmentAngleGuide,
+  classifyEnrollmentPose,
+  nextMissingAngle,
+  type EnrollmentPose,
+} from "@/shared/lib/enrollment-angles";
+import { assessCaptureQuality, describeQualityIssues } from "@/shared/lib/image-quality";
+import { findIdentityConflicts, type IdentityConflict } from "@/shared/lib/duplicate-identity";
+import { useRecognitionSettings } from "@/shared/hooks/use-recognition-settings";
 import { cn } from "@/lib/utils";
-import type { Employee, FaceEmbeddingEntry } from "@/entities/employee";
+import type { Employee, FaceAngle, FaceEmbeddingEntry } from "@/entities/employee";
 import { PROGRESSIVE_LEARNING_CONFIG } from "@/entities/employee";
 
-// Simple 5 photos registration
-const REQUIRED_PHOTOS = 5;
+// One photo per enrollment angle
+const REQUIRED_PHOTOS = ENROLLMENT_ANGLES.length;
+const POSE_PREVIEW_INTERVAL_MS = 400;
+// Pose factor of the quality score when the angle was picked by hand - nothing to measure it with
+const MANUAL_POSE = { yaw: 0, tilt: 0 };
+
+// Slot for the next capture without the face mesh: the operator's pick, else the first missing angle
+const resolveManualAngle = (captured: FaceAngle[], picked: FaceAngle | null) =>
+  picked && !captured.includes(picked) ? picked : nextMissingAngle(captured);
 
 export default function AdminPage() {
   const repository = useMemo(() => createEmployeeRepository(), []);
+  // Duplicate checks use the configured match threshold
+  useRecognitionSettings(repository);
   
   // State
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [isLoadingEmployees, setIsLoadingEmployees] = useState(true);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
   const [modelsReady, setModelsReady] = useState(false);
+  const [isMeshReady, setIsMeshReady] = useState(false); // MediaPipe mesh - classifies the head pose
+  const [manualAngle, setManualAngle] = useState<FaceAngle | null>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [capturedPhotos, setCapturedPhotos] = useState<FaceEmbeddingEntry[]>([]);
+  const [livePose, setLivePose] = useState<EnrollmentPose | null>(null);
+  const [identityConflicts, setIdentityConflicts] = useState<IdentityConflict[]>([]);
   const [error, setError] = useState<string | null>(null);
   
   // Form state
@@ -50,8 +81,13 @@ export default function AdminPage() {
   // Load models on mount
   useEffect(() => {
     const loadModels = async () => {
-      const loaded = await initializeFaceDetection();
+      const [loaded, meshLoaded] = await Promise.all([
+        initializeFaceDetection(),
+        loadMediaPipeModels(),
+      ]);
+      // Capturing only needs face-api; without the mesh the angle is picked by hand
       setModelsReady(loaded);
+      setIsMeshReady(meshLoaded);
     };
     loadModels();
   }, []);
@@ -116,6 +152,25 @@ export default function AdminPage() {
   // Cleanup on unmount
   useEffect(() => stopCamera, [stopCamera]);
 
+  // Live pose preview so the operator can line up the next angle
+  const isEnrollmentMode = selectedEmployee !== null;
+  useEffect(() => {
+    if (!isEnrollmentMode || !isCameraReady || !isMeshReady) return;
+
+    let active = true;
+    const interval = setInterval(async () => {
+      if (!videoRef.current) return;
+      const meshes = await detectFacesWithMediaPipe(videoRef.current);
+      if (!active) return;
+      setLivePose(meshes[0]?.landmarks ? classifyEnrollmentPose(meshes[0].landmarks) : null);
+    }, POSE_PREVIEW_INTERVAL_MS);
+
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [isEnrollmentMode, isCameraReady, isMeshReady]);
+
   // Quick add employee
   const handleQuickAdd = async () => {
     if (!employeeName.trim()) {
@@ -135,6 +190,9 @@ export default function AdminPage() {
       toast.success(`เพิ่ม ${created.fullName} สำเร็จ!`);
       setSelectedEmployee(created);
       setCapturedPhotos([]);
+      setManualAngle(null);
+      setIdentityConflicts([]);
+      setLivePose(null);
       setEmployeeName("");
       setEmployeeEmail("");
       await startCamera();
@@ -149,11 +207,14 @@ export default function AdminPage() {
   const handleSelectEmployee = async (emp: Employee) => {
     setSelectedEmployee(emp);
     setCapturedPhotos([]);
+    setManualAngle(null);
+    setIdentityConflicts([]);
+    setLivePose(null);
     setError(null);
     await startCamera();
   };
 
-  // Capture one photo - SIMPLE, just press button
+  // Capture one photo - the angle slot comes from the head pose
   const handleCapturePhoto = async () => {
     if (!videoRef.current || !isCameraReady) {
       setError("กล้องยังไม่พร้อม");
@@ -171,15 +232,61 @@ export default function AdminPage() {
         return;
       }
 
+      const filledAngles = capturedPhotos.map((p) => p.angle);
+      const meshes = isMeshReady ? await detectFacesWithMediaPipe(videoRef.current) : [];
+      const mesh = result.boundingBox ? findMeshForBox(result.boundingBox, meshes) : meshes[0];
+      let pose: EnrollmentPose | null = null;
+      if (isMeshReady) {
+        pose = mesh?.landmarks ? classifyEnrollmentPose(mesh.landmarks) : null;
+        if (!pose) {
+          setError("ไม่สามารถประเมินมุมใบหน้าได้ - กรุณาลองใหม่");
+          return;
+        }
+        if (!pose.isLevel) {
+          setError("กรุณาอย่าก้มหรือเงยหน้า - มองระดับเดียวกับกล้อง");
+          return;
+        }
+      }
+
+      const angle = pose?.angle ?? resolveManualAngle(filledAngles, manualAngle);
+      if (!angle) return;
+      if (filledAngles.includes(angle)) {
+        const next = nextMissingAngle(filledAngles);
+        setError(
+          `มุม${enrollmentAngleGuide[angle].label}ถ่ายแล้ว` +
+            (next ? ` - กรุณา${enrollmentAngleGuide[next].instruction}` : "")
+        );
+        return;
+      }
+
+      const faceBox = result.boundingBox ?? mesh?.box;
+      if (!faceBox) {
+        setError("ไม่พบตำแหน่งใบหน้า - กรุณาลองใหม่");
+        return;
+      }
+      const qualityReport = assessCaptureQuality(videoRef.current, faceBox, {
+        detectorConfidence: result.confidence ?? 0.9,
+        pose: pose ?? MANUAL_POSE,
+      });
+      if (!qualityReport.acceptable) {
+        setError(describeQualityIssues(qualityReport));
+        return;
+      }
+
       const entry: FaceEmbeddingEntry = {
         vector: result.embedding,
-        angle: "front",
+        angle,
         createdAt: new Date().toISOString(),
-        quality: result.confidence ?? 0.9,
+        quality: qualityReport.score,
+        imageDataUrl: cropFaceThumbnail(videoRef.current, faceBox, ENROLLMENT_PHOTO_SIZE),
+        imageSize: ENROLLMENT_PHOTO_SIZE,
+        source: "enrollment",
       };
 
       setCapturedPhotos(prev => [...prev, entry]);
-      toast.success(`ถ่ายภาพที่ ${capturedPhotos.length + 1} สำเร็จ!`);
+      toast.success(
+        `ถ่ายภาพมุม${enrollmentAngleGuide[angle].label}สำเร็จ! (คุณภาพ ${Math.round(qualityReport.score * 100)}%)`
+      );
     } catch (err) {
       setError("ไม่สามารถถ่ายภาพได้");
     } finally {
@@ -188,9 +295,18 @@ export default function AdminPage() {
   };
 
   // Complete enrollment
-  const handleComplete = async () => {
+  const handleComplete = async (confirmedDistinct = false) => {
     if (!selectedEmployee || capturedPhotos.length < REQUIRED_PHOTOS) return;
 
+    // The same person under two records would fight each other at the kiosk
+    const conflicts = findIdentityConflicts(capturedPhotos, employees, selectedEmployee.id);
+    const isBlocked = conflicts.some((c) => c.severity === "block");
+    if (isBlocked || (conflicts.length > 0 && !confirmedDistinct)) {
+      setIdentityConflicts(conflicts);
+      return;
+    }
+    setIdentityConflicts([]);
+
     try {
       const embeddings = createFaceEmbeddings(capturedPhotos, true);
       await repository.upsertEmbeddings(selectedEmployee.id, embeddings);
@@ -200,6 +316,7 @@ export default function AdminPage() {
       // Reset
       setSelectedEmployee(null);
       setCapturedPhotos([]);
+      setIdentityConflicts([]);
       stopCamera();
     } catch (err) {
       toast.error("ไม่สามารถบันทึกได้");
@@ -210,10 +327,33 @@ export default function AdminPage() {
   const handleCancel = () => {
     setSelectedEmployee(null);
     setCapturedPhotos([]);
+    setManualAngle(null);
+    setIdentityConflicts([]);
     setError(null);
     stopCamera();
   };
 
+  // Resolve a duplicate by clearing the face data of the other record
+  const handleClearConflict = async (conflict: IdentityConflict) => {
+    if (!confirm(`ต้องการล้างใบหน้าของ ${conflict.employee.fullName}?`)) return;
+
+    try {
+      await repository.clearEmbeddings(conflict.employee.id);
+      setIdentityConflicts(prev => prev.filter(c => c.employee.id !== conflict.employee.id));
+      toast.success(`ล้างใบหน้าของ ${conflict.employee.fullName} แล้ว`);
+    } catch {
+      toast.error("ไม่สามารถล้างใบหน้าได้");
+    }
+  };
+
+  // Start over when the captures belong to someone already enrolled
+  const handleRetake = () => {
+    setCapturedPhotos([]);
+    setManualAngle(null);
+    setIdentityConflicts([]);
+    setError(null);
+  };
+
   // Delete employee
   const handleDelete = async (emp: Employee) => {
     if (!confirm(`ต้องการลบ ${emp.fullName}?`)) return;
@@ -241,9 +381,10 @@ export default function AdminPage() {
     emp => emp.embeddings?.entries?.length || emp.embedding?.vector?.length
   ).length;
 
-  const isEnrollmentMode = selectedEmployee !== null;
+  const filledAngles = capturedPhotos.map((p) => p.angle);
+  const targetAngle = isMeshReady ? nextMissingAngle(filledAngles) : resolveManualAngle(filledAngles, manualAngle);
   const progress = (capturedPhotos.length / REQUIRED_PHOTOS) * 100;
-  const canComplete = capturedPhotos.length >= REQUIRED_PHOTOS;
+  const canComplete = targetAngle === null;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -257,12 +398,33 @@ export default function AdminPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <UserMenu />
             <Badge className={cn(
               "text-xs",
               modelsReady ? "bg-green-500/20 text-green-400" : "bg-yellow-500/20 text-yellow-400"
             )}>
               {modelsReady ? "🟢 พร้อม" : "🟡 กำลังโหลด..."}
             </Badge>
+            <Link href="/admin/calibration">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ปรับเทียบ
+              </Button>
+            </Link>
+            <Link href="/admin/settings">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ค่าการจดจำ
+              </Button>
+            </Link>
+            <Link href="/admin/calendar">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ปฏิทิน
+              </Button>
+            </Link>
+            <Link href="/admin/migration">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ย้ายลายใบหน้า
+              </Button>
+            </Link>
             <Link href="/kiosk">
               <Button size="sm" className="bg-blue-600 hover:bg-blue-700">
                 เปิด Kiosk
@@ -317,6 +479,26 @@ export default function AdminPage() {
                   </div>
                 )}
 
+                {/* Live pose */}
+                {isCameraReady && targetAngle && isMeshReady && (
+                  <div className="absolute top-4 left-4 right-4 flex justify-center">
+                    <div className={cn(
+                      "rounded-full px-4 py-2 text-sm font-medium backdrop-blur",
+                      livePose?.angle === targetAngle && livePose.isLevel
+                        ? "bg-green-500/80 text-white"
+                        : "bg-black/70 text-slate-200"
+                    )}>
+                      {!livePose
+                        ? "ไม่พบใบหน้า"
+                        : !livePose.isLevel
+                          ? "กรุณามองระดับเดียวกับกล้อง"
+                          : livePose.angle === targetAngle
+                            ? `✓ ${enrollmentAngleGuide[targetAngle].label} - กดถ่ายภาพได้เลย`
+                            : `ตอนนี้: ${enrollmentAngleGuide[livePose.angle].label} → ${enrollmentAngleGuide[targetAngle].instruction}`}
+                    </div>
+                  </div>
+                )}
+
                 {/* Progress */}
                 <div className="absolute bottom-4 left-4 right-4">
                   <div className="bg-black/80 rounded-xl p-4">
@@ -325,29 +507,75 @@ export default function AdminPage() {
                       <span>{capturedPhotos.length}/{REQUIRED_PHOTOS}</span>
                     </div>
                     <Progress value={progress} className="h-2" />
+                    <div className="grid grid-cols-5 gap-1 mt-3">
+                      {ENROLLMENT_ANGLES.map((angle) => {
+                        const isFilled = filledAngles.includes(angle);
+                        return (
+                          <button
+                            type="button"
+                            key={angle}
+                            // Without the mesh the operator picks the slot for the next capture
+                            disabled={isMeshReady || isFilled}
+                            onClick={() => setManualAngle(angle)}
+                            className={cn(
+                              "rounded-md py-1 text-center text-[11px]",
+                              !isMeshReady && !isFilled && "cursor-pointer hover:bg-blue-500/20",
+                              isFilled
+                                ? "bg-green-500/20 text-green-400"
+                                : angle === targetAngle
+                                  ? "bg-blue-500/30 text-blue-200 ring-1 ring-blue-400"
+                                  : "bg-slate-700/50 text-slate-400"
+                            )}
+                          >
+                            {isFilled ? "✓" : enrollmentAngleGuide[angle].icon} {enrollmentAngleGuide[angle].label}
+                          </button>
+                        );
+                      })}
+                    </div>
                   </div>
                 </div>
               </div>
 
               {/* Controls */}
               <div className="p-4 space-y-3">
+                {modelsReady && !isMeshReady && (
+                  <Alert className="bg-yellow-500/10 border-yellow-500/30">
+                    <AlertTitle className="text-yellow-400">ตรวจมุมใบหน้าอัตโนมัติไม่ได้</AlertTitle>
+                    <AlertDescription className="text-yellow-200/80">
+                      โหลดโมเดลประเมินมุมใบหน้าไม่สำเร็จ - เลือกมุมที่แถบด้านบนก่อนถ่ายแต่ละภาพ และให้พนักงานหันหน้าตามมุมที่เลือก
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {!canComplete ? (
                   <Button 
                     onClick={handleCapturePhoto}
                     disabled={isCapturing || !isCameraReady || !modelsReady}
                     className="w-full bg-blue-600 hover:bg-blue-700 h-14 text-lg"
                   >
-                    {isCapturing ? "📸 กำลังถ่าย..." : `📸 ถ่ายภาพ (${capturedPhotos.length + 1}/${REQUIRED_PHOTOS})`}
+                    {isCapturing
+                      ? "📸 กำลังถ่าย..."
+                      : `📸 ถ่ายภาพ${targetAngle ? enrollmentAngleGuide[targetAngle].label : ""} (${capturedPhotos.length + 1}/${REQUIRED_PHOTOS})`}
                   </Button>
                 ) : (
                   <Button 
-                    onClick={handleComplete}
+                    onClick={() => void handleComplete()}
                     className="w-full bg-green-600 hover:bg-green-700 h-14 text-lg"
                   >
                     ✅ บันทึกใบหน้า ({REQUIRED_PHOTOS} ภาพ)
                   </Button>
                 )}
 
+                {identityConflicts.length > 0 && (
+                  <IdentityConflictPanel
+                    conflicts={identityConflicts}
+                    capturedPhotos={capturedPhotos}
+                    onClearConflict={(conflict) => void handleClearConflict(conflict)}
+                    onRetake={handleRetake}
+                    onConfirmDistinct={() => void handleComplete(true)}
+                  />
+                )}
+
                 {error && (
                   <Alert variant="destructive" className="bg-red-500/10 border-red-500/30">
                     <AlertTitle className="text-red-400">เกิดข้อผิดพลาด</AlertTitle>
@@ -356,7 +584,9 @@ export default function AdminPage() {
                 )}
 
                 <p className="text-center text-slate-400 text-sm">
-                  💡 กดปุ่มถ่ายภาพ {REQUIRED_PHOTOS} ครั้ง - ลองหันหน้าหลายๆ มุม
+                  💡 {targetAngle
+                    ? `${enrollmentAngleGuide[targetAngle].instruction} แล้วกดถ่ายภาพ`
+                    : "ครบทุกมุมแล้ว - กดบันทึกใบหน้า"}
                 </p>
               </div>
             </Card>
@@ -506,3 +736,122 @@ export default function AdminPage() {
     </div>
   );
 }
+
+// Side-by-side view of the new captures and the enrolled faces they match
+const IdentityConflictPanel = ({
+  conflicts,
+  capturedPhotos,
+  onClearConflict,
+  onRetake,
+  onConfirmDistinct,
+}: {
+  conflicts: IdentityConflict[];
+  capturedPhotos: FaceEmbeddingEntry[];
+  onClearConflict: (conflict: IdentityConflict) => void;
+  onRetake: () => void;
+  onConfirmDistinct: () => void;
+}) => {
+  const isBlocked = conflicts.some((c) => c.severity === "block");
+
+  return (
+    <Alert className={cn(
+      isBlocked ? "bg-red-500/10 border-red-500/30" : "bg-amber-500/10 border-amber-500/30"
+    )}>
+      <AlertTitle className={isBlocked ? "text-red-400" : "text-amber-400"}>
+        {isBlocked ? "⛔ ใบหน้านี้ลงทะเบียนไว้แล้ว" : "⚠️ ใบหน้าคล้ายพนักงานคนอื่น"}
+      </AlertTitle>
+      <AlertDescription className="space-y-4 text-slate-300">
+        <p>
+          {isBlocked
+            ? "ภาพที่ถ่ายตรงกับพนักงานด้านล่าง หากเป็นคนเดียวกันให้ใช้ข้อมูลเดิม หรือล้างใบหน้าของข้อมูลที่ผิดก่อน"
+            : "ภาพบางส่วนใกล้เคียงกับพนักงานด้านล่าง กรุณาตรวจสอบก่อนบันทึก"}
+        </p>
+
+        <div>
+          <p className="text-xs text-slate-400 mb-1">ภาพที่ถ่ายใหม่</p>
+          <div className="flex gap-1">
+            {capturedPhotos.map((photo, i) =>
+              photo.imageDataUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  key={i}
+                  src={photo.imageDataUrl}
+                  alt={`ภาพที่ ${i + 1}`}
+                  className="h-12 w-12 rounded-md object-cover"
+                />
+              ) : null
+            )}
+          </div>
+        </div>
+
+        {conflicts.map((conflict) => {
+          const { employee } = conflict;
+          const images = (employee.embeddings?.entries ?? [])
+            .filter((entry) => entry.imageDataUrl)
+            .slice(0, 5);
+
+          return (
+            <div key={employee.id} className="rounded-lg bg-slate-900/50 p-3 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={employee.avatarUrl} />
+                    <AvatarFallback className="bg-slate-700 text-white text-xs">
+                      {employee.fullName.slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium text-white truncate">{employee.fullName}</p>
+                    <p className="text-xs text-slate-400">
+                      คล้าย {Math.round(conflict.similarity * 100)}% · ตรงกัน {conflict.matchedEntries}/{capturedPhotos.length} ภาพ
+                    </p>
+                  </div>
+                </div>
+                <Badge className={cn(
+                  "text-xs shrink-0",
+                  conflict.severity === "block" ? "bg-red-500/20 text-red-400" : "bg-amber-500/20 text-amber-400"
+                )}>
+                  {conflict.severity === "block" ? "ซ้ำ" : "คล้าย"}
+                </Badge>
+              </div>
+              {images.length > 0 ? (
+                <div className="flex gap-1">
+                  {images.map((entry, i) => (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img
+                      key={i}
+                      src={entry.imageDataUrl}
+                      alt={`${employee.fullName} ภาพที่ ${i + 1}`}
+                      className="h-12 w-12 rounded-md object-cover"
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500">ไม่มีภาพที่บันทึกไว้</p>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onClearConflict(conflict)}
+                className="border-slate-600 text-slate-300"
+              >
+                🗑️ ล้างใบหน้าของ {employee.fullName}
+              </Button>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={onRetake} className="border-slate-600 text-slate-300">
+            📸 ถ่ายภาพใหม่
+          </Button>
+          {!isBlocked && (
+            <Button size="sm" onClick={onConfirmDistinct} className="bg-amber-600 hover:bg-amber-700">
+              ยืนยันว่าเป็นคนละคน - บันทึกต่อ
+            </Button>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,436 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type { FaceRecognizerBackend, GalleryReplacementStrategy } from "@/entities/employee";
+import {
+  GLOBAL_SETTINGS_SCOPE,
+  type FaceMatchMode,
+  type RecognitionSettings,
+  type RecognitionSettingsGroup,
+  type RecognitionSettingsOverride,
+} from "@/entities/settings";
+import {
+  DEFAULT_RECOGNITION_SETTINGS,
+  RECOGNITION_SETTINGS_GROUPS,
+  diffRecognitionSettings,
+  mergeRecognitionSettings,
+  recognitionSettingsSchema,
+} from "@/shared/lib/recognition-settings";
+import { useRecognitionSettings } from "@/shared/hooks/use-recognition-settings";
+import { cn } from "@/lib/utils";
+
+type SettingField = {
+  [G in RecognitionSettingsGroup]: {
+    group: G;
+    key: keyof RecognitionSettings[G] & string;
+    label: string;
+    hint?: string;
+    step?: number;
+    unit?: string;
+    scale?: number; // Stored value = shown value x scale
+    options?: Record<string, string>; // Choice between fixed values
+  };
+}[RecognitionSettingsGroup];
+
+const GROUP_LABELS: Record<RecognitionSettingsGroup, { title: string; description: string }> = {
+  match: { title: "การจับคู่ใบหน้า", description: "เกณฑ์ที่ใช้ตัดสินว่าเป็นพนักงานคนไหน" },
+  detection: { title: "การตรวจจับใบหน้า", description: "ระบบที่ใช้หาใบหน้าและสร้างลายใบหน้า" },
+  mediapipe: { title: "การตรวจจับใบหน้า (MediaPipe)", description: "ใช้ติดตามใบหน้าและท่าทางศีรษะ" },
+  learning: { title: "การเรียนรู้จากการเช็คอิน", description: "เพิ่มภาพใบหน้าใหม่จากการเช็คอินที่มั่นใจ" },
+  kiosk: { title: "Kiosk", description: "จังหวะการตรวจจับและการนับซ้ำ" },
+};
+
+const STRATEGY_LABELS: Record<GalleryReplacementStrategy, string> = {
+  diversity: "เก็บภาพที่หลากหลาย",
+  "lowest-quality": "แทนที่ภาพคุณภาพต่ำสุด",
+};
+
+const BACKEND_LABELS: Record<FaceRecognizerBackend, string> = {
+  faceapi: "face-api.js",
+  mediapipe: "MediaPipe + face-api",
+  tensorflow: "MediaPipe landmarks",
+};
+
+const MATCH_MODE_LABELS: Record<FaceMatchMode, string> = {
+  local: "บนเครื่อง Kiosk",
+  server: "บนเซิร์ฟเวอร์ (pgvector)",
+};
+
+const SETTING_FIELDS: SettingField[] = [
+  { group: "match", key: "threshold", label: "ระยะห่างสูงสุดที่นับว่าตรงกัน", hint: "ต่ำ = เข้มงวดขึ้น", step: 0.01 },
+  { group: "match", key: "minConfidenceGap", label: "ช่องว่างขั้นต่ำจากคนที่ใกล้รองลงมา", step: 0.01 },
+  { group: "match", key: "consecutiveMatchesRequired", label: "จำนวนเฟรมที่ต้องตรงกันติดต่อกัน", step: 1 },
+  { group: "match", key: "minDetectionConfidence", label: "ความมั่นใจขั้นต่ำในการตรวจจับ", step: 0.05 },
+  { group: "match", key: "requireLiveness", label: "ต้องผ่านการตรวจสอบบุคคลจริง" },
+  {
+    group: "match",
+    key: "mode",
+    label: "จับคู่ใบหน้าที่",
+    hint: "เซิร์ฟเวอร์ = Kiosk ไม่ต้องโหลดลายใบหน้าทุกคน แต่ต้องออนไลน์ และหยุดการเรียนรู้จากการเช็คอิน มีผลเมื่อโหลดหน้า Kiosk ใหม่",
+    options: MATCH_MODE_LABELS,
+  },
+  {
+    group: "detection",
+    key: "backend",
+    label: "ระบบจดจำใบหน้า",
+    hint: "เปลี่ยนเวอร์ชันลายใบหน้าแล้ว ดูความคืบหน้าการย้ายที่หน้าย้ายลายใบหน้า",
+    options: BACKEND_LABELS,
+  },
+  { group: "detection", key: "minConfidence", label: "ความมั่นใจขั้นต่ำ", step: 0.05 },
+  { group: "detection", key: "ssdMinConfidence", label: "เกณฑ์ SSD MobileNet", hint: "ต่ำ = จับใบหน้าที่ไกลหรือเคลื่อนไหวได้ดีขึ้น", step: 0.05 },
+  { group: "mediapipe", key: "minConfidence", label: "ความมั่นใจขั้นต่ำ", step: 0.05 },
+  { group: "mediapipe", key: "minVisibility", label: "การมองเห็นจุดบนใบหน้าขั้นต่ำ", step: 0.05 },
+  { group: "mediapipe", key: "maxFaces", label: "จำนวนใบหน้าสูงสุดต่อเฟรม", hint: "มีผลเมื่อโหลดหน้า Kiosk ใหม่", step: 1 },
+  { group: "learning", key: "maxEmbeddings", label: "ภาพใบหน้าสูงสุดต่อคน", step: 1 },
+  { group: "learning", key: "minQualityToAdd", label: "คุณภาพขั้นต่ำที่จะเรียนรู้", step: 0.05 },
+  { group: "learning", key: "minSimilarityToAdd", label: "ความคล้ายขั้นต่ำที่จะเรียนรู้", step: 0.05 },
+  { group: "learning", key: "replaceThreshold", label: "คุณภาพที่ต้องดีกว่าเพื่อแทนที่ภาพเดิม", step: 0.05 },
+  { group: "learning", key: "replacementStrategy", label: "วิธีเลือกภาพที่จะแทนที่", options: STRATEGY_LABELS },
+  { group: "learning", key: "minEntriesPerAngle", label: "ภาพขั้นต่ำต่อมุม", step: 1 },
+  { group: "learning", key: "maxAnchorDistance", label: "ระยะห่างสูงสุดจากภาพลงทะเบียน", step: 0.01 },
+  { group: "learning", key: "minIdentityGap", label: "ช่องว่างขั้นต่ำจากพนักงานคนอื่น", step: 0.01 },
+  { group: "learning", key: "minHoursBetweenUpdates", label: "เว้นระยะระหว่างการเรียนรู้", step: 1, unit: "ชม." },
+  { group: "kiosk", key: "samePersonCooldownMs", label: "ไม่นับซ้ำคนเดิมภายใน", step: 1, unit: "นาที", scale: 60 * 1000 },
+  { group: "kiosk", key: "detectionIntervalMs", label: "ช่วงเวลาระหว่างการตรวจจับ", hint: "สูง = ใช้ CPU น้อยลง", step: 10, unit: "ms" },
+];
+
+const valueOf = (settings: RecognitionSettings | RecognitionSettingsOverride, field: SettingField) =>
+  (settings[field.group] as Record<string, unknown> | undefined)?.[field.key];
+
+export default function RecognitionSettingsPage() {
+  const repository = useMemo(() => createEmployeeRepository(), []);
+  // Live - another admin's save shows up here too
+  const { records, setRecords, isLoading } = useRecognitionSettings(repository);
+  const [scope, setScope] = useState(GLOBAL_SETTINGS_SCOPE);
+  const [drafts, setDrafts] = useState<Record<string, RecognitionSettingsOverride>>({});
+  const [newKioskId, setNewKioskId] = useState("");
+  const [addedKiosks, setAddedKiosks] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isGlobal = scope === GLOBAL_SETTINGS_SCOPE;
+  const globalRecord = records.find((r) => r.scope === GLOBAL_SETTINGS_SCOPE);
+  const record = records.find((r) => r.scope === scope);
+  const kioskScopes = useMemo(
+    () => [...new Set([...records.map((r) => r.scope), ...addedKiosks])]
+      .filter((s) => s !== GLOBAL_SETTINGS_SCOPE)
+      .sort(),
+    [records, addedKiosks]
+  );
+
+  // A kiosk layers on the effective global settings, the global layer on the code defaults
+  const base = isGlobal
+    ? DEFAULT_RECOGNITION_SETTINGS
+    : mergeRecognitionSettings(DEFAULT_RECOGNITION_SETTINGS, globalRecord?.settings);
+  const override = drafts[scope] ?? record?.settings ?? {};
+  const effective = mergeRecognitionSettings(base, override);
+  const validation = recognitionSettingsSchema.safeParse(effective);
+  const isDirty = scope in drafts;
+
+  const updateDraft = (next: RecognitionSettingsOverride) => {
+    setDrafts((prev) => ({ ...prev, [scope]: next }));
+  };
+
+  const handleChange = (field: SettingField, value: unknown) => {
+    updateDraft({ ...override, [field.group]: { ...override[field.group], [field.key]: value } });
+  };
+
+  const handleReset = (field: SettingField) => {
+    const group: Record<string, unknown> = { ...override[field.group] };
+    delete group[field.key];
+    updateDraft({ ...override, [field.group]: group });
+  };
+
+  const handleDiscard = () => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[scope];
+      return next;
+    });
+  };
+
+  const handleAddKiosk = () => {
+    const kioskId = newKioskId.trim();
+    if (!kioskId || kioskId === GLOBAL_SETTINGS_SCOPE) return;
+    setAddedKiosks((prev) => [...prev, kioskId]);
+    setScope(kioskId);
+    setNewKioskId("");
+  };
+
+  const handleSave = async () => {
+    if (!validation.success) {
+      toast.error("ค่าบางช่องไม่ถูกต้อง");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const saved = await repository.saveRecognitionSettings(scope, diffRecognitionSettings(validation.data, base));
+      setRecords((prev) => [...prev.filter((r) => r.scope !== scope), saved]);
+      handleDiscard();
+      toast.success("บันทึกแล้ว - Kiosk ที่ออนไลน์จะใช้ค่าใหม่ทันที");
+    } catch (err) {
+      console.error("Failed to save recognition settings:", err);
+      toast.error("ไม่สามารถบันทึกได้");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteKiosk = async () => {
+    if (!confirm(`ลบค่าเฉพาะของ Kiosk "${scope}"? Kiosk นี้จะใช้ค่าส่วนกลาง`)) return;
+    try {
+      if (record) await repository.deleteRecognitionSettings(scope);
+      setRecords((prev) => prev.filter((r) => r.scope !== scope));
+      handleDiscard();
+      setAddedKiosks((prev) => prev.filter((s) => s !== scope));
+      setScope(GLOBAL_SETTINGS_SCOPE);
+      toast.success("ลบค่าเฉพาะของ Kiosk แล้ว");
+    } catch (err) {
+      console.error("Failed to delete kiosk settings:", err);
+      toast.error("ไม่สามารถลบได้");
+    }
+  };
+
+  const invalidFields = new Set(
+    validation.success ? [] : validation.error.issues.map((issue) => issue.path.join("."))
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-slate-900/80 backdrop-blur-lg border-b border-slate-700">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-white">ค่าการจดจำใบหน้า</h1>
+            <p className="text-sm text-slate-400">
+              ค่าส่วนกลาง + ค่าเฉพาะ Kiosk {kioskScopes.length} เครื่อง
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/admin">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ← กลับ
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Scope picker */}
+        <Card className="bg-slate-800/50 border-slate-700">
+          <CardContent className="py-4 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {[GLOBAL_SETTINGS_SCOPE, ...kioskScopes].map((s) => (
+                <Button
+                  key={s}
+                  size="sm"
+                  variant={s === scope ? "default" : "outline"}
+                  onClick={() => setScope(s)}
+                  className={cn(s !== scope && "border-slate-600 text-slate-300")}
+                >
+                  {s === GLOBAL_SETTINGS_SCOPE ? "🌐 ส่วนกลาง" : `🖥️ ${s}`}
+                  {s in drafts && " •"}
+                </Button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newKioskId}
+                onChange={(e) => setNewKioskId(e.target.value)}
+                placeholder="รหัส Kiosk เช่น lobby"
+                className="bg-slate-900 border-slate-600 text-white max-w-xs"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleAddKiosk}
+                disabled={!newKioskId.trim()}
+                className="border-slate-600 text-slate-300"
+              >
+                + เพิ่มค่าเฉพาะ Kiosk
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+              {isGlobal
+                ? "ค่าส่วนกลางใช้กับทุก Kiosk - ช่องที่ไม่ได้แก้ไขใช้ค่าเริ่มต้นของระบบ"
+                : `ใช้กับ /kiosk?kiosk=${scope} - ช่องที่ไม่ได้แก้ไขใช้ค่าส่วนกลาง`}
+            </p>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-slate-400">กำลังโหลด...</p>
+          </div>
+        ) : (
+          <>
+            {!validation.success && (
+              <Alert className="bg-red-500/10 border-red-500/30">
+                <AlertTitle className="text-red-400">ค่าบางช่องไม่ถูกต้อง</AlertTitle>
+                <AlertDescription className="text-red-200/80">
+                  แก้ไขช่องที่มีกรอบสีแดงก่อนบันทึก
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {RECOGNITION_SETTINGS_GROUPS.map((group) => (
+              <Card key={group} className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">{GROUP_LABELS[group].title}</CardTitle>
+                  <CardDescription>{GROUP_LABELS[group].description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {SETTING_FIELDS.filter((field) => field.group === group).map((field) => (
+                    <SettingRow
+                      key={field.key}
+                      field={field}
+                      value={valueOf(effective, field)}
+                      baseValue={valueOf(base, field)}
+                      isOverridden={valueOf(override, field) !== undefined}
+                      isInvalid={invalidFields.has(`${field.group}.${field.key}`)}
+                      baseLabel={isGlobal ? "ค่าเริ่มต้น" : "ค่าส่วนกลาง"}
+                      onChange={(value) => handleChange(field, value)}
+                      onReset={() => handleReset(field)}
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+
+            {/* Actions */}
+            <div className="flex flex-wrap gap-2 sticky bottom-4">
+              <Button
+                onClick={() => void handleSave()}
+                disabled={!isDirty || isSaving || !validation.success}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isSaving ? "กำลังบันทึก..." : "💾 บันทึก"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleDiscard}
+                disabled={!isDirty}
+                className="border-slate-600 text-slate-300"
+              >
+                ยกเลิกการแก้ไข
+              </Button>
+              {!isGlobal && (
+                <Button
+                  variant="outline"
+                  onClick={() => void handleDeleteKiosk()}
+                  className="border-red-500/50 text-red-400"
+                >
+                  🗑️ ลบค่าเฉพาะ Kiosk นี้
+                </Button>
+              )}
+              {record?.updatedAt && (
+                <Badge className="bg-slate-700 text-slate-300 self-center">
+                  บันทึกล่าสุด {new Date(record.updatedAt).toLocaleString("th-TH")}
+                </Badge>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// One setting with its inherited value and a reset to it
+const SettingRow = ({
+  field,
+  value,
+  baseValue,
+  isOverridden,
+  isInvalid,
+  baseLabel,
+  onChange,
+  onReset,
+}: {
+  field: SettingField;
+  value: unknown;
+  baseValue: unknown;
+  isOverridden: boolean;
+  isInvalid: boolean;
+  baseLabel: string;
+  onChange: (value: unknown) => void;
+  onReset: () => void;
+}) => {
+  const scale = field.scale ?? 1;
+  const format = (v: unknown) =>
+    typeof v === "boolean" ? (v ? "เปิด" : "ปิด")
+    : typeof v === "number" ? `${v / scale}${field.unit ? ` ${field.unit}` : ""}`
+    : field.options?.[String(v)] ?? String(v);
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center justify-between gap-3 rounded-lg p-3",
+        isOverridden ? "bg-blue-500/10 border border-blue-500/30" : "bg-slate-900/40"
+      )}
+    >
+      <div className="min-w-0">
+        <Label className="text-slate-200">{field.label}</Label>
+        <p className="text-xs text-slate-500">
+          {baseLabel}: {format(baseValue)}
+          {field.hint && ` · ${field.hint}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        {typeof value === "boolean" ? (
+          <Button
+            size="sm"
+            variant={value ? "default" : "outline"}
+            onClick={() => onChange(!value)}
+            className={cn(!value && "border-slate-600 text-slate-300")}
+          >
+            {value ? "เปิด" : "ปิด"}
+          </Button>
+        ) : field.options ? (
+          Object.entries(field.options).map(([option, label]) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={value === option ? "default" : "outline"}
+              onClick={() => onChange(option)}
+              className={cn(value !== option && "border-slate-600 text-slate-300")}
+            >
+              {label}
+            </Button>
+          ))
+        ) : (
+          <>
+            <Input
+              type="number"
+              step={field.step}
+              value={Number.isNaN(value) ? "" : Number(value) / scale}
+              onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value) * scale)}
+              className={cn(
+                "w-28 bg-slate-900 border-slate-600 text-white",
+                isInvalid && "border-red-500"
+              )}
+            />
+            {field.unit && <span className="text-xs text-slate-400">{field.unit}</span>}
+          </>
+        )}
+        {isOverridden && (
+          <Button size="sm" variant="ghost" onClick={onReset} className="text-slate-400">
+            ↺
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, handleRouteError, jsonError, parseJsonBody } from "@/shared/lib/api-response";
+import { runAbsenceDetection } from "@/shared/services/absence-job";
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "ต้องเป็นวันที่ YYYY-MM-DD");
+
+const listQuerySchema = z.object({ date: dateKey });
+
+const runBodySchema = z.object({
+  date: dateKey.optional(),
+  cutoff: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "ต้องเป็นเวลา HH:MM").optional(),
+});
+
+// Stored absences for a day - ?date=YYYY-MM-DD
+export async function GET(request: Request) {
+  const { repository, response } = await authorizeRequest(request, ["admin", "hr"]);
+  if (response) return response;
+
+  const { searchParams } = new URL(request.url);
+  const query = listQuerySchema.safeParse({ date: searchParams.get("date") ?? undefined });
+  if (!query.success) return jsonError(400, "date ต้องเป็นวันที่ YYYY-MM-DD");
+
+  try {
+    const absences = await repository.listAbsences(query.data.date);
+    return NextResponse.json({ absences });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Run detection - meant for a daily cron after the cutoff, re-running a day replaces its records
+export async function POST(request: Request) {
+  const { repository, response: authResponse } = await authorizeRequest(request, ["admin"]);
+  if (authResponse) return authResponse;
+  const { data, response } = await parseJsonBody(request, runBodySchema);
+  if (response) return response;
+
+  try {
+    const result = await runAbsenceDetection(repository, data);
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest, handleRouteError, jsonError, parseJsonBody } from "@/shared/lib/api-response";
+import { embeddingsSchema } from "@/shared/repositories/employee-repository";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Replaces the employee's enrolled face embeddings
+export async function PUT(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { repository, response: authResponse } = await authorizeRequest(request, ["admin"]);
+  if (authResponse) return authResponse;
+  const { data, response } = await parseJsonBody(request, embeddingsSchema);
+  if (response) return response;
+
+  try {
+    if (!(await repository.getEmployee(id))) return jsonError(404, "ไม่พบพนักงาน");
+    await repository.upsertEmbeddings(id, data);
+    return NextResponse.json({ employeeId: id, embeddingCount: data.entries.length });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { repository, response } = await authorizeRequest(request, ["admin"]);
+  if (response) return response;
+
+  try {
+    if (!(await repository.getEmployee(id))) return jsonError(404, "ไม่พบพนักงาน");
+    await repository.clearEmbeddings(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
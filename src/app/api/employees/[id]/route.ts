@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { authorizeRequest, handleRouteError, jsonError, parseJsonBody } from "@/shared/lib/api-response";
+import { updateEmployeeInputSchema } from "@/shared/repositories/employee-repository";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { repository, response } = await authorizeRequest(request, ["admin", "hr"]);
+  if (response) return response;
+
+  try {
+    const employee = await repository.getEmployee(id);
+    if (!employee) return jsonError(404, "ไม่พบพนักงาน");
+    return NextResponse.json({ employee });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { repository, response: authResponse } = await authorizeRequest(request, ["admin"]);
+  if (authResponse) return authResponse;
+  const { data, response } = await parseJsonBody(request, updateEmployeeInputSchema);
+  if (response) return response;
+
+  try {
+    if (!(await repository.getEmployee(id))) return jsonError(404, "ไม่พบพนักงาน");
+    const employee = await repository.updateEmployee(id, data);
+    return NextResponse.json({ employee });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params;
+  const { repository, response } = await authorizeRequest(request, ["admin"]);
+  if (response) return response;
+
+  try {
+    if (!(await repository.getEmployee(id))) return jsonError(404, "ไม่พบพนักงาน");
+    await repository.deleteEmployee(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
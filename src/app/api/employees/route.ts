@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import type { Employee } from "@/entities/employee";
+import { authorizeRequest, handleRouteError, parseJsonBody } from "@/shared/lib/api-response";
+import { createEmployeeInputSchema } from "@/shared/repositories/employee-repository";
+
+// Face vectors and enrollment images are only returned by GET /api/employees/:id
+const toEmployeeSummary = ({ embedding, embeddings, ...employee }: Employee) => ({
+  ...employee,
+  embeddingCount: embeddings?.entries.length ?? (embedding ? 1 : 0),
+});
+
+export async function GET(request: Request) {
+  const { repository, role, response } = await authorizeRequest(request, ["admin", "hr", "kiosk"]);
+  if (response) return response;
+
+  try {
+    // Kiosks may only read the roster view - it has no face data to count
+    if (role === "kiosk") {
+      const employees = await repository.listEmployees({ includeEmbeddings: false });
+      return NextResponse.json({ employees });
+    }
+    const employees = await repository.listEmployees();
+    return NextResponse.json({ employees: employees.map(toEmployeeSummary) });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+export async function POST(request: Request) {
+  const { repository, response: authResponse } = await authorizeRequest(request, ["admin"]);
+  if (authResponse) return authResponse;
+  const { data, response } = await parseJsonBody(request, createEmployeeInputSchema);
+  if (response) return response;
+
+  try {
+    const employee = await repository.addEmployee(data);
+    return NextResponse.json({ employee }, { status: 201 });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
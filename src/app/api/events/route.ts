@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, handleRouteError, jsonError, parseJsonBody } from "@/shared/lib/api-response";
+import { checkInEventPayloadSchema, isUnknownEmployeeRejection } from "@/shared/repositories/employee-repository";
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export async function GET(request: Request) {
+  const { repository, response } = await authorizeRequest(request, ["admin", "hr"]);
+  if (response) return response;
+
+  const { searchParams } = new URL(request.url);
+  const query = listQuerySchema.safeParse({ limit: searchParams.get("limit") ?? undefined });
+  if (!query.success) return jsonError(400, "limit ต้องเป็นตัวเลข 1-500");
+
+  try {
+    const events = await repository.listCheckInEvents(query.data.limit);
+    return NextResponse.json({ events });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
+
+// Kiosk devices post events with their own device credential
+export async function POST(request: Request) {
+  const { repository, response: authResponse } = await authorizeRequest(request, ["admin", "kiosk"]);
+  if (authResponse) return authResponse;
+  const { data, response } = await parseJsonBody(request, checkInEventPayloadSchema);
+  if (response) return response;
+
+  try {
+    await repository.recordCheckIn(data);
+    return NextResponse.json({ recorded: true }, { status: 201 });
+  } catch (err) {
+    // The employee_id foreign key checks the employee - no roster read per event
+    if (isUnknownEmployeeRejection(err)) return jsonError(404, "ไม่พบพนักงาน");
+    return handleRouteError(err);
+  }
+}
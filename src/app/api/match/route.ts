@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, handleRouteError, parseJsonBody } from "@/shared/lib/api-response";
+import { embeddingsSchema } from "@/shared/repositories/employee-repository";
+
+const matchRequestSchema = z.object({
+  descriptor: z.array(z.number()).min(1).max(1024),
+  version: embeddingsSchema.shape.version.default("faceapi-v1"),
+});
+
+// 1:N match of one face descriptor - the threshold and gap decision stays with the caller
+export async function POST(request: Request) {
+  const { repository, response: authResponse } = await authorizeRequest(request, ["admin", "kiosk"]);
+  if (authResponse) return authResponse;
+  const { data, response } = await parseJsonBody(request, matchRequestSchema);
+  if (response) return response;
+
+  try {
+    const [bestMatch = null, runnerUp = null] = await repository.matchFaceDescriptor(data.descriptor, data.version, 2);
+    return NextResponse.json({ bestMatch, runnerUp });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, handleRouteError, jsonError } from "@/shared/lib/api-response";
+import {
+  TIMESHEET_MIME_TYPES,
+  buildTimesheet,
+  timesheetFileName,
+  timesheetQueryWindow,
+  timesheetToCsv,
+  timesheetToJson,
+  timesheetToXlsx,
+} from "@/shared/lib/timesheet";
+
+const MAX_RANGE_DAYS = 366;
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "ต้องเป็นวันที่ YYYY-MM-DD");
+
+const timesheetQuerySchema = z
+  .object({
+    from: dateKey,
+    to: dateKey,
+    department: z.string().trim().min(1).optional(),
+    format: z.enum(["csv", "xlsx", "json"]).default("json"),
+  })
+  .refine(({ from, to }) => from <= to, { message: "from ต้องไม่เกิน to", path: ["to"] })
+  .refine(
+    ({ from, to }) => (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) < MAX_RANGE_DAYS,
+    { message: `ช่วงวันที่ต้องไม่เกิน ${MAX_RANGE_DAYS} วัน`, path: ["to"] }
+  );
+
+// Daily timesheets per employee for payroll - ?from=YYYY-MM-DD&to=YYYY-MM-DD&department=&format=csv|xlsx|json
+export async function GET(request: Request) {
+  const { repository, response } = await authorizeRequest(request, ["admin", "hr"]);
+  if (response) return response;
+
+  const { searchParams } = new URL(request.url);
+  const query = timesheetQuerySchema.safeParse({
+    from: searchParams.get("from") ?? undefined,
+    to: searchParams.get("to") ?? undefined,
+    department: searchParams.get("department") ?? undefined,
+    format: searchParams.get("format") ?? undefined,
+  });
+  if (!query.success) {
+    return jsonError(
+      400,
+      "พารามิเตอร์ไม่ถูกต้อง",
+      query.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    );
+  }
+
+  const { format, ...filter } = query.data;
+  try {
+    const window = timesheetQueryWindow(filter);
+    const [events, employees] = await Promise.all([
+      repository.listCheckInEventsBetween(window.from, window.to),
+      repository.listEmployees({ includeEmbeddings: false }),
+    ]);
+    const rows = buildTimesheet(events, employees, filter);
+
+    if (format === "json") return NextResponse.json(timesheetToJson(rows, filter));
+
+    const body = format === "csv" ? timesheetToCsv(rows) : timesheetToXlsx(rows);
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        "Content-Type": TIMESHEET_MIME_TYPES[format],
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(timesheetFileName(filter, format))}`,
+      },
+    });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { TIMESHEET_JSON_SCHEMA } from "@/shared/lib/timesheet";
+
+// JSON Schema of GET /api/timesheets?format=json - public, it holds no data
+export function GET() {
+  return NextResponse.json(TIMESHEET_JSON_SCHEMA);
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/components/ui/sonner";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type { Employee, FaceCheckEvent } from "@/entities/employee";
+import {
+  analyticsQueryWindow,
+  buildAttendanceAnalytics,
+  lastDaysRange,
+  type AnalyticsRange,
+} from "@/shared/lib/attendance-analytics";
+import { APP_TIME_ZONE } from "@/shared/lib/datetime";
+import { cn } from "@/lib/utils";
+
+const RANGE_OPTIONS = [7, 14, 30] as const;
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString("th-TH", { day: "numeric", month: "short", timeZone: APP_TIME_ZONE });
+
+const formatPercent = (value: number | null) => (value === null ? "–" : `${Math.round(value * 100)}%`);
+
+export default function DashboardPage() {
+  const repository = useMemo(() => createEmployeeRepository(), []);
+  const [days, setDays] = useState<(typeof RANGE_OPTIONS)[number]>(14);
+  const range = useMemo<AnalyticsRange>(() => lastDaysRange(days), [days]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [events, setEvents] = useState<FaceCheckEvent[]>([]);
+  // Range the shown events were loaded for - switching ranges shows the spinner
+  const [loadedRange, setLoadedRange] = useState<AnalyticsRange | null>(null);
+  const isLoading = loadedRange?.from !== range.from || loadedRange?.to !== range.to;
+
+  useEffect(() => {
+    // Roster only - enrolledAt carries the enrollment date without the face galleries
+    repository
+      .listEmployees({ includeEmbeddings: false })
+      .then(setEmployees)
+      .catch((err) => {
+        console.error("Failed to load employees:", err);
+        toast.error("ไม่สามารถโหลดรายชื่อพนักงานได้");
+      });
+  }, [repository]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const window = analyticsQueryWindow(range);
+    repository
+      .listCheckInEventsBetween(window.from, window.to)
+      .then((data) => {
+        if (!cancelled) setEvents(data);
+      })
+      .catch((err) => {
+        console.error("Failed to load check-in events:", err);
+        if (!cancelled) toast.error("ไม่สามารถโหลดข้อมูลการเช็คอินได้");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedRange(range);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, range]);
+
+  const analytics = useMemo(() => buildAttendanceAnalytics(events, employees, range), [events, employees, range]);
+
+  // Only the hours anyone arrived in, so the histogram isn't mostly empty night hours
+  const arrivalHours = useMemo(() => {
+    const active = analytics.arrivals.filter((bucket) => bucket.count > 0);
+    if (active.length === 0) return [];
+    return analytics.arrivals.slice(active[0].hour, active[active.length - 1].hour + 1);
+  }, [analytics.arrivals]);
+
+  const maxHeadcount = Math.max(1, ...analytics.headcount.map((day) => Math.max(day.present, day.enrolled)));
+  const maxArrivals = Math.max(1, ...arrivalHours.map((bucket) => bucket.count));
+  const maxKioskScans = Math.max(1, ...analytics.kiosks.map((kiosk) => kiosk.scans));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-slate-900/80 backdrop-blur-lg border-b border-slate-700">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-white">แดชบอร์ดการเข้างาน</h1>
+            <p className="text-sm text-slate-400">
+              {formatDay(range.from)} – {formatDay(range.to)}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/history">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ← กลับ
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        {/* Range selector */}
+        <div className="flex gap-2">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                option === days ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:bg-slate-700"
+              )}
+            >
+              {option} วัน
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-slate-400">กำลังโหลดข้อมูล...</p>
+          </div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-3 gap-4">
+              <StatCard value={analytics.totals.scans.toLocaleString("th-TH")} label="การสแกนทั้งหมด" />
+              <StatCard value={analytics.totals.employees.toLocaleString("th-TH")} label="พนักงานที่มาทำงาน" />
+              <StatCard value={formatPercent(analytics.totals.lateRate)} label="อัตรามาสาย" />
+            </div>
+
+            {/* Daily headcount vs enrolled */}
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-white text-base">จำนวนคนมาทำงานรายวัน</CardTitle>
+                <CardDescription>แท่งสีน้ำเงินคือผู้ที่สแกน แท่งสีเทาคือผู้ที่ลงทะเบียนใบหน้าแล้ว ณ วันนั้น</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-1 h-40">
+                  {analytics.headcount.map((day) => (
+                    <div
+                      key={day.date}
+                      className="relative flex-1 h-full flex items-end"
+                      title={`${formatDay(day.date)}: ${day.present}/${day.enrolled} คน`}
+                    >
+                      <div
+                        className="absolute bottom-0 inset-x-0 rounded-t bg-slate-700/60"
+                        style={{ height: `${(day.enrolled / maxHeadcount) * 100}%` }}
+                      />
+                      <div
+                        className="relative w-full rounded-t bg-blue-500"
+                        style={{ height: `${(day.present / maxHeadcount) * 100}%` }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-slate-500 mt-2">
+                  <span>{formatDay(range.from)}</span>
+                  <span>{formatDay(range.to)}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              {/* Arrival-time distribution */}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">ช่วงเวลาที่มาถึง</CardTitle>
+                  <CardDescription>เช็คอินแรกของแต่ละคนในแต่ละวัน</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {arrivalHours.length === 0 ? (
+                    <EmptyChart />
+                  ) : (
+                    arrivalHours.map((bucket) => (
+                      <BarRow
+                        key={bucket.hour}
+                        label={`${bucket.hour.toString().padStart(2, "0")}:00`}
+                        value={bucket.count}
+                        max={maxArrivals}
+                        caption={`${bucket.count}`}
+                      />
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Lateness by department */}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">การมาสายตามแผนก</CardTitle>
+                  <CardDescription>เทียบกับตารางงาน - ไม่นับวันที่ไม่มีกะ</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {analytics.lateness.length === 0 ? (
+                    <EmptyChart />
+                  ) : (
+                    analytics.lateness.map((entry) => (
+                      <div key={entry.department ?? ""} className="space-y-1">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-slate-300">{entry.department ?? "ไม่ระบุแผนก"}</span>
+                          <span className="text-slate-400">
+                            สาย {entry.late}/{entry.arrivals}
+                            {entry.late > 0 && ` · เฉลี่ย ${Math.round(entry.averageLateMinutes)} นาที`}
+                          </span>
+                        </div>
+                        <Progress value={(entry.late / entry.arrivals) * 100} className="h-1.5" />
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Average similarity over time */}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">ความแม่นยำเฉลี่ยรายวัน</CardTitle>
+                  <CardDescription>ค่าที่ลดลงต่อเนื่องอาจหมายถึงแสงหรือกล้องเปลี่ยน ควรลงทะเบียนใบหน้าใหม่</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {analytics.totals.scans === 0 ? (
+                    <EmptyChart />
+                  ) : (
+                    analytics.similarity
+                      .filter((day) => day.average !== null)
+                      .map((day) => (
+                        <BarRow
+                          key={day.date}
+                          label={formatDay(day.date)}
+                          value={day.average ?? 0}
+                          max={1}
+                          caption={`${formatPercent(day.average)} (${day.scans})`}
+                        />
+                      ))
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Per-kiosk volume */}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">จำนวนสแกนต่อ Kiosk</CardTitle>
+                  <CardDescription>ตามพารามิเตอร์ ?kiosk= ของแต่ละเครื่อง</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {analytics.kiosks.length === 0 ? (
+                    <EmptyChart />
+                  ) : (
+                    analytics.kiosks.map((kiosk) => (
+                      <BarRow
+                        key={kiosk.kioskId ?? ""}
+                        label={kiosk.kioskId ?? "ไม่ระบุ"}
+                        value={kiosk.scans}
+                        max={maxKioskScans}
+                        caption={kiosk.scans.toLocaleString("th-TH")}
+                      />
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+const StatCard = ({ value, label }: { value: string; label: string }) => (
+  <Card className="bg-slate-800/50 border-slate-700">
+    <CardContent className="py-4 text-center">
+      <p className="text-3xl font-bold text-white">{value}</p>
+      <p className="text-sm text-slate-400">{label}</p>
+    </CardContent>
+  </Card>
+);
+
+// Labelled horizontal bar
+const BarRow = ({ label, value, max, caption }: { label: string; value: number; max: number; caption: string }) => (
+  <div className="flex items-center gap-3 text-sm">
+    <span className="w-16 flex-shrink-0 truncate text-slate-400">{label}</span>
+    <div className="flex-1 h-3 rounded bg-slate-900/60 overflow-hidden">
+      <div className="h-full rounded bg-blue-500" style={{ width: `${(value / max) * 100}%` }} />
+    </div>
+    <span className="w-20 flex-shrink-0 text-right text-slate-300">{caption}</span>
+  </div>
+);
+
+const EmptyChart = () => <p className="text-center text-slate-500 py-6">ไม่มีข้อมูลในช่วงนี้</p>;
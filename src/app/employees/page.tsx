@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useState, useMemo } from "react";
 import Link from "next/link";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -8,9 +8,25 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
-import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
-import type { Employee, FaceAngle, FaceEmbeddingEntry, FaceCheckEvent } from "@/entities/employee";
-import { PROGRESSIVE_LEARNING_CONFIG } from "@/entities/employee";
+import { toast } from "@/components/ui/sonner";
+import {
+  createEmployeeRepository,
+  type CheckInEventPage,
+} from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type {
+  AttendanceSession,
+  EmbeddingAuditAction,
+  EmbeddingAuditEntry,
+  Employee,
+  FaceAngle,
+  FaceCheckEvent,
+} from "@/entities/employee";
+import type { RecognitionSettings } from "@/entities/settings";
+import { pairAttendanceSessions } from "@/shared/lib/attendance";
+import { getAngleCoverage } from "@/shared/lib/embedding-gallery";
+import { APP_TIME_ZONE, formatDuration, toDateKey, zonedDateTime } from "@/shared/lib/datetime";
+import { useRecognitionSettings } from "@/shared/hooks/use-recognition-settings";
 import { cn } from "@/lib/utils";
 
 // Angle display labels
@@ -32,41 +48,57 @@ const getQualityTier = (quality: number | undefined): { label: string; color: st
   return { label: "ต้องปรับปรุง", color: "bg-orange-500/20 text-orange-400" };
 };
 
+const EVENTS_PAGE_SIZE = 20;
+
+// Scans loaded so far for one employee
+type EmployeeEvents = CheckInEventPage & { isLoading: boolean };
+
+const AUDIT_ACTION_LABELS: Record<EmbeddingAuditAction, string> = {
+  added: "เพิ่มภาพใหม่",
+  replaced: "แทนที่ภาพเดิม",
+  skipped: "ไม่เปลี่ยนแปลง",
+};
+
+const formatClock = (isoDate: string) =>
+  new Date(isoDate).toLocaleTimeString("th-TH", { hour: "2-digit", minute: "2-digit", timeZone: APP_TIME_ZONE });
+
 // Employee detail card
 const EmployeeDetailCard = ({ 
   employee, 
   isExpanded, 
   onToggle,
   checkInEvents = [],
+  sessions = [],
+  learningLog = [],
+  learning,
+  hasMoreEvents = false,
+  isLoadingEvents = false,
+  onLoadMoreEvents,
 }: { 
   employee: Employee; 
+  learning: RecognitionSettings["learning"];
   isExpanded: boolean;
   onToggle: () => void;
   checkInEvents?: FaceCheckEvent[];
+  sessions?: AttendanceSession[];
+  learningLog?: EmbeddingAuditEntry[];
+  hasMoreEvents?: boolean;
+  isLoadingEvents?: boolean;
+  onLoadMoreEvents?: () => void;
 }) => {
   const embeddings = employee.embeddings;
   const entries = embeddings?.entries ?? [];
   const hasLegacyEmbedding = Boolean(employee.embedding?.vector?.length);
   const isEnrolled = entries.length > 0 || hasLegacyEmbedding;
   const embeddingCount = entries.length || (hasLegacyEmbedding ? 1 : 0);
-  const progress = (embeddingCount / PROGRESSIVE_LEARNING_CONFIG.MAX_EMBEDDINGS) * 100;
-
-  // Group entries by angle
-  const entriesByAngle = useMemo(() => {
-    const grouped: Record<FaceAngle, FaceEmbeddingEntry[]> = {
-      front: [],
-      "slight-left": [],
-      "slight-right": [],
-      left: [],
-      right: [],
-    };
-    for (const entry of entries) {
-      if (entry.angle in grouped) {
-        grouped[entry.angle].push(entry);
-      }
-    }
-    return grouped;
-  }, [entries]);
+  const progress = (embeddingCount / learning.maxEmbeddings) * 100;
+
+  // Per-angle coverage against the minimum the diversity strategy keeps
+  const angleCoverage = useMemo(
+    () => getAngleCoverage(entries, learning.minEntriesPerAngle),
+    [entries, learning.minEntriesPerAngle]
+  );
+  const coveredAngles = angleCoverage.filter((c) => c.isCovered).length;
 
   // Average quality
   const avgQuality = useMemo(() => {
@@ -136,7 +168,7 @@ const EmployeeDetailCard = ({
                 <div className="flex items-center gap-2">
                   <span className="text-xs text-slate-400">ภาพใบหน้า</span>
                   <Badge className="bg-slate-700 text-slate-300 text-xs">
-                    {embeddingCount}/{PROGRESSIVE_LEARNING_CONFIG.MAX_EMBEDDINGS}
+                    {embeddingCount}/{learning.maxEmbeddings}
                   </Badge>
                 </div>
                 {avgQuality !== undefined && (
@@ -185,7 +217,7 @@ const EmployeeDetailCard = ({
             </div>
             <div className="bg-slate-900/50 rounded-lg p-3 text-center">
               <p className="text-2xl font-bold text-white">
-                {Object.values(entriesByAngle).filter(arr => arr.length > 0).length}
+                {angleCoverage.filter((c) => c.count > 0).length}
               </p>
               <p className="text-xs text-slate-400">มุมที่บันทึก</p>
             </div>
@@ -211,6 +243,51 @@ const EmployeeDetailCard = ({
             </div>
           </div>
 
+          {/* Recent attendance sessions */}
+          {isLoadingEvents && sessions.length === 0 && (
+            <p className="text-sm text-slate-500">กำลังโหลดการเข้างาน...</p>
+          )}
+          {sessions.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-slate-300">🕘 การเข้างานล่าสุด</h4>
+              <div className="max-h-64 overflow-y-auto space-y-2 pr-2">
+                {sessions.map((session) => (
+                  <div
+                    key={session.id}
+                    className="flex items-center gap-3 bg-slate-900/30 rounded-lg p-2 text-sm"
+                  >
+                    <span className="text-slate-400 w-20 flex-shrink-0">
+                      {new Date(session.date).toLocaleDateString("th-TH", {
+                        day: "numeric",
+                        month: "short",
+                        timeZone: APP_TIME_ZONE,
+                      })}
+                    </span>
+                    <span className="flex-1 text-slate-300 truncate">
+                      {session.checkIn ? formatClock(session.checkIn.capturedAt) : "–"}
+                      {" → "}
+                      {session.checkOut ? formatClock(session.checkOut.capturedAt) : "ยังไม่ออก"}
+                    </span>
+                    <Badge className="bg-slate-700 text-slate-300 text-xs">
+                      {formatDuration(session.workedMs)}
+                    </Badge>
+                  </div>
+                ))}
+                {hasMoreEvents && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onLoadMoreEvents}
+                    disabled={isLoadingEvents}
+                    className="w-full text-slate-400"
+                  >
+                    {isLoadingEvents ? "กำลังโหลด..." : "โหลดเพิ่ม"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Face embedding progress */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -305,48 +382,54 @@ const EmployeeDetailCard = ({
           {/* Angle breakdown */}
           {entries.length > 0 && (
             <div className="space-y-3">
-              <h4 className="text-sm font-medium text-slate-300">มุมใบหน้าที่บันทึก</h4>
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium text-slate-300">มุมใบหน้าที่บันทึก</h4>
+                <span className={cn(
+                  "text-xs",
+                  coveredAngles === angleCoverage.length ? "text-green-400" : "text-amber-400"
+                )}>
+                  ครบ {coveredAngles}/{angleCoverage.length} มุม (ขั้นต่ำ {learning.minEntriesPerAngle} ภาพ/มุม)
+                </span>
+              </div>
               <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
-                {(Object.entries(ANGLE_LABELS) as [FaceAngle, { label: string; icon: string }][]).map(
-                  ([angle, { label, icon }]) => {
-                    const angleEntries = entriesByAngle[angle];
-                    const hasAngle = angleEntries.length > 0;
-                    const bestQuality = angleEntries.length > 0
-                      ? Math.max(...angleEntries.map(e => e.quality ?? 0))
-                      : 0;
-
-                    return (
-                      <div
-                        key={angle}
-                        className={cn(
-                          "rounded-lg p-3 text-center transition-all",
-                          hasAngle 
-                            ? "bg-green-500/10 border border-green-500/30" 
-                            : "bg-slate-900/30 border border-slate-700/50"
-                        )}
-                      >
-                        <span className="text-xl">{icon}</span>
-                        <p className={cn(
-                          "text-xs mt-1 font-medium",
-                          hasAngle ? "text-green-400" : "text-slate-500"
+                {angleCoverage.map(({ angle, count, target, bestQuality, isCovered }) => {
+                  const { label, icon } = ANGLE_LABELS[angle];
+                  const hasAngle = count > 0;
+
+                  return (
+                    <div
+                      key={angle}
+                      className={cn(
+                        "rounded-lg p-3 text-center transition-all border",
+                        isCovered
+                          ? "bg-green-500/10 border-green-500/30"
+                          : hasAngle
+                            ? "bg-amber-500/10 border-amber-500/30"
+                            : "bg-slate-900/30 border-slate-700/50"
+                      )}
+                    >
+                      <span className="text-xl">{icon}</span>
+                      <p className={cn(
+                        "text-xs mt-1 font-medium",
+                        isCovered ? "text-green-400" : hasAngle ? "text-amber-400" : "text-slate-500"
+                      )}>
+                        {label}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-0.5">
+                        {hasAngle ? `${count}/${target} ภาพ` : "ยังไม่มี"}
+                      </p>
+                      <Progress value={Math.min(100, (count / target) * 100)} className="h-1 mt-1.5" />
+                      {bestQuality !== undefined && bestQuality > 0 && (
+                        <Badge className={cn(
+                          "text-[10px] mt-1",
+                          getQualityTier(bestQuality).color
                         )}>
-                          {label}
-                        </p>
-                        <p className="text-xs text-slate-500 mt-0.5">
-                          {hasAngle ? `${angleEntries.length} ภาพ` : "ยังไม่มี"}
-                        </p>
-                        {hasAngle && bestQuality > 0 && (
-                          <Badge className={cn(
-                            "text-[10px] mt-1",
-                            getQualityTier(bestQuality).color
-                          )}>
-                            {Math.round(bestQuality * 100)}%
-                          </Badge>
-                        )}
-                      </div>
-                    );
-                  }
-                )}
+                          {Math.round(bestQuality * 100)}%
+                        </Badge>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
@@ -371,6 +454,9 @@ const EmployeeDetailCard = ({
                       <div className="flex-1 min-w-0">
                         <p className="text-slate-300 truncate">
                           {ANGLE_LABELS[entry.angle]?.label ?? entry.angle}
+                          {entry.source === "learned" && (
+                            <span className="ml-2 text-xs text-blue-400">🧠 เรียนรู้จากการเช็คอิน</span>
+                          )}
                         </p>
                         <p className="text-xs text-slate-500">
                           {new Date(entry.createdAt).toLocaleString("th-TH", {
@@ -392,6 +478,38 @@ const EmployeeDetailCard = ({
             </div>
           )}
 
+          {/* Progressive learning audit trail */}
+          {learningLog.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-slate-300">🧠 การเรียนรู้จากการเช็คอิน</h4>
+              <div className="max-h-40 overflow-y-auto space-y-2 pr-2">
+                {learningLog.slice(0, 20).map((log) => (
+                  <div
+                    key={log.id}
+                    className="flex items-center gap-3 bg-slate-900/30 rounded-lg p-2 text-sm"
+                  >
+                    <span className="text-slate-400 w-28 flex-shrink-0">
+                      {new Date(log.createdAt).toLocaleString("th-TH", {
+                        day: "numeric",
+                        month: "short",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                    <span className="flex-1 text-slate-300 truncate">
+                      {AUDIT_ACTION_LABELS[log.action]} · {ANGLE_LABELS[log.angle]?.label ?? log.angle}
+                    </span>
+                    {log.similarity !== undefined && (
+                      <Badge className="bg-slate-700 text-slate-300 text-xs">
+                        {Math.round(log.similarity * 100)}%
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Legacy embedding info */}
           {hasLegacyEmbedding && !entries.length && (
             <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3">
@@ -439,24 +557,39 @@ const EmployeeDetailCard = ({
 
 export default function EmployeesPage() {
   const repository = useMemo(() => createEmployeeRepository(), []);
+  const { settings } = useRecognitionSettings(repository);
   const [employees, setEmployees] = useState<Employee[]>([]);
-  const [checkInEvents, setCheckInEvents] = useState<FaceCheckEvent[]>([]);
+  const [eventsByEmployee, setEventsByEmployee] = useState<Record<string, EmployeeEvents>>({});
+  const [learningLog, setLearningLog] = useState<EmbeddingAuditEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [filterStatus, setFilterStatus] = useState<"all" | "enrolled" | "not-enrolled">("all");
+  const [filterStatus, setFilterStatus] = useState<"all" | "enrolled" | "not-enrolled" | "absent">("all");
+  // Employees the latest absence run marked absent today who still have no scan
+  const [absentIds, setAbsentIds] = useState<Set<string>>(new Set());
+
+  // Anyone who has checked in since the last run is no longer absent (same rule as /history)
+  const loadAbsentToday = useCallback(async () => {
+    const today = toDateKey(new Date());
+    const [absences, events] = await Promise.all([
+      repository.listAbsences(today),
+      repository.listCheckInEventsSince(zonedDateTime(today).toISOString()),
+    ]);
+    const present = new Set(events.filter((event) => event.isMatch).map((event) => event.employeeId));
+    setAbsentIds(new Set(absences.map((absence) => absence.employeeId).filter((id) => !present.has(id))));
+  }, [repository]);
 
-  // Load employees and check-in events
+  // Load employees - check-in events are loaded per employee when a card opens
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const [employeesData, eventsData] = await Promise.all([
+        const [employeesData, auditData] = await Promise.all([
           repository.listEmployees(),
-          repository.listCheckInEvents(200), // Get more events to have snapshots
+          repository.listEmbeddingAudit(200),
         ]);
         setEmployees(employeesData);
-        setCheckInEvents(eventsData);
+        setLearningLog(auditData);
       } catch (err) {
         console.error("Failed to load data:", err);
       } finally {
@@ -465,31 +598,83 @@ export default function EmployeesPage() {
     };
     void loadData();
 
+    // Separate from the roster - the list still loads if this fails
+    const refreshAbsences = () => {
+      loadAbsentToday().catch((err) => console.error("Failed to load absences:", err));
+    };
+    refreshAbsences();
+
     // Subscribe to real-time updates
     const unsubEmployees = repository.subscribe((newEmployees) => {
       setEmployees(newEmployees);
     });
-    const unsubEvents = repository.subscribeToCheckIns((newEvents) => {
-      setCheckInEvents(newEvents);
+    // A new scan invalidates the loaded pages - the open card reloads below - and may end an absence
+    const unsubEvents = repository.subscribeToCheckIns(() => {
+      setEventsByEmployee({});
+      refreshAbsences();
     });
 
     return () => {
       unsubEmployees();
       unsubEvents();
     };
+  }, [repository, loadAbsentToday]);
+
+  // One page of an employee's matched scans, appended to what is already loaded
+  const loadEmployeeEvents = useCallback(async (employeeId: string, cursor?: string) => {
+    const setIsLoadingEvents = (isLoading: boolean) =>
+      setEventsByEmployee((prev) => ({
+        ...prev,
+        [employeeId]: { ...(prev[employeeId] ?? { events: [], nextCursor: null }), isLoading },
+      }));
+
+    setIsLoadingEvents(true);
+    try {
+      const page = await repository.queryCheckInEvents({
+        employeeIds: [employeeId],
+        matchStatus: "matched",
+        limit: EVENTS_PAGE_SIZE,
+        cursor,
+      });
+      setEventsByEmployee((prev) => ({
+        ...prev,
+        [employeeId]: {
+          events: cursor ? [...(prev[employeeId]?.events ?? []), ...page.events] : page.events,
+          nextCursor: page.nextCursor,
+          isLoading: false,
+        },
+      }));
+    } catch (err) {
+      console.error("Failed to load check-in events:", err);
+      toast.error("ไม่สามารถโหลดประวัติการเช็คอินได้");
+      setIsLoadingEvents(false);
+    }
   }, [repository]);
 
-  // Group check-in events by employee
-  const eventsByEmployee = useMemo(() => {
-    const grouped: Record<string, FaceCheckEvent[]> = {};
-    for (const event of checkInEvents) {
-      if (!grouped[event.employeeId]) {
-        grouped[event.employeeId] = [];
+  // First page for the open card, again after a new scan cleared the cache
+  useEffect(() => {
+    if (expandedId && !eventsByEmployee[expandedId]) void loadEmployeeEvents(expandedId);
+  }, [expandedId, eventsByEmployee, loadEmployeeEvents]);
+
+  const learningLogByEmployee = useMemo(() => {
+    const grouped: Record<string, EmbeddingAuditEntry[]> = {};
+    for (const log of learningLog) {
+      if (!grouped[log.employeeId]) {
+        grouped[log.employeeId] = [];
       }
-      grouped[event.employeeId].push(event);
+      grouped[log.employeeId].push(log);
     }
     return grouped;
-  }, [checkInEvents]);
+  }, [learningLog]);
+
+  // Pair scans into sessions, grouped by employee
+  const sessionsByEmployee = useMemo(() => {
+    const grouped: Record<string, AttendanceSession[]> = {};
+    for (const [employeeId, { events }] of Object.entries(eventsByEmployee)) {
+      grouped[employeeId] = pairAttendanceSessions(events);
+    }
+    return grouped;
+  }, [eventsByEmployee]);
 
   // Filter and search
   const filteredEmployees = useMemo(() => {
@@ -506,10 +691,11 @@ export default function EmployeesPage() {
       
       if (filterStatus === "enrolled" && !isEnrolled) return false;
       if (filterStatus === "not-enrolled" && isEnrolled) return false;
+      if (filterStatus === "absent" && !absentIds.has(emp.id)) return false;
 
       return matchesSearch;
     });
-  }, [employees, searchQuery, filterStatus]);
+  }, [employees, searchQuery, filterStatus, absentIds]);
 
   // Stats
   const stats = useMemo(() => {
@@ -530,8 +716,9 @@ export default function EmployeesPage() {
       notEnrolled: employees.length - enrolled.length,
       totalEmbeddings,
       avgEmbeddings: Math.round(avgEmbeddings * 10) / 10,
+      absentToday: employees.filter((e) => absentIds.has(e.id)).length,
     };
-  }, [employees]);
+  }, [employees, absentIds]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
@@ -545,6 +732,7 @@ export default function EmployeesPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <UserMenu />
             <Link href="/admin">
               <Button variant="outline" size="sm">
                 ⚙️ ตั้งค่า
@@ -561,7 +749,7 @@ export default function EmployeesPage() {
 
       <main className="max-w-5xl mx-auto px-4 py-6 space-y-6">
         {/* Stats cards */}
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
           <Card className="bg-slate-800/50 border-slate-700">
             <CardContent className="py-4 text-center">
               <p className="text-3xl font-bold text-white">{stats.total}</p>
@@ -586,6 +774,12 @@ export default function EmployeesPage() {
               <p className="text-sm text-slate-400">ภาพใบหน้ารวม</p>
             </CardContent>
           </Card>
+          <Card className="bg-red-500/10 border-red-500/30">
+            <CardContent className="py-4 text-center">
+              <p className="text-3xl font-bold text-red-400">{stats.absentToday}</p>
+              <p className="text-sm text-slate-400">ขาดงานวันนี้</p>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Search and filters */}
@@ -623,6 +817,14 @@ export default function EmployeesPage() {
             >
               ⚠ รอลงทะเบียน
             </Button>
+            <Button
+              variant={filterStatus === "absent" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setFilterStatus("absent")}
+              className={filterStatus === "absent" ? "bg-red-600" : ""}
+            >
+              🚫 ขาดงานวันนี้
+            </Button>
           </div>
         </div>
 
@@ -665,11 +867,20 @@ export default function EmployeesPage() {
               <EmployeeDetailCard
                 key={employee.id}
                 employee={employee}
+                learning={settings.learning}
                 isExpanded={expandedId === employee.id}
                 onToggle={() => setExpandedId(
                   expandedId === employee.id ? null : employee.id
                 )}
-                checkInEvents={eventsByEmployee[employee.id] ?? []}
+                checkInEvents={eventsByEmployee[employee.id]?.events ?? []}
+                sessions={sessionsByEmployee[employee.id] ?? []}
+                learningLog={learningLogByEmployee[employee.id] ?? []}
+                hasMoreEvents={!!eventsByEmployee[employee.id]?.nextCursor}
+                isLoadingEvents={eventsByEmployee[employee.id]?.isLoading ?? false}
+                onLoadMoreEvents={() => {
+                  const loaded = eventsByEmployee[employee.id];
+                  if (loaded?.nextCursor) void loadEmployeeEvents(employee.id, loaded.nextCursor);
+                }}
               />
             ))}
           </div>
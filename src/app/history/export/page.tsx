@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import type { Employee } from "@/entities/employee";
+import { APP_TIME_ZONE, formatDuration, toDateKey } from "@/shared/lib/datetime";
+import {
+  TIMESHEET_MIME_TYPES,
+  buildTimesheet,
+  timesheetFileName,
+  timesheetQueryWindow,
+  timesheetToCsv,
+  timesheetToJson,
+  timesheetToXlsx,
+  type TimesheetFilter,
+  type TimesheetFormat,
+  type TimesheetRow,
+} from "@/shared/lib/timesheet";
+import { cn } from "@/lib/utils";
+
+const FORMAT_LABELS: Record<TimesheetFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV",
+  json: "JSON",
+};
+
+const PREVIEW_ROWS = 50;
+
+const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatClock = (iso?: string) =>
+  iso ? new Date(iso).toLocaleTimeString("th-TH", { hour: "2-digit", minute: "2-digit", timeZone: APP_TIME_ZONE }) : "–";
+
+export default function TimesheetExportPage() {
+  const repository = useMemo(() => createEmployeeRepository(), []);
+  const today = toDateKey(new Date());
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [filter, setFilter] = useState<TimesheetFilter>({ from: `${today.slice(0, 8)}01`, to: today });
+  const [rows, setRows] = useState<TimesheetRow[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  useEffect(() => {
+    // Names and departments only - timesheets never need face vectors
+    repository
+      .listEmployees({ includeEmbeddings: false })
+      .then(setEmployees)
+      .catch((err) => {
+        console.error("Failed to load employees:", err);
+        toast.error("ไม่สามารถโหลดรายชื่อพนักงานได้");
+      })
+      .finally(() => setIsLoading(false));
+  }, [repository]);
+
+  const departments = useMemo(
+    () => [...new Set(employees.map((e) => e.department).filter((d): d is string => !!d))].sort(),
+    [employees]
+  );
+  const isRangeValid = !!filter.from && !!filter.to && filter.from <= filter.to;
+
+  const updateFilter = (patch: Partial<TimesheetFilter>) => {
+    setFilter((prev) => ({ ...prev, ...patch }));
+    setRows(null);
+  };
+
+  const loadRows = async (): Promise<TimesheetRow[] | null> => {
+    if (rows) return rows;
+    setIsBuilding(true);
+    try {
+      const window = timesheetQueryWindow(filter);
+      const events = await repository.listCheckInEventsBetween(window.from, window.to);
+      const built = buildTimesheet(events, employees, filter);
+      setRows(built);
+      return built;
+    } catch (err) {
+      console.error("Failed to build timesheet:", err);
+      toast.error("ไม่สามารถโหลดข้อมูลการเช็คอินได้");
+      return null;
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const handleDownload = async (format: TimesheetFormat) => {
+    const data = await loadRows();
+    if (!data) return;
+    const content =
+      format === "csv" ? timesheetToCsv(data)
+      : format === "xlsx" ? timesheetToXlsx(data)
+      : JSON.stringify(timesheetToJson(data, filter), null, 2);
+    downloadFile(content as BlobPart, TIMESHEET_MIME_TYPES[format], timesheetFileName(filter, format));
+  };
+
+  const summary = useMemo(() => {
+    if (!rows) return null;
+    return {
+      employees: new Set(rows.map((row) => row.employeeId)).size,
+      workedMinutes: rows.reduce((sum, row) => sum + row.workedMinutes, 0),
+      lateDays: rows.filter((row) => row.lateMinutes > 0).length,
+      incomplete: rows.filter((row) => row.incompleteSessions > 0).length,
+    };
+  }, [rows]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-slate-900/80 backdrop-blur-lg border-b border-slate-700">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-white">ส่งออกตารางเวลาทำงาน</h1>
+            <p className="text-sm text-slate-400">สรุปรายวันต่อพนักงานสำหรับทำเงินเดือน</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/history">
+              <Button size="sm" variant="outline" className="border-slate-600 text-slate-300">
+                ← กลับ
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-slate-400">กำลังโหลด...</p>
+          </div>
+        ) : (
+          <>
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-white text-base">ช่วงวันที่และแผนก</CardTitle>
+                <CardDescription>
+                  เวลาเข้างานคือการเช็คอินครั้งแรกของวัน เวลาออกงานคือการเช็คเอาท์ครั้งสุดท้าย
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3 max-w-md">
+                  <div className="space-y-1">
+                    <Label htmlFor="timesheet-from" className="text-slate-300">ตั้งแต่</Label>
+                    <Input
+                      id="timesheet-from"
+                      type="date"
+                      value={filter.from}
+                      max={filter.to}
+                      onChange={(e) => updateFilter({ from: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="timesheet-to" className="text-slate-300">ถึง</Label>
+                    <Input
+                      id="timesheet-to"
+                      type="date"
+                      value={filter.to}
+                      min={filter.from}
+                      onChange={(e) => updateFilter({ to: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {[undefined, ...departments].map((department) => (
+                    <button
+                      key={department ?? "all"}
+                      onClick={() => updateFilter({ department })}
+                      className={cn(
+                        "px-3 py-1.5 rounded-lg text-sm transition-all",
+                        filter.department === department
+                          ? "bg-blue-600 text-white"
+                          : "bg-slate-900/60 text-slate-400 hover:bg-slate-700"
+                      )}
+                    >
+                      {department ?? "ทุกแผนก"}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => void loadRows()}
+                    disabled={!isRangeValid || isBuilding}
+                    className="border-slate-600 text-slate-300"
+                  >
+                    {isBuilding ? "กำลังโหลด..." : "ดูตัวอย่าง"}
+                  </Button>
+                  {(Object.keys(FORMAT_LABELS) as TimesheetFormat[]).map((format) => (
+                    <Button
+                      key={format}
+                      onClick={() => void handleDownload(format)}
+                      disabled={!isRangeValid || isBuilding}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      ⬇️ {FORMAT_LABELS[format]}
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {rows && summary && (
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-white text-base">ตัวอย่าง ({rows.length} แถว)</CardTitle>
+                  <CardDescription>
+                    พนักงาน {summary.employees} คน · รวม {formatDuration(summary.workedMinutes * 60000)} · มาสาย{" "}
+                    {summary.lateDays} วัน
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {summary.incomplete > 0 && (
+                    <p className="text-xs text-yellow-300/80">
+                      {summary.incomplete} แถวมีรอบที่ไม่ครบ (ลืมเช็คอินหรือเช็คเอาท์) - ชั่วโมงทำงานนับเฉพาะรอบที่ครบ
+                    </p>
+                  )}
+                  {rows.length === 0 ? (
+                    <p className="text-center text-slate-500 py-6">ไม่มีการเช็คอินในช่วงนี้</p>
+                  ) : (
+                    rows.slice(0, PREVIEW_ROWS).map((row) => (
+                      <TimesheetPreviewRow key={`${row.employeeId}|${row.date}`} row={row} />
+                    ))
+                  )}
+                  {rows.length > PREVIEW_ROWS && (
+                    <p className="text-center text-xs text-slate-500">
+                      แสดง {PREVIEW_ROWS} จาก {rows.length} แถว - ไฟล์ที่ส่งออกมีครบทุกแถว
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// One employee-day of the preview
+const TimesheetPreviewRow = ({ row }: { row: TimesheetRow }) => (
+  <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg p-3 bg-slate-900/40">
+    <div className="min-w-0">
+      <p className="text-slate-200 font-medium truncate">{row.employeeName}</p>
+      <p className="text-xs text-slate-500">
+        {new Date(row.date).toLocaleDateString("th-TH", {
+          weekday: "short",
+          day: "numeric",
+          month: "short",
+          timeZone: APP_TIME_ZONE,
+        })}
+        {row.department && ` · ${row.department}`}
+      </p>
+    </div>
+    <div className="flex items-center gap-3 text-sm">
+      <span className="font-mono text-slate-300">
+        {formatClock(row.firstIn)} – {formatClock(row.lastOut)}
+      </span>
+      <span className="text-white">{formatDuration(row.workedMinutes * 60000)}</span>
+      {row.lateMinutes > 0 && (
+        <Badge className="bg-orange-500/20 text-orange-300">สาย {row.lateMinutes} นาที</Badge>
+      )}
+      {row.incompleteSessions > 0 && <Badge className="bg-yellow-500/20 text-yellow-300">ไม่ครบ</Badge>}
+    </div>
+  </div>
+);
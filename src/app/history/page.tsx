@@ -6,45 +6,78 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
-import type { FaceCheckEvent, Employee } from "@/entities/employee";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import {
+  createEmployeeRepository,
+  type CheckInEventQuery,
+  type EmployeeRepository,
+} from "@/shared/repositories/employee-repository";
+import { UserMenu } from "@/shared/components/user-menu";
+import { useCurrentUser } from "@/shared/hooks/use-current-user";
+import type { AttendanceSession, Employee, FaceCheckEvent, NearMissEvent } from "@/entities/employee";
+import type { AbsenceRecord } from "@/entities/schedule";
+import { attendanceQueryWindow, getSessionStart, pairAttendanceSessions } from "@/shared/lib/attendance";
+import { APP_TIME_ZONE, addDays, formatDuration, getZonedParts, toDateKey } from "@/shared/lib/datetime";
+import { describeClassification } from "@/shared/lib/schedule";
+import { hasRole } from "@/shared/lib/permissions";
+import { runAbsenceDetection } from "@/shared/services/absence-job";
 import { cn } from "@/lib/utils";
 
+const ALL = "all"; // Select value for "no filter" - Radix items can't use ""
+const RECENT_DAYS = 7;
+
+// Follow the cursor to the end - a day of scans is a page or two
+const loadAllEvents = async (repository: EmployeeRepository, query: CheckInEventQuery) => {
+  const events: FaceCheckEvent[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await repository.queryCheckInEvents({ ...query, limit: 500, cursor });
+    events.push(...page.events);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return events;
+};
+
 export default function HistoryPage() {
   const repository = useMemo(() => createEmployeeRepository(), []);
   const [events, setEvents] = useState<FaceCheckEvent[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [selectedDate, setSelectedDate] = useState<string>(
-    new Date().toISOString().split("T")[0]
-  );
+  const [nearMisses, setNearMisses] = useState<NearMissEvent[]>([]);
+  const [absences, setAbsences] = useState<AbsenceRecord[]>([]);
+  const [isDetectingAbsences, setIsDetectingAbsences] = useState(false);
+  const { user } = useCurrentUser();
+  const canReview = hasRole(user?.role, ["admin"]);
+  const [selectedDate, setSelectedDate] = useState<string>(() => toDateKey(new Date()));
+  const [department, setDepartment] = useState<string>(ALL);
+  const [employeeId, setEmployeeId] = useState<string>(ALL);
+  const [refreshKey, setRefreshKey] = useState(0);
+  // Filters the shown events were loaded for - realtime refreshes keep the old list on screen
+  const filterKey = `${selectedDate}|${department}|${employeeId}`;
+  const [loadedFilterKey, setLoadedFilterKey] = useState<string | null>(null);
+  const isLoading = loadedFilterKey !== filterKey;
 
-  // Load data
+  // Roster and near misses - independent of the filters
   useEffect(() => {
-    const loadData = async () => {
-      setIsLoading(true);
-      try {
-        const [eventsData, employeesData] = await Promise.all([
-          repository.listCheckInEvents(),
-          repository.listEmployees(),
-        ]);
-        setEvents(eventsData);
-        setEmployees(employeesData);
-      } catch (err) {
-        console.error("Failed to load data:", err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    void loadData();
+    repository.listEmployees({ includeEmbeddings: false })
+      .then(setEmployees)
+      .catch((err) => console.error("Failed to load employees:", err));
 
-    // Subscribe to real-time updates
-    const unsubEvents = repository.subscribeToCheckIns((newEvents) => {
-      setEvents(newEvents);
-    });
-    const unsubEmployees = repository.subscribe((newEmployees) => {
-      setEmployees(newEmployees);
-    });
+    // Review list only - the timeline still loads if this fails
+    repository.listNearMisses(100)
+      .then(setNearMisses)
+      .catch((err) => console.error("Failed to load near misses:", err));
+
+    // Subscribe to real-time updates - re-query the day on every new scan
+    const unsubEvents = repository.subscribeToCheckIns(() => setRefreshKey((key) => key + 1));
+    const unsubEmployees = repository.subscribe(setEmployees, { includeEmbeddings: false });
 
     return () => {
       unsubEvents();
@@ -52,56 +85,155 @@ export default function HistoryPage() {
     };
   }, [repository]);
 
-  // Filter events by date
-  const filteredEvents = useMemo(() => {
-    return events.filter((event) => {
-      const eventDate = new Date(event.capturedAt).toISOString().split("T")[0];
-      return eventDate === selectedDate;
-    });
+  // Scans for the selected day, filtered on the server
+  useEffect(() => {
+    let cancelled = false;
+    loadAllEvents(repository, {
+      ...attendanceQueryWindow(selectedDate, selectedDate),
+      employeeIds: employeeId === ALL ? undefined : [employeeId],
+      department: department === ALL ? undefined : department,
+      matchStatus: "matched", // Rejected scans never pair into sessions
+    })
+      .then((data) => {
+        if (!cancelled) setEvents(data);
+      })
+      .catch((err) => {
+        console.error("Failed to load check-in events:", err);
+        if (!cancelled) toast.error("ไม่สามารถโหลดประวัติการเช็คอินได้");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedFilterKey(filterKey);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, selectedDate, department, employeeId, filterKey, refreshKey]);
+
+  // Stored absences for the selected day - written by the daily job or the button below
+  useEffect(() => {
+    let cancelled = false;
+    repository.listAbsences(selectedDate)
+      .then((data) => {
+        if (!cancelled) setAbsences(data);
+      })
+      .catch((err) => console.error("Failed to load absences:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, selectedDate]);
+
+  // The query window reaches into the neighbouring days so sessions pair exactly - keep the selected day's
+  const filteredSessions = useMemo(() => {
+    return pairAttendanceSessions(events).filter((session) => session.date === selectedDate);
   }, [events, selectedDate]);
 
-  // Group events by hour for timeline
+  const departments = useMemo(
+    () => [...new Set(employees.map((e) => e.department).filter((d): d is string => !!d))].sort(),
+    [employees]
+  );
+
+  // Employee picker follows the department filter
+  const employeeOptions = useMemo(
+    () => employees.filter((e) => department === ALL || e.department === department),
+    [employees, department]
+  );
+
+  // Labelled near misses become calibration data
+  const handleReviewNearMiss = async (event: NearMissEvent, resolvedEmployeeId: string | null) => {
+    try {
+      await repository.reviewNearMiss(event.id, resolvedEmployeeId);
+      setNearMisses((prev) =>
+        prev.map((e) =>
+          e.id === event.id
+            ? { ...e, resolvedEmployeeId: resolvedEmployeeId ?? undefined, reviewedAt: new Date().toISOString() }
+            : e
+        )
+      );
+    } catch {
+      toast.error("ไม่สามารถบันทึกผลตรวจสอบได้");
+    }
+  };
+
+  // Re-detect the selected day up to now - replaces the stored list
+  const handleDetectAbsences = async () => {
+    setIsDetectingAbsences(true);
+    try {
+      const result = await runAbsenceDetection(repository, { date: selectedDate });
+      setAbsences(result.absences);
+      toast.success(`พบพนักงานขาดงาน ${result.absences.length} คน`);
+    } catch (err) {
+      console.error("Failed to detect absences:", err);
+      toast.error("ไม่สามารถตรวจสอบการขาดงานได้");
+    } finally {
+      setIsDetectingAbsences(false);
+    }
+  };
+
+  // Same filters as the timeline; anyone who has checked in since the last run is no longer absent
+  const filteredAbsences = useMemo(() => {
+    const present = new Set(filteredSessions.map((session) => session.employeeId));
+    return absences.filter((absence) => {
+      const employee = employees.find((e) => e.id === absence.employeeId);
+      return (
+        !present.has(absence.employeeId) &&
+        (employeeId === ALL || absence.employeeId === employeeId) &&
+        (department === ALL || employee?.department === department)
+      );
+    });
+  }, [absences, employees, filteredSessions, department, employeeId]);
+
+  const filteredNearMisses = useMemo(() => {
+    return nearMisses.filter((event) => toDateKey(event.capturedAt) === selectedDate);
+  }, [nearMisses, selectedDate]);
+
+  // Group sessions by start hour for timeline
   const groupedByHour = useMemo(() => {
-    const groups: Record<string, FaceCheckEvent[]> = {};
-    for (const event of filteredEvents) {
-      const hour = new Date(event.capturedAt).getHours().toString().padStart(2, "0") + ":00";
+    const groups: Record<string, AttendanceSession[]> = {};
+    for (const session of filteredSessions) {
+      const hour = getZonedParts(getSessionStart(session)).hour.toString().padStart(2, "0") + ":00";
       if (!groups[hour]) groups[hour] = [];
-      groups[hour].push(event);
+      groups[hour].push(session);
     }
     return Object.entries(groups).sort(([a], [b]) => b.localeCompare(a)); // Latest first
-  }, [filteredEvents]);
+  }, [filteredSessions]);
 
   // Get employee info
-  const getEmployee = (employeeId: string) => {
-    return employees.find((e) => e.id === employeeId);
+  const getEmployee = (id: string) => {
+    return employees.find((e) => e.id === id);
   };
 
-  // Get unique dates from events
-  const availableDates = useMemo(() => {
-    const dates = new Set<string>();
-    for (const event of events) {
-      dates.add(new Date(event.capturedAt).toISOString().split("T")[0]);
-    }
-    return Array.from(dates).sort().reverse();
-  }, [events]);
+  // Quick picks for the last week - older days through the date input
+  const recentDates = useMemo(() => {
+    const today = toDateKey(new Date());
+    return Array.from({ length: RECENT_DAYS }, (_, i) => addDays(today, -i));
+  }, []);
 
   // Stats for selected date
   const stats = useMemo(() => {
-    const uniqueEmployees = new Set(filteredEvents.map((e) => e.employeeId));
+    const uniqueEmployees = new Set(filteredSessions.map((s) => s.employeeId));
+    const completed = filteredSessions.filter((s) => s.workedMs !== undefined);
+    const scans = filteredSessions.flatMap((s) => [s.checkIn, s.checkOut]).filter((e) => e !== undefined);
     return {
-      totalCheckIns: filteredEvents.length,
+      totalSessions: filteredSessions.length,
       uniqueEmployees: uniqueEmployees.size,
-      avgSimilarity: filteredEvents.length > 0
-        ? filteredEvents.reduce((sum, e) => sum + e.similarityScore, 0) / filteredEvents.length
+      stillWorking: filteredSessions.filter((s) => s.checkIn && !s.checkOut).length,
+      late: filteredSessions.filter((s) => s.checkIn?.classification === "late").length,
+      earlyLeave: filteredSessions.filter((s) => s.checkOut?.classification === "early-leave").length,
+      avgWorkedMs: completed.length > 0
+        ? completed.reduce((sum, s) => sum + (s.workedMs ?? 0), 0) / completed.length
+        : undefined,
+      avgSimilarity: scans.length > 0
+        ? scans.reduce((sum, e) => sum + e.similarityScore, 0) / scans.length
         : 0,
     };
-  }, [filteredEvents]);
+  }, [filteredSessions]);
 
   const formatTime = (dateStr: string) => {
     return new Date(dateStr).toLocaleTimeString("th-TH", {
       hour: "2-digit",
       minute: "2-digit",
       second: "2-digit",
+      timeZone: APP_TIME_ZONE,
     });
   };
 
@@ -111,6 +243,7 @@ export default function HistoryPage() {
       day: "numeric",
       month: "long",
       year: "numeric",
+      timeZone: APP_TIME_ZONE,
     });
   };
 
@@ -124,6 +257,17 @@ export default function HistoryPage() {
             <p className="text-sm text-slate-400">{formatDate(selectedDate)}</p>
           </div>
           <div className="flex items-center gap-3">
+            <UserMenu />
+            <Link href="/dashboard">
+              <Button variant="outline" size="sm">
+                📊 แดชบอร์ด
+              </Button>
+            </Link>
+            <Link href="/history/export">
+              <Button variant="outline" size="sm">
+                ⬇️ ส่งออก
+              </Button>
+            </Link>
             <Link href="/employees">
               <Button variant="outline" size="sm">
                 👥 พนักงาน
@@ -145,13 +289,8 @@ export default function HistoryPage() {
 
       <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
         {/* Date selector */}
-        <div className="flex gap-2 overflow-x-auto pb-2">
-          {availableDates.length === 0 && (
-            <Badge variant="outline" className="text-slate-400">
-              ยังไม่มีประวัติ
-            </Badge>
-          )}
-          {availableDates.slice(0, 7).map((date) => (
+        <div className="flex items-center gap-2 overflow-x-auto pb-2">
+          {recentDates.map((date, i) => (
             <button
               key={date}
               onClick={() => setSelectedDate(date)}
@@ -162,25 +301,87 @@ export default function HistoryPage() {
                   : "bg-slate-800 text-slate-400 hover:bg-slate-700"
               )}
             >
-              {date === new Date().toISOString().split("T")[0]
+              {i === 0
                 ? "วันนี้"
-                : new Date(date).toLocaleDateString("th-TH", { day: "numeric", month: "short" })}
+                : new Date(date).toLocaleDateString("th-TH", { day: "numeric", month: "short", timeZone: APP_TIME_ZONE })}
             </button>
           ))}
+          <Input
+            type="date"
+            aria-label="เลือกวันที่"
+            value={selectedDate}
+            max={recentDates[0]}
+            onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+            className="w-auto bg-slate-800/50 border-slate-600 text-white"
+          />
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Select
+            value={department}
+            onValueChange={(value) => {
+              setDepartment(value);
+              setEmployeeId(ALL);
+            }}
+          >
+            <SelectTrigger aria-label="แผนก" className="sm:w-56 bg-slate-800/50 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>ทุกแผนก</SelectItem>
+              {departments.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={employeeId} onValueChange={setEmployeeId}>
+            <SelectTrigger aria-label="พนักงาน" className="sm:w-64 bg-slate-800/50 border-slate-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>พนักงานทุกคน</SelectItem>
+              {employeeOptions.map((employee) => (
+                <SelectItem key={employee.id} value={employee.id}>
+                  {employee.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-3 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
           <Card className="bg-slate-800/50 border-slate-700">
             <CardContent className="py-4 text-center">
-              <p className="text-3xl font-bold text-white">{stats.totalCheckIns}</p>
-              <p className="text-sm text-slate-400">การเช็คอิน</p>
+              <p className="text-3xl font-bold text-white">{stats.uniqueEmployees}</p>
+              <p className="text-sm text-slate-400">พนักงาน ({stats.totalSessions} รอบ)</p>
             </CardContent>
           </Card>
           <Card className="bg-slate-800/50 border-slate-700">
             <CardContent className="py-4 text-center">
-              <p className="text-3xl font-bold text-white">{stats.uniqueEmployees}</p>
-              <p className="text-sm text-slate-400">พนักงาน</p>
+              <p className="text-3xl font-bold text-white">{stats.stillWorking}</p>
+              <p className="text-sm text-slate-400">ยังไม่เช็คเอาท์</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-orange-500/10 border-orange-500/30">
+            <CardContent className="py-4 text-center">
+              <p className="text-3xl font-bold text-orange-400">{stats.late}</p>
+              <p className="text-sm text-slate-400">มาสาย</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-yellow-500/10 border-yellow-500/30">
+            <CardContent className="py-4 text-center">
+              <p className="text-3xl font-bold text-yellow-400">{stats.earlyLeave}</p>
+              <p className="text-sm text-slate-400">ออกก่อนเวลา</p>
+            </CardContent>
+          </Card>
+          <Card className="bg-slate-800/50 border-slate-700">
+            <CardContent className="py-4 text-center">
+              <p className="text-3xl font-bold text-white">{formatDuration(stats.avgWorkedMs)}</p>
+              <p className="text-sm text-slate-400">เวลาทำงานเฉลี่ย</p>
             </CardContent>
           </Card>
           <Card className="bg-slate-800/50 border-slate-700">
@@ -200,7 +401,7 @@ export default function HistoryPage() {
         )}
 
         {/* Empty state */}
-        {!isLoading && filteredEvents.length === 0 && (
+        {!isLoading && filteredSessions.length === 0 && (
           <Card className="bg-slate-800/50 border-slate-700">
             <CardContent className="py-12 text-center">
               <p className="text-4xl mb-4">📭</p>
@@ -212,31 +413,33 @@ export default function HistoryPage() {
         {/* Timeline by hour */}
         {!isLoading && groupedByHour.length > 0 && (
           <div className="space-y-6">
-            {groupedByHour.map(([hour, hourEvents]) => (
+            {groupedByHour.map(([hour, hourSessions]) => (
               <div key={hour}>
                 <div className="flex items-center gap-3 mb-4">
                   <div className="text-lg font-bold text-white">{hour}</div>
                   <Badge className="bg-slate-700 text-slate-300">
-                    {hourEvents.length} เช็คอิน
+                    {hourSessions.length} รอบ
                   </Badge>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {hourEvents.map((event) => {
-                    const employee = getEmployee(event.employeeId);
+                  {hourSessions.map((session) => {
+                    const employee = getEmployee(session.employeeId);
+                    const snapshot = session.checkIn?.snapshot ?? session.checkOut?.snapshot;
+                    const similarityScore = (session.checkIn ?? session.checkOut)?.similarityScore ?? 0;
                     return (
                       <Card 
-                        key={event.id} 
+                        key={session.id} 
                         className="bg-slate-800/50 border-slate-700 hover:bg-slate-800 transition-colors overflow-hidden"
                       >
                         <CardContent className="p-0">
                           <div className="flex">
                             {/* Snapshot image */}
                             <div className="w-24 h-24 bg-slate-700 flex-shrink-0">
-                              {event.snapshot ? (
+                              {snapshot ? (
                                 // eslint-disable-next-line @next/next/no-img-element
                                 <img
-                                  src={event.snapshot}
+                                  src={snapshot}
                                   alt={employee?.fullName ?? "Check-in"}
                                   className="w-full h-full object-cover"
                                 />
@@ -258,21 +461,36 @@ export default function HistoryPage() {
                                 {employee?.fullName ?? "Unknown"}
                               </p>
                               <p className="text-sm text-slate-400 mt-0.5">
-                                {formatTime(event.capturedAt)}
+                                {session.checkIn ? formatTime(session.checkIn.capturedAt) : "–"}
+                                {" → "}
+                                {session.checkOut ? formatTime(session.checkOut.capturedAt) : "ยังไม่ออก"}
                               </p>
-                              <div className="flex items-center gap-2 mt-2">
+                              <div className="flex flex-wrap items-center gap-2 mt-2">
+                                <Badge className="bg-slate-700 text-slate-300 text-xs">
+                                  {formatDuration(session.workedMs)}
+                                </Badge>
                                 <Badge 
                                   className={cn(
                                     "text-xs",
-                                    event.similarityScore >= 0.85 
+                                    similarityScore >= 0.85 
                                       ? "bg-green-500/20 text-green-400"
-                                      : event.similarityScore >= 0.75
+                                      : similarityScore >= 0.75
                                         ? "bg-blue-500/20 text-blue-400"
                                         : "bg-yellow-500/20 text-yellow-400"
                                   )}
                                 >
-                                  {Math.round(event.similarityScore * 100)}%
+                                  {Math.round(similarityScore * 100)}%
                                 </Badge>
+                                {session.checkIn?.classification === "late" && (
+                                  <Badge className="bg-orange-500/20 text-orange-400 text-xs">
+                                    {describeClassification("late", session.checkIn.classificationMinutes)}
+                                  </Badge>
+                                )}
+                                {session.checkOut?.classification === "early-leave" && (
+                                  <Badge className="bg-yellow-500/20 text-yellow-400 text-xs">
+                                    {describeClassification("early-leave", session.checkOut.classificationMinutes)}
+                                  </Badge>
+                                )}
                                 {employee?.department && (
                                   <span className="text-xs text-slate-500 truncate">
                                     {employee.department}
@@ -290,6 +508,121 @@ export default function HistoryPage() {
             ))}
           </div>
         )}
+
+        {/* Scheduled employees without a scan */}
+        {!isLoading && (filteredAbsences.length > 0 || canReview) && (
+          <Card className="bg-red-500/5 border-red-500/30">
+            <CardHeader className="pb-3 flex flex-row items-start justify-between gap-3">
+              <div>
+                <CardTitle className="text-white text-lg">🚫 ขาดงาน ({filteredAbsences.length})</CardTitle>
+                <p className="text-sm text-slate-400">
+                  มีตารางงานในวันนี้แต่ไม่ได้เช็คอินก่อนเวลาตัดรอบ
+                </p>
+              </div>
+              {canReview && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isDetectingAbsences}
+                  onClick={() => void handleDetectAbsences()}
+                  className="border-slate-600 text-slate-300"
+                >
+                  {isDetectingAbsences ? "กำลังตรวจสอบ..." : "ตรวจสอบการขาดงาน"}
+                </Button>
+              )}
+            </CardHeader>
+            {filteredAbsences.length > 0 && (
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {filteredAbsences.map((absence) => {
+                  const employee = getEmployee(absence.employeeId);
+                  return (
+                    <div key={absence.id} className="flex items-center gap-3 rounded-lg bg-slate-900/50 p-2">
+                      <Avatar className="w-9 h-9">
+                        <AvatarImage src={employee?.avatarUrl} />
+                        <AvatarFallback className="bg-slate-600 text-white text-xs">
+                          {employee?.fullName?.slice(0, 2).toUpperCase() ?? "?"}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="text-sm text-white truncate">{employee?.fullName ?? "Unknown"}</p>
+                        <p className="text-xs text-slate-400">
+                          {employee?.department ?? "ไม่ระบุแผนก"} · ตัดรอบ {formatTime(absence.cutoff)}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        {/* Ambiguous kiosk matches for review */}
+        {!isLoading && filteredNearMisses.length > 0 && (
+          <Card className="bg-amber-500/5 border-amber-500/30">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-white text-lg">❓ ระบบไม่แน่ใจ ({filteredNearMisses.length})</CardTitle>
+              <p className="text-sm text-slate-400">
+                ใบหน้าที่ใกล้เคียงพนักงานสองคนเกินไปจึงไม่ได้เช็คอิน - ควรตรวจสอบหรือลงทะเบียนใบหน้าใหม่
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {filteredNearMisses.map((event) => {
+                const candidate = getEmployee(event.candidateEmployeeId);
+                const runnerUp = getEmployee(event.runnerUpEmployeeId);
+                return (
+                  <div key={event.id} className="flex items-center gap-3 rounded-lg bg-slate-900/50 p-2">
+                    <div className="w-12 h-12 rounded-md bg-slate-700 overflow-hidden flex-shrink-0">
+                      {event.snapshot && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={event.snapshot} alt="Near miss" className="w-full h-full object-cover" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">
+                        {candidate?.fullName ?? "Unknown"} / {runnerUp?.fullName ?? "Unknown"}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {formatTime(event.capturedAt)} · ห่างกัน {event.confidenceGap.toFixed(3)}
+                      </p>
+                    </div>
+                    {event.reviewedAt ? (
+                      <Badge className="bg-slate-700 text-slate-300 text-xs">
+                        ✓ {event.resolvedEmployeeId ? getEmployee(event.resolvedEmployeeId)?.fullName ?? "Unknown" : "คนอื่น"}
+                      </Badge>
+                    ) : canReview ? (
+                      <div className="flex flex-wrap justify-end gap-1">
+                        {[candidate, runnerUp].map((employee) =>
+                          employee ? (
+                            <Button
+                              key={employee.id}
+                              size="sm"
+                              variant="outline"
+                              onClick={() => void handleReviewNearMiss(event, employee.id)}
+                              className="h-7 border-slate-600 text-xs text-slate-300"
+                            >
+                              {employee.fullName}
+                            </Button>
+                          ) : null
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => void handleReviewNearMiss(event, null)}
+                          className="h-7 border-slate-600 text-xs text-slate-300"
+                        >
+                          คนอื่น
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge className="bg-amber-500/20 text-amber-400 text-xs">ไม่ได้เช็คอิน</Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
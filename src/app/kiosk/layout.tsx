@@ -0,0 +1,7 @@
+import type { ReactNode } from "react";
+import { AuthGuard } from "@/shared/components/auth-guard";
+import { ROUTE_ROLES } from "@/shared/lib/permissions";
+
+export default function KioskLayout({ children }: { children: ReactNode }) {
+  return <AuthGuard roles={ROUTE_ROLES.kiosk}>{children}</AuthGuard>;
+}
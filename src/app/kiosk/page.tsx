@@ -1,11 +1,27 @@
+
 import { KioskContainer } from "@/features/face-check/containers/kiosk-container";
+import type { KioskCheckMode } from "@/features/face-check/hooks/use-face-check-view-model";
+import type { LivenessMode } from "@/shared/lib/liveness-challenge";
 
 export const metadata = {
   title: "Face Check-in Kiosk",
   description: "Full-screen face recognition kiosk for check-in",
 };
 
-export default function KioskPage() {
-  return <KioskContainer />;
-}
+const KIOSK_MODES: KioskCheckMode[] = ["auto", "check-in", "check-out"];
+const LIVENESS_MODES: LivenessMode[] = ["passive", "challenge"];
 
+// /kiosk?mode=check-out pins the kiosk to one direction (e.g. exit doors)
+// /kiosk?liveness=challenge asks for random actions before check-in (high-security doors)
+// /kiosk?kiosk=lobby applies the "lobby" recognition settings on top of the global ones
+export default async function KioskPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ mode?: string; liveness?: string; kiosk?: string }>;
+}) {
+  const { mode, liveness, kiosk } = await searchParams;
+  const checkMode = KIOSK_MODES.find((m) => m === mode) ?? "auto";
+  const livenessMode = LIVENESS_MODES.find((m) => m === liveness) ?? "passive";
+
+  return <KioskContainer checkMode={checkMode} livenessMode={livenessMode} kioskId={kiosk?.trim() || undefined} />;
+}
@@ -0,0 +1,21 @@
+import { LoginForm } from "@/shared/components/login-form";
+
+export const metadata = {
+  title: "เข้าสู่ระบบ",
+};
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+  // Only same-site paths - never redirect to another origin
+  const safeNext = next?.startsWith("/") && !next.startsWith("//") ? next : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center px-4">
+      <LoginForm next={safeNext} />
+    </div>
+  );
+}
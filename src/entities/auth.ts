@@ -0,0 +1,8 @@
+// admin manages everything, hr only views reports, kiosk is a check-in device
+export type AppRole = "admin" | "hr" | "kiosk";
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: AppRole | null; // null = signed in but no role assigned yet
+}
@@ -0,0 +1,25 @@
+// How a calendar day differs from the usual working week
+export type CalendarEntryKind =
+  | "public-holiday" // Thai public holiday - nobody is expected
+  | "company-closure" // Company shutdown or extra day off
+  | "working-day"; // Make-up day on a normally free weekday
+
+// A single day on the company calendar, overriding the schedules' work days
+export interface CalendarEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  kind: CalendarEntryKind;
+  department?: string; // Only this department - a department entry wins over a company-wide one
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCalendarEntryInput {
+  date: string;
+  name: string;
+  kind: CalendarEntryKind;
+  department?: string;
+}
+
+export type UpdateCalendarEntryInput = Partial<CreateCalendarEntryInput>;
@@ -1,4 +1,12 @@
-export type FaceEmbeddingVersion = "simple-v1" | "faceapi-v1";
+import type { AttendanceClassification } from "./schedule";
+
+// Embedding space a template was made in - templates only match embeddings of the same version
+// - faceapi-v1: face-api.js 128D descriptors
+// - landmarks-v1: geometry of the MediaPipe face mesh
+export type FaceEmbeddingVersion = "simple-v1" | "faceapi-v1" | "landmarks-v1";
+
+// Detection + embedding pipeline, chosen in the recognition settings
+export type FaceRecognizerBackend = "faceapi" | "mediapipe" | "tensorflow";
 
 // Angle type for multi-angle enrollment
 export type FaceAngle = "front" | "left" | "right" | "slight-left" | "slight-right";
@@ -10,6 +18,9 @@ export interface FaceEmbeddingEntry {
   createdAt: string;
   quality?: number; // 0-1 quality score
   imageDataUrl?: string; // Base64 face image captured during enrollment
+  imageSize?: number; // Side of imageDataUrl in px - missing = 96px thumbnail from older enrollments
+  source?: "enrollment" | "learned"; // Missing = enrollment (entries saved before progressive learning)
+  eventKey?: string; // Idempotency key of the check-in a learned entry came from
 }
 
 // Legacy single embedding format (for backward compatibility)
@@ -38,12 +49,21 @@ export interface Employee {
   department?: string;
   avatarUrl?: string;
   lastCheckIn?: string;
+  enrolledAt?: string; // When the current face template was created - set on roster-only reads too
   embedding?: FaceEmbedding; // Legacy single embedding (backward compatible)
   embeddings?: FaceEmbeddings; // New multi-embedding format
 }
 
+// Face data of one employee without the roster fields - what on-device kiosks match against
+export type EmployeeFaceTemplate = Pick<Employee, "embedding" | "embeddings"> & {
+  employeeId: string;
+};
+
 export type FaceMatchStatus = "pending" | "matched" | "mismatch";
 
+// Direction of a kiosk scan - arriving or leaving
+export type FaceCheckDirection = "check-in" | "check-out";
+
 export interface FaceMatchResult {
   employeeId: string;
   capturedAt: string;
@@ -52,6 +72,7 @@ export interface FaceMatchResult {
   threshold: number;
   status: FaceMatchStatus;
   message: string;
+  direction?: FaceCheckDirection;
 }
 
 export interface FaceCheckEventPayload {
@@ -59,6 +80,12 @@ export interface FaceCheckEventPayload {
   capturedAt: string;
   similarityScore: number;
   isMatch: boolean;
+  direction?: FaceCheckDirection; // Defaults to "check-in"
+  classification?: AttendanceClassification;
+  classificationMinutes?: number; // Minutes late / left early
+  livenessScore?: number; // 0-1 anti-spoofing score at the time of the scan
+  idempotencyKey?: string; // Set by the kiosk outbox so replays never duplicate rows
+  kioskId?: string; // ?kiosk= of the kiosk that took the scan
   snapshotDataUrl?: string;
   // For progressive learning - embedding captured during check-in
   embeddingVector?: number[];
@@ -66,14 +93,82 @@ export interface FaceCheckEventPayload {
   embeddingAngle?: FaceAngle;
 }
 
+// How a full gallery picks the entry to drop
+// - lowest-quality: replace the worst learned entry
+// - diversity: drop the entry most redundant with its nearest neighbour, keeping a minimum per angle
+export type GalleryReplacementStrategy = "lowest-quality" | "diversity";
+
 // Configuration for progressive face learning
 export const PROGRESSIVE_LEARNING_CONFIG = {
   MAX_EMBEDDINGS: 20, // Maximum embeddings to store per employee
   MIN_QUALITY_TO_ADD: 0.70, // Minimum quality score to add new embedding
   MIN_SIMILARITY_TO_ADD: 0.75, // Must be a reasonable match to add (75%+)
   REPLACE_THRESHOLD: 0.1, // Replace if new quality is this much better than worst
+  REPLACEMENT_STRATEGY: "diversity" as GalleryReplacementStrategy,
+  MIN_ENTRIES_PER_ANGLE: 2, // Diversity strategy never drops an angle below this
+  // Drift guard - learned entries must stay close to the enrollment photos
+  MAX_ANCHOR_DISTANCE: 0.3, // Max distance from the average of enrollment entries
+  MIN_IDENTITY_GAP: 0.15, // Next-closest employee must be this much further away (lookalikes)
+  MIN_HOURS_BETWEEN_UPDATES: 4, // At most one learned entry per employee in this window
 };
 
+export type EmbeddingAuditAction = "added" | "replaced" | "skipped";
+
+// Audit trail of check-ins that fed the face template
+export interface EmbeddingAuditEntry {
+  id: string;
+  employeeId: string;
+  eventKey?: string;
+  action: EmbeddingAuditAction;
+  angle: FaceAngle;
+  quality?: number;
+  similarity?: number;
+  createdAt: string;
+}
+
+// Kiosk face too close to two employees to decide - kept for review
+export interface NearMissEvent {
+  id: string;
+  candidateEmployeeId: string; // Closest employee
+  runnerUpEmployeeId: string;
+  distance: number;
+  runnerUpDistance: number;
+  confidenceGap: number;
+  snapshot?: string; // Face thumbnail
+  descriptor?: number[]; // Face descriptor - labelled data for calibration once reviewed
+  capturedAt: string;
+  reviewedAt?: string;
+  resolvedEmployeeId?: string; // Who it really was - missing on a reviewed event means someone else
+}
+
+export type NearMissEventPayload = Omit<NearMissEvent, "id" | "reviewedAt" | "resolvedEmployeeId">;
+
+// Outcome of moving an employee's template to the active embedding version
+// - migrated: re-computed from the stored enrollment photos
+// - needs-reenrollment: not enough usable photos - the employee has to enroll again
+export type EmbeddingMigrationStatus = "migrated" | "needs-reenrollment";
+
+export type EmbeddingMigrationReason = "no-photos" | "unsupported-backend" | "too-few-faces";
+
+export interface EmbeddingMigrationRecord {
+  employeeId: string;
+  fromVersion: FaceEmbeddingVersion | null;
+  targetVersion: FaceEmbeddingVersion;
+  status: EmbeddingMigrationStatus;
+  reason?: EmbeddingMigrationReason;
+  recomputedCount: number; // Enrollment photos that produced a new embedding
+  skippedCount: number; // Old entries left behind (learned entries, photos without a face)
+  updatedAt: string;
+}
+
+export type EmbeddingMigrationPayload = Omit<EmbeddingMigrationRecord, "updatedAt">;
+
+// Match threshold and gap in use - from the match group of the recognition settings
+export interface MatchConfig {
+  matchThreshold: number; // Max euclidean distance for a match
+  minConfidenceGap: number; // Runner-up must be this much further away
+}
+
 // Database record for face check events
 export interface FaceCheckEvent {
   id: string;
@@ -81,6 +176,22 @@ export interface FaceCheckEvent {
   capturedAt: string;
   similarityScore: number;
   isMatch: boolean;
+  direction: FaceCheckDirection;
+  classification?: AttendanceClassification;
+  classificationMinutes?: number;
+  livenessScore?: number;
+  idempotencyKey?: string;
+  kioskId?: string;
   snapshot?: string;
   createdAt: string;
+}
+
+// Check-in paired with its matching check-out
+export interface AttendanceSession {
+  id: string;
+  employeeId: string;
+  date: string; // YYYY-MM-DD of the session start
+  checkIn?: FaceCheckEvent; // Missing when only a check-out was recorded
+  checkOut?: FaceCheckEvent; // Missing while the employee is still at work
+  workedMs?: number; // Only set when both ends are present
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+// Day of week, 0 = Sunday ... 6 = Saturday (matches Date#getDay)
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Work shift that check-ins are judged against
+export interface WorkSchedule {
+  id: string;
+  name: string;
+  workDays: Weekday[];
+  startTime: string; // "HH:MM" shift start
+  endTime: string; // "HH:MM" shift end
+  graceMinutes: number; // Allowed lateness before a check-in counts as late
+  // Assignment - employee assignment wins over department, a schedule with
+  // neither is the company-wide default
+  department?: string;
+  employeeIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateScheduleInput {
+  name: string;
+  workDays: Weekday[];
+  startTime: string;
+  endTime: string;
+  graceMinutes: number;
+  department?: string;
+  employeeIds?: string[];
+}
+
+export type UpdateScheduleInput = Partial<CreateScheduleInput>;
+
+// How a check event compares to the employee's schedule
+export type AttendanceClassification = "on-time" | "late" | "early-leave" | "unscheduled";
+
+// Scheduled work day without a scan by the cutoff - written by the absence job
+export interface AbsenceRecord {
+  id: string;
+  employeeId: string;
+  date: string; // YYYY-MM-DD
+  scheduleId?: string; // Schedule the day was expected under
+  cutoff: string; // ISO instant - scans before it counted as present
+  detectedAt: string;
+}
+
+export type AbsencePayload = Omit<AbsenceRecord, "id" | "detectedAt">;
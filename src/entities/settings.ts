@@ -0,0 +1,57 @@
+import type { FaceRecognizerBackend, GalleryReplacementStrategy } from "./employee";
+
+// Where 1:N matching runs: against galleries downloaded to the kiosk, or in the database (pgvector)
+export type FaceMatchMode = "local" | "server";
+
+// Recognition tuning that admins change at runtime - no redeploy needed
+export interface RecognitionSettings {
+  match: {
+    threshold: number; // Max euclidean distance for a match
+    minConfidenceGap: number; // Runner-up must be this much further away
+    consecutiveMatchesRequired: number; // Frames of the same person before check-in
+    minDetectionConfidence: number;
+    requireLiveness: boolean;
+    mode: FaceMatchMode; // Read when the kiosk loads its roster
+  };
+  detection: {
+    backend: FaceRecognizerBackend; // Changing the embedding version needs re-enrollment
+    minConfidence: number; // face-api detections below this are dropped
+    ssdMinConfidence: number; // SSD MobileNet threshold (lower = farther/moving faces)
+  };
+  mediapipe: {
+    minConfidence: number;
+    minVisibility: number; // Landmark visibility
+    maxFaces: number; // Applied when the models load
+  };
+  learning: {
+    maxEmbeddings: number;
+    minQualityToAdd: number;
+    minSimilarityToAdd: number;
+    replaceThreshold: number;
+    replacementStrategy: GalleryReplacementStrategy;
+    minEntriesPerAngle: number;
+    maxAnchorDistance: number;
+    minIdentityGap: number;
+    minHoursBetweenUpdates: number;
+  };
+  kiosk: {
+    samePersonCooldownMs: number; // Ignore the same person again within this window
+    detectionIntervalMs: number; // Time between detection frames
+  };
+}
+
+export type RecognitionSettingsGroup = keyof RecognitionSettings;
+
+// Only the values that differ from the layer below
+export type RecognitionSettingsOverride = {
+  [Group in RecognitionSettingsGroup]?: Partial<RecognitionSettings[Group]>;
+};
+
+// Stored layer: "global" applies everywhere, any other scope is a kiosk id (/kiosk?kiosk=<id>)
+export interface RecognitionSettingsRecord {
+  scope: string;
+  settings: RecognitionSettingsOverride;
+  updatedAt?: string;
+}
+
+export const GLOBAL_SETTINGS_SCOPE = "global";
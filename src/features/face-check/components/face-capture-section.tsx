@@ -28,6 +28,7 @@ export const phaseLabel: Record<FaceCheckPhase, string> = {
   "camera-initializing": "กำลังเตรียมกล้อง",
   "camera-ready": "พร้อมตรวจจับ",
   detecting: "🔍 กำลังสแกน...",
+  challenge: "🙂 ยืนยันตัวตน...",
   matched: "✓ พบตรงกัน!",
   cooldown: "⏳ รอสักครู่...",
   error: "ข้อผิดพลาด",
@@ -46,7 +47,7 @@ export const FaceCaptureSection = ({
 }: FaceCaptureSectionProps) => {
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const isCameraReady = phase === "camera-ready" || phase === "matched" || phase === "cooldown" || phase === "detecting";
+  const isCameraReady = phase === "camera-ready" || phase === "matched" || phase === "cooldown" || phase === "detecting" || phase === "challenge";
   const isProcessing = phase === "camera-initializing" || phase === "loading-models" || phase === "loading-employees";
 
   // Smoothed face positions
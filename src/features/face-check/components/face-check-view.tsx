@@ -192,6 +192,7 @@ export const FaceCheckView = ({
                     <div className="flex-1 min-w-0">
                       <p className="font-medium truncate">{log.employeeName}</p>
                       <p className="text-xs text-muted-foreground">
+                        {log.direction === "check-out" ? "ออก" : "เข้า"}{" "}
                         {log.timestamp.toLocaleTimeString("th-TH", {
                           hour: "2-digit",
                           minute: "2-digit",
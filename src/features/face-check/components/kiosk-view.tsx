@@ -4,8 +4,14 @@ import { useEffect, useRef, useCallback, useState } from "react";
 import type { RefObject } from "react";
 import { toast } from "@/components/ui/sonner";
 import type { FaceMatchResult, Employee } from "@/entities/employee";
-import type { FaceCheckPhase, CheckInLogEntry } from "../hooks/use-face-check-view-model";
+import type {
+  FaceCheckPhase,
+  CheckInLogEntry,
+  KioskCheckMode,
+  LivenessChallengeState,
+} from "../hooks/use-face-check-view-model";
 import type { DetectedFace } from "@/shared/lib/face-embedding";
+import { challengePrompt, CHALLENGE_CONFIG, type LivenessMode } from "@/shared/lib/liveness-challenge";
 
 interface KioskViewProps {
   employees: Employee[];
@@ -19,6 +25,13 @@ interface KioskViewProps {
     livenessScore: number;
     consecutiveMatchCount: number;
     matchInCooldown: boolean;
+    checkMode: KioskCheckMode;
+    livenessMode: LivenessMode;
+    challenge: LivenessChallengeState | null;
+    challengeTimedOut: boolean;
+    isOnline: boolean;
+    queuedCount: number;
+    deadLetterCount: number;
   };
   videoRef: RefObject<HTMLVideoElement | null>;
   matchResult: FaceMatchResult | null;
@@ -67,6 +80,23 @@ export const KioskView = ({
     return () => clearInterval(timer);
   }, []);
 
+  // Countdown for the current challenge step
+  const [challengeNow, setChallengeNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!status.challenge) return;
+    const timer = setInterval(() => setChallengeNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [status.challenge]);
+
+  useEffect(() => {
+    if (status.challengeTimedOut) {
+      toast.error("หมดเวลายืนยันตัวตน", {
+        description: "กรุณาลองใหม่อีกครั้ง",
+        duration: 3000,
+      });
+    }
+  }, [status.challengeTimedOut]);
+
   // Reset inactivity timer
   const resetInactivityTimer = useCallback(() => {
     if (inactivityTimerRef.current) clearTimeout(inactivityTimerRef.current);
@@ -98,8 +128,8 @@ export const KioskView = ({
     if (matchResult && status.phase === "matched" && matchResult.employeeId !== lastMatchRef.current) {
       lastMatchRef.current = matchResult.employeeId;
       recentCheckInsRef.current.add(matchResult.employeeId);
-      toast.success(`เช็คชื่อสำเร็จ!`, {
-        description: detectedEmployee?.fullName,
+      toast.success(matchResult.direction === "check-out" ? "เช็คเอาท์สำเร็จ!" : "เช็คชื่อสำเร็จ!", {
+        description: matchResult.message || detectedEmployee?.fullName,
         duration: 3000,
       });
       // Clear after 10 seconds
@@ -191,7 +221,7 @@ export const KioskView = ({
       if (!smoothed) continue;
 
       const { x, y, w, h, opacity } = smoothed;
-      const { employeeName, employeeId } = face;
+      const { employeeName, employeeId, isAmbiguous } = face;
       const isCheckedIn = employeeId && recentCheckInsRef.current.has(employeeId);
 
       // Color based on status with opacity
@@ -200,6 +230,8 @@ export const KioskView = ({
         r = 34; g = 197; b = 94; a = 0.9;
       } else if (employeeName) {
         r = 59; g = 130; b = 246; a = 0.8;
+      } else if (isAmbiguous) {
+        r = 245; g = 158; b = 11; a = 0.85;
       }
       const color = `rgba(${r}, ${g}, ${b}, ${a * opacity})`;
 
@@ -209,6 +241,8 @@ export const KioskView = ({
       ctx.lineWidth = 4;
       ctx.shadowColor = color;
       ctx.shadowBlur = 15 * opacity;
+      // Ambiguous faces get a dashed box - close to two employees, not matched
+      ctx.setLineDash(isAmbiguous ? [14, 10] : []);
 
       ctx.beginPath();
       ctx.moveTo(x + radius, y);
@@ -222,14 +256,17 @@ export const KioskView = ({
       ctx.quadraticCurveTo(x, y, x + radius, y);
       ctx.closePath();
       ctx.stroke();
+      ctx.setLineDash([]);
       ctx.shadowBlur = 0;
 
       // Draw label (name or status)
-      if ((employeeName || isCheckedIn) && opacity > 0.5) {
+      if ((employeeName || isCheckedIn || isAmbiguous) && opacity > 0.5) {
         const fontSize = 24;
         ctx.font = `bold ${fontSize}px Inter, system-ui, sans-serif`;
         
-        const labelText = isCheckedIn ? `✓ ${employeeName}` : employeeName || "";
+        const labelText = isCheckedIn
+          ? `✓ ${employeeName}`
+          : employeeName || "❓ ไม่แน่ใจ - กรุณามองกล้องตรงๆ";
         const textMetrics = ctx.measureText(labelText);
         const padding = 12;
         const labelWidth = textMetrics.width + padding * 2;
@@ -317,6 +354,34 @@ export const KioskView = ({
           </div>
           
           <div className="flex items-center gap-3">
+            {!status.isOnline && (
+              <div className="flex items-center gap-2 bg-red-500/20 backdrop-blur-sm rounded-full px-4 py-2">
+                <div className="h-2 w-2 rounded-full bg-red-400" />
+                <span className="text-red-400 text-sm font-medium">ออฟไลน์</span>
+              </div>
+            )}
+            {status.queuedCount > 0 && (
+              <div className="flex items-center gap-2 bg-yellow-500/20 backdrop-blur-sm rounded-full px-4 py-2">
+                <span className="text-yellow-400 text-sm font-medium">⏳ รอส่ง {status.queuedCount} รายการ</span>
+              </div>
+            )}
+            {status.deadLetterCount > 0 && (
+              <div className="flex items-center gap-2 bg-red-500/20 backdrop-blur-sm rounded-full px-4 py-2">
+                <span className="text-red-400 text-sm font-medium">⚠️ ส่งไม่สำเร็จ {status.deadLetterCount} รายการ</span>
+              </div>
+            )}
+            {status.checkMode !== "auto" && (
+              <div className="flex items-center gap-2 bg-white/10 backdrop-blur-sm rounded-full px-4 py-2">
+                <span className="text-white/80 text-sm font-medium">
+                  {status.checkMode === "check-out" ? "🚪 จุดเช็คเอาท์" : "🏢 จุดเช็คอิน"}
+                </span>
+              </div>
+            )}
+            {status.livenessMode === "challenge" && (
+              <div className="flex items-center gap-2 bg-white/10 backdrop-blur-sm rounded-full px-4 py-2">
+                <span className="text-white/80 text-sm font-medium">🔒 ยืนยันตัวตนขั้นสูง</span>
+              </div>
+            )}
             {status.modelsReady && (
               <div className="flex items-center gap-2 bg-green-500/20 backdrop-blur-sm rounded-full px-4 py-2">
                 <div className="h-2 w-2 rounded-full bg-green-400 animate-pulse" />
@@ -339,6 +404,36 @@ export const KioskView = ({
           </div>
         )}
 
+        {/* Liveness prompt - recognised but not yet proven to be a live face */}
+        {!showScreensaver && status.isDetecting && status.livenessMode === "passive" && detectedFaces.some(f => f.employeeId && f.isLive === false) && (
+          <div className="absolute bottom-20 left-0 right-0 text-center">
+            <p className="text-white/70 text-2xl">กรุณากะพริบตาหรือขยับศีรษะเล็กน้อย</p>
+          </div>
+        )}
+
+        {/* Challenge prompt - high-security mode */}
+        {!showScreensaver && status.challenge && (
+          <div className="absolute bottom-16 left-0 right-0 flex justify-center">
+            <div className="bg-black/60 backdrop-blur-sm rounded-3xl px-10 py-6 text-center min-w-80">
+              <div className="text-6xl mb-3">{challengePrompt[status.challenge.prompt].icon}</div>
+              <p className="text-white text-3xl font-medium">{challengePrompt[status.challenge.prompt].label}</p>
+              <p className="text-white/50 text-sm mt-2">
+                {detectedEmployee?.fullName} · ขั้นที่ {status.challenge.step}/{status.challenge.totalSteps}
+              </p>
+              <div className="mt-4 h-1.5 w-full rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className="h-full bg-blue-400 transition-[width] duration-100"
+                  style={{
+                    width: `${Math.max(0, Math.min(100,
+                      ((status.challenge.expiresAt - challengeNow) / CHALLENGE_CONFIG.STEP_TIMEOUT_MS) * 100
+                    ))}%`,
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Loading state */}
         {(!status.modelsReady || status.phase === "loading-employees" || status.phase === "camera-initializing") && (
           <div className="absolute inset-0 bg-black/80 flex items-center justify-center">
@@ -2,12 +2,19 @@
 
 import { useMemo } from "react";
 import { KioskView } from "../components/kiosk-view";
-import { useFaceCheckViewModel } from "../hooks/use-face-check-view-model";
+import { useFaceCheckViewModel, type KioskCheckMode } from "../hooks/use-face-check-view-model";
 import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import type { LivenessMode } from "@/shared/lib/liveness-challenge";
 
-export const KioskContainer = () => {
+interface KioskContainerProps {
+  checkMode?: KioskCheckMode;
+  livenessMode?: LivenessMode;
+  kioskId?: string;
+}
+
+export const KioskContainer = ({ checkMode = "auto", livenessMode = "passive", kioskId }: KioskContainerProps) => {
   const repository = useMemo(() => createEmployeeRepository(), []);
-  const viewModel = useFaceCheckViewModel({ repository, autoStart: true });
+  const viewModel = useFaceCheckViewModel({ repository, autoStart: true, checkMode, livenessMode, kioskId });
 
   return (
     <KioskView
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { FaceEmbeddings } from "@/entities/employee";
+import { createEmployeeRepository } from "@/shared/repositories/employee-repository";
+import type { DetectionFrame } from "@/shared/workers/face-detection-protocol";
+import { useFaceCheckViewModel } from "./use-face-check-view-model";
+
+// The camera frame the fake detector returns - set per test
+let frameEmbedding: number[] = [];
+
+vi.mock("@/shared/services/face-detection-client", () => ({
+  createFaceDetectionClient: async () => ({
+    ready: true,
+    client: {
+      kind: "main-thread",
+      load: async () => true,
+      configure: () => {},
+      detect: async (): Promise<DetectionFrame> => ({
+        faces: [{ box: { x: 100, y: 100, width: 200, height: 200 }, score: 0.99, embedding: frameEmbedding }],
+        meshes: [],
+      }),
+      dispose: () => {},
+    },
+  }),
+}));
+
+// One-hot 128-d descriptors are far apart, so each matches only itself
+const descriptor = (hot: number) => Array.from({ length: 128 }, (_, i) => (i === hot ? 1 : 0));
+
+const template = (vector: number[]): FaceEmbeddings => {
+  const now = new Date().toISOString();
+  return {
+    version: "faceapi-v1",
+    entries: [{ vector, angle: "front", createdAt: now }],
+    averageVector: vector,
+    createdAt: now,
+    updatedAt: now,
+    source: "camera",
+  };
+};
+
+beforeAll(() => {
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: { getUserMedia: async () => ({ getTracks: () => [] }) },
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("useFaceCheckViewModel", () => {
+  it("matches an employee enrolled while the kiosk is already scanning", async () => {
+    const repository = createEmployeeRepository();
+    // No liveness - the fake frames carry no face mesh
+    await repository.saveRecognitionSettings("global", { match: { requireLiveness: false } });
+    const first = await repository.addEmployee({ fullName: "สมชาย ใจดี", email: "somchai@example.com", role: "staff" });
+    await repository.upsertEmbeddings(first.id, template(descriptor(0)));
+
+    const { result, unmount } = renderHook(() => useFaceCheckViewModel({ repository, autoStart: false }));
+    result.current.videoRef.current = document.createElement("video");
+    await waitFor(() => expect(result.current.status.phase).toBe("idle"));
+    await waitFor(() => expect(result.current.status.modelsReady).toBe(true));
+
+    await act(async () => {
+      await result.current.actions.initializeCamera();
+    });
+    act(() => result.current.actions.startDetection());
+
+    // Enrolled after the loop started - only the roster subscription knows about them
+    frameEmbedding = descriptor(1);
+    const second = await repository.addEmployee({ fullName: "สมหญิง รักงาน", email: "somying@example.com", role: "staff" });
+    await act(async () => {
+      await repository.upsertEmbeddings(second.id, template(descriptor(1)));
+    });
+
+    await waitFor(async () => {
+      const events = await repository.listCheckInEvents();
+      expect(events.map((event) => event.employeeId)).toContain(second.id);
+    }, { timeout: 3000 });
+    unmount();
+  });
+});
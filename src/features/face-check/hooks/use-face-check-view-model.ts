@@ -1,17 +1,51 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { Employee, FaceMatchResult } from "@/entities/employee";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import type {
+  Employee,
+  FaceAngle,
+  FaceCheckDirection,
+  FaceCheckEvent,
+  FaceCheckEventPayload,
+  FaceMatchResult,
+} from "@/entities/employee";
+import type { CalendarEntry } from "@/entities/calendar";
+import type { WorkSchedule } from "@/entities/schedule";
+import type { FaceMatchMode, RecognitionSettingsRecord } from "@/entities/settings";
 import { 
-  FACE_MATCH_THRESHOLD, 
   ACCURACY_CONFIG,
-  initializeFaceDetection,
-  detectMultipleFaces,
+  getActiveMatchConfig,
   matchMultipleFaces,
+  matchMultipleFacesRemote,
   distanceToSimilarity,
+  cropFaceThumbnail,
   type DetectedFace,
 } from "@/shared/lib/face-embedding";
+import { resolveCheckDirection } from "@/shared/lib/attendance";
+import { toDateKey, zonedDateTime } from "@/shared/lib/datetime";
+import { LivenessTracker, findOverlappingBox } from "@/shared/lib/liveness-detection";
+import {
+  LivenessChallengeSession,
+  type LivenessChallengeType,
+  type LivenessMode,
+} from "@/shared/lib/liveness-challenge";
+import {
+  findMeshForBox,
+  type MediaPipeLandmark,
+} from "@/shared/lib/mediapipe-face-detection";
+import { classifyEnrollmentPose } from "@/shared/lib/enrollment-angles";
+import { assessCaptureQuality } from "@/shared/lib/image-quality";
+import { FaceVectorIndex } from "@/shared/lib/face-vector-index";
+import { getActiveRecognizer, getFaceRecognizer } from "@/shared/lib/face-recognizer";
+import { evaluateLearningCandidate, toLearnedEntry } from "@/shared/lib/progressive-learning";
+import { classifyCheckEvent, describeClassification, resolveScheduleForEmployee } from "@/shared/lib/schedule";
+import { getActiveRecognitionSettings, resolveRecognitionSettings } from "@/shared/lib/recognition-settings";
+import { useRecognitionSettings } from "@/shared/hooks/use-recognition-settings";
 import type { EmployeeRepository } from "@/shared/repositories/employee-repository";
+import { EventOutbox, createIdempotencyKey } from "@/shared/services/event-outbox";
+import { createFaceDetectionClient, type FaceDetectionClient } from "@/shared/services/face-detection-client";
+import { RemoteFaceMatcher } from "@/shared/services/remote-face-matcher";
+import { isOfflineStoreSupported, loadKioskData, saveKioskData } from "@/shared/services/offline-store";
 
 export type FaceCheckPhase =
   | "idle"
@@ -20,10 +54,14 @@ export type FaceCheckPhase =
   | "camera-initializing"
   | "camera-ready"
   | "detecting"
+  | "challenge"
   | "matched"
   | "cooldown"
   | "error";
 
+// "auto" picks check-in for the first scan of the day and check-out afterwards
+export type KioskCheckMode = "auto" | FaceCheckDirection;
+
 export interface CheckInLogEntry {
   id: string;
   employeeId: string;
@@ -31,23 +69,87 @@ export interface CheckInLogEntry {
   avatarUrl?: string;
   timestamp: Date;
   similarity: number;
+  direction: FaceCheckDirection;
   snapshotUrl?: string;
 }
 
+// An employee's latest scan - auto mode picks the next direction from it
+interface LastScan {
+  direction: FaceCheckDirection;
+  dateKey: string;
+}
+
+// Action the kiosk is currently asking for in challenge mode
+export interface LivenessChallengeState {
+  prompt: LivenessChallengeType;
+  step: number;
+  totalSteps: number;
+  expiresAt: number;
+}
+
+type CheckInDetails = Pick<
+  FaceCheckEventPayload,
+  | "direction"
+  | "classification"
+  | "classificationMinutes"
+  | "livenessScore"
+  | "idempotencyKey"
+  | "embeddingVector"
+  | "embeddingQuality"
+  | "embeddingAngle"
+>;
+
 interface UseFaceCheckViewModelOptions {
   repository: EmployeeRepository;
   autoStart?: boolean;
+  checkMode?: KioskCheckMode;
+  livenessMode?: LivenessMode;
+  kioskId?: string; // Picks this kiosk's settings overrides
 }
 
-const DETECTION_INTERVAL_MS = 50; // Very fast detection ~20 fps for motion tracking
+// Detection interval and same-person cooldown come from the recognition settings
 const CHECK_IN_COOLDOWN_MS = 300;
-const SAME_PERSON_COOLDOWN_MS = 60 * 60 * 1000; // 1 hour
+const OUTBOX_RETRY_MS = 30 * 1000;
+const NEAR_MISS_COOLDOWN_MS = 60 * 1000; // Log the same ambiguous pair at most once a minute
+const ROSTER_REFRESH_MS = 5 * 60 * 1000; // Kiosk credentials get no Realtime events for employees (RLS)
+
+const subscribeToConnectivity = (callback: () => void) => {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+};
+
+/**
+ * Roster for this kiosk. Kiosks may not read face data from employees - in local mode
+ * the templates come from their own query; in server mode they never reach the device.
+ */
+const loadKioskRoster = async (repository: EmployeeRepository, mode: FaceMatchMode): Promise<Employee[]> => {
+  const [roster, templates] = await Promise.all([
+    repository.listEmployees({ includeEmbeddings: false }),
+    mode === "server" ? Promise.resolve([]) : repository.listFaceTemplates(),
+  ]);
+  const templateById = new Map(templates.map((template) => [template.employeeId, template]));
+  return roster.map((employee) => ({
+    ...employee,
+    embedding: templateById.get(employee.id)?.embedding,
+    embeddings: templateById.get(employee.id)?.embeddings,
+  }));
+};
 
 export const useFaceCheckViewModel = ({
   repository,
   autoStart = true,
+  checkMode = "auto",
+  livenessMode = "passive",
+  kioskId,
 }: UseFaceCheckViewModelOptions) => {
+  const { settings, setRecords: setSettingsRecords } = useRecognitionSettings(repository, { kioskId, autoLoad: false });
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [calendar, setCalendar] = useState<CalendarEntry[]>([]);
   const [detectedEmployee, setDetectedEmployee] = useState<Employee | null>(null);
   const [phase, setPhase] = useState<FaceCheckPhase>("idle");
   const [error, setError] = useState<string | null>(null);
@@ -62,14 +164,61 @@ export const useFaceCheckViewModel = ({
   const consecutiveMatchesRef = useRef<Map<string, number>>(new Map());
   const [matchInCooldown, setMatchInCooldown] = useState(false);
   const [consecutiveMatchCount, setConsecutiveMatchCount] = useState(0);
-  const [livenessScore] = useState(0.5); // Simplified - always pass
+  const [livenessScore, setLivenessScore] = useState(0);
+  const livenessTrackerRef = useRef(new LivenessTracker());
+  const outbox = useMemo(() => new EventOutbox(repository), [repository]);
+  // Fixed when the roster loads - null until then
+  const [matchMode, setMatchMode] = useState<FaceMatchMode | null>(null);
+  const remoteMatcher = useMemo(() => new RemoteFaceMatcher(repository), [repository]);
+  // Rebuilt whenever the roster (repository.subscribe, periodic refresh) or the recognizer changes
+  const faceIndex = useMemo(
+    () => new FaceVectorIndex(
+      employees.map(emp => ({
+        id: emp.id,
+        name: emp.fullName,
+        embeddings: emp.embeddings,
+        embedding: emp.embedding,
+      })),
+      getFaceRecognizer(settings.detection.backend).version
+    ),
+    [employees, settings.detection.backend]
+  );
+  const isOnline = useSyncExternalStore(subscribeToConnectivity, () => navigator.onLine, () => true);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [deadLetterCount, setDeadLetterCount] = useState(0); // Events the server refused
+  const [challenge, setChallenge] = useState<LivenessChallengeState | null>(null);
+  const [challengeTimedOut, setChallengeTimedOut] = useState(false);
+  const challengeRef = useRef<{
+    session: LivenessChallengeSession;
+    employee: Employee;
+    direction: FaceCheckDirection;
+    face: DetectedFace; // The match that started the challenge
+    box: DetectedFace["boundingBox"]; // Where the challenged face was last seen
+  } | null>(null);
 
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const recentCheckIns = useRef<Map<string, number>>(new Map());
+  const recentNearMisses = useRef<Map<string, number>>(new Map());
+  const lastScansRef = useRef<Map<string, LastScan>>(new Map());
+  // The detection loop keeps running one closure - it reads the roster through refs
+  const employeesRef = useRef<Employee[]>([]);
+  const faceIndexRef = useRef(faceIndex);
+  const schedulesRef = useRef<WorkSchedule[]>([]);
+  const calendarRef = useRef<CalendarEntry[]>([]);
+  const isOnlineRef = useRef(isOnline);
   const initStartedRef = useRef(false);
   const isDetectionRunningRef = useRef(false);
+  const detectionClientRef = useRef<FaceDetectionClient | null>(null);
+
+  useEffect(() => {
+    employeesRef.current = employees;
+    faceIndexRef.current = faceIndex;
+    schedulesRef.current = schedules;
+    calendarRef.current = calendar;
+    isOnlineRef.current = isOnline;
+  }, [employees, faceIndex, schedules, calendar, isOnline]);
 
   // Stop detection
   const stopDetection = useCallback(() => {
@@ -81,6 +230,9 @@ export const useFaceCheckViewModel = ({
     setIsDetecting(false);
     setDetectedFaces([]);
     consecutiveMatchesRef.current.clear();
+    livenessTrackerRef.current.reset();
+    challengeRef.current = null;
+    setChallenge(null);
   }, []);
 
   // Stop camera
@@ -93,20 +245,34 @@ export const useFaceCheckViewModel = ({
 
   useEffect(() => stopCamera, [stopCamera]);
 
+  // Auto mode shares one cooldown across directions; fixed-direction kiosks
+  // only block repeats of their own direction
+  const getCooldownKey = useCallback((employeeId: string, direction: FaceCheckDirection) => (
+    checkMode === "auto" ? employeeId : `${employeeId}:${direction}`
+  ), [checkMode]);
+
   // Check cooldown
-  const isInCooldown = useCallback((employeeId: string): boolean => {
+  const isInCooldown = useCallback((employeeId: string, direction: FaceCheckDirection): boolean => {
     const now = Date.now();
-    const lastCheckIn = recentCheckIns.current.get(employeeId);
-    if (lastCheckIn && now - lastCheckIn < SAME_PERSON_COOLDOWN_MS) return true;
+    const { samePersonCooldownMs } = getActiveRecognitionSettings().kiosk;
+    const lastCheckIn = recentCheckIns.current.get(getCooldownKey(employeeId, direction));
+    if (lastCheckIn && now - lastCheckIn < samePersonCooldownMs) return true;
     
-    const dbCheckIn = checkInLogs.find(log => log.employeeId === employeeId);
-    if (dbCheckIn && now - dbCheckIn.timestamp.getTime() < SAME_PERSON_COOLDOWN_MS) return true;
+    const dbCheckIn = checkInLogs.find(
+      log => log.employeeId === employeeId && (checkMode === "auto" || log.direction === direction)
+    );
+    if (dbCheckIn && now - dbCheckIn.timestamp.getTime() < samePersonCooldownMs) return true;
     
     return false;
-  }, [checkInLogs]);
+  }, [checkInLogs, checkMode, getCooldownKey]);
 
   // Add check-in log
-  const addCheckInLog = useCallback((employee: Employee, similarity: number, snapshotUrl?: string) => {
+  const addCheckInLog = useCallback((
+    employee: Employee,
+    similarity: number,
+    direction: FaceCheckDirection,
+    snapshotUrl?: string
+  ) => {
     const entry: CheckInLogEntry = {
       id: `log_${Date.now()}`,
       employeeId: employee.id,
@@ -114,72 +280,297 @@ export const useFaceCheckViewModel = ({
       avatarUrl: employee.avatarUrl,
       timestamp: new Date(),
       similarity,
+      direction,
       snapshotUrl,
     };
     setCheckInLogs(prev => [entry, ...prev].slice(0, 50));
   }, []);
 
-  // Perform check-in
+  // Perform check-in (or check-out)
   const performCheckIn = useCallback(async (
     employee: Employee, 
-    similarity: number
+    similarity: number,
+    details: CheckInDetails & { direction: FaceCheckDirection }
   ): Promise<boolean> => {
+    const { direction } = details;
+    const capturedAt = new Date();
     try {
-      await repository.recordCheckIn({
+      // Stored locally first - replayed later if the network is down
+      const remaining = await outbox.record({
         employeeId: employee.id,
         similarityScore: similarity,
         isMatch: true,
-        capturedAt: new Date().toISOString(),
+        ...details,
+        kioskId,
+        capturedAt: capturedAt.toISOString(),
       });
-      addCheckInLog(employee, similarity);
-      recentCheckIns.current.set(employee.id, Date.now());
+      setQueuedCount(remaining);
+      outbox.deadLetterCount().then(setDeadLetterCount).catch(() => undefined);
+      addCheckInLog(employee, similarity, direction);
+      lastScansRef.current.set(employee.id, { direction, dateKey: toDateKey(capturedAt) });
+      recentCheckIns.current.set(getCooldownKey(employee.id, direction), Date.now());
       return true;
     } catch (err) {
       console.error("Check-in failed:", err);
       return false;
     }
-  }, [repository, addCheckInLog]);
+  }, [outbox, addCheckInLog, getCooldownKey, kioskId]);
+
+  // Replay the outbox whenever we are online, and retry periodically
+  useEffect(() => {
+    if (!isOnline) {
+      outbox.count().then(setQueuedCount).catch(() => undefined);
+      outbox.deadLetterCount().then(setDeadLetterCount).catch(() => undefined);
+      return;
+    }
+
+    const flush = () => {
+      outbox.flush()
+        .then(setQueuedCount)
+        .catch((err) => console.warn("Outbox flush failed:", err))
+        .then(() => outbox.deadLetterCount())
+        .then(setDeadLetterCount)
+        .catch(() => undefined);
+    };
+    flush();
+    const timer = setInterval(flush, OUTBOX_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, outbox]);
+
+  // Progressive learning - feed confident matches back into the template (best effort)
+  const learnFromCheckIn = useCallback(async (
+    employee: Employee,
+    face: DetectedFace,
+    details: { eventKey: string; angle: FaceAngle; quality: number; similarity: number }
+  ) => {
+    if (!face.embedding?.length || face.distance === undefined || !isOnlineRef.current) return;
+
+    const candidate = {
+      employee,
+      vector: face.embedding,
+      angle: details.angle,
+      quality: details.quality,
+      similarity: details.similarity,
+      ownDistance: face.distance,
+      competitorDistance: face.runnerUpDistance,
+      eventKey: details.eventKey,
+    };
+    // Server-matched rosters hold no anchor entries to check against - the repository decides alone
+    const decision = matchMode === "server"
+      ? { accepted: true as const, entry: toLearnedEntry(candidate) }
+      : evaluateLearningCandidate(candidate);
+    if (!decision.accepted) return;
+
+    try {
+      await repository.appendEmbedding(employee.id, decision.entry, { similarity: details.similarity });
+    } catch (err) {
+      console.warn("Progressive learning failed:", err);
+    }
+  }, [repository, matchMode]);
+
+  // Ambiguous faces are never checked in - keep them for review (best effort)
+  const logNearMisses = useCallback((faces: DetectedFace[]) => {
+    if (!isOnlineRef.current) return;
+    const now = Date.now();
+
+    for (const face of faces) {
+      const [best, runnerUp] = face.candidates ?? [];
+      if (!face.isAmbiguous || !best || !runnerUp) continue;
+
+      const key = [best.employeeId, runnerUp.employeeId].sort().join(":");
+      const lastLogged = recentNearMisses.current.get(key);
+      if (lastLogged && now - lastLogged < NEAR_MISS_COOLDOWN_MS) continue;
+      recentNearMisses.current.set(key, now);
+
+      repository.recordNearMiss({
+        candidateEmployeeId: best.employeeId,
+        runnerUpEmployeeId: runnerUp.employeeId,
+        distance: best.distance,
+        runnerUpDistance: runnerUp.distance,
+        confidenceGap: runnerUp.distance - best.distance,
+        snapshot: videoRef.current ? cropFaceThumbnail(videoRef.current, face.boundingBox) : undefined,
+        descriptor: face.embedding,
+        capturedAt: new Date(now).toISOString(),
+      }).catch((err) => console.warn("Near-miss logging failed:", err));
+    }
+  }, [repository]);
 
   // Main detection loop - MULTIPLE FACES
   const runDetection = useCallback(async () => {
     if (!videoRef.current || !isDetectionRunningRef.current) return;
 
+    const finishCheckIn = async (
+      employee: Employee,
+      face: DetectedFace,
+      direction: FaceCheckDirection,
+      landmarks?: MediaPipeLandmark[]
+    ) => {
+      stopDetection();
+      setDetectedEmployee(employee);
+      setPhase("matched");
+      
+      const similarity = face.matchScore ?? distanceToSimilarity(face.distance ?? 0);
+      const capturedAt = new Date();
+      const { classification, minutes } = classifyCheckEvent(
+        capturedAt,
+        direction,
+        resolveScheduleForEmployee(employee, schedulesRef.current),
+        { entries: calendarRef.current, department: employee.department }
+      );
+      const baseMessage = direction === "check-out"
+        ? `${employee.fullName} เช็คเอาท์สำเร็จ!`
+        : `${employee.fullName} เช็คชื่อสำเร็จ!`;
+      setMatchResult({
+        employeeId: employee.id,
+        capturedAt: capturedAt.toISOString(),
+        snapshotDataUrl: "",
+        score: similarity,
+        threshold: getActiveMatchConfig().matchThreshold,
+        status: "matched",
+        message: classification === "unscheduled"
+          ? baseMessage
+          : `${baseMessage} (${describeClassification(classification, minutes)})`,
+        direction,
+      });
+
+      // Learning needs the head pose to file the entry under the right angle,
+      // and scores the crop the same way enrollment does
+      const eventKey = createIdempotencyKey();
+      const pose = landmarks ? classifyEnrollmentPose(landmarks) : null;
+      const angle = pose?.angle;
+      const quality = pose && videoRef.current
+        ? assessCaptureQuality(videoRef.current, face.boundingBox, { detectorConfidence: face.confidence, pose }).score
+        : undefined;
+      const recorded = await performCheckIn(employee, similarity, {
+        direction,
+        classification,
+        classificationMinutes: minutes || undefined,
+        livenessScore: face.livenessScore,
+        idempotencyKey: eventKey,
+        ...(angle && quality !== undefined && face.embedding && {
+          embeddingVector: face.embedding,
+          embeddingQuality: quality,
+          embeddingAngle: angle,
+        }),
+      });
+      if (recorded && angle && quality !== undefined) {
+        learnFromCheckIn(employee, face, { eventKey, angle, quality, similarity });
+      }
+
+      // Resume after cooldown
+      setTimeout(() => {
+        setPhase("detecting");
+        setDetectedEmployee(null);
+        setMatchResult(null);
+        consecutiveMatchesRef.current.clear();
+        setConsecutiveMatchCount(0);
+        
+        if (streamRef.current && videoRef.current) {
+          setIsDetecting(true);
+          isDetectionRunningRef.current = true;
+          scheduleNextDetection();
+        }
+      }, CHECK_IN_COOLDOWN_MS);
+    };
+
     try {
-      // Detect all faces
-      const faces = await detectMultipleFaces(videoRef.current);
+      // Challenge ran out of time - drop back to scanning
+      if (challengeRef.current?.session.isExpired()) {
+        challengeRef.current = null;
+        setChallenge(null);
+        setChallengeTimedOut(true);
+        setDetectedEmployee(null);
+        setPhase("detecting");
+        consecutiveMatchesRef.current.clear();
+        setConsecutiveMatchCount(0);
+        return;
+      }
+
+      // Detect all faces - off the main thread when the worker is available
+      const frame = await detectionClientRef.current?.detect(videoRef.current);
+      // Previous frame still in the detector - drop this one instead of queueing it
+      if (!frame) return;
+      const { faces, meshes } = frame;
       
       if (faces.length === 0) {
         setDetectedFaces([]);
         consecutiveMatchesRef.current.clear();
         setConsecutiveMatchCount(0);
+        livenessTrackerRef.current.reset();
+        setLivenessScore(0);
         return;
       }
 
-      // Get enrolled employees
-      const enrolledEmployees = employees.filter(
-        emp => emp.embeddings?.entries?.length || emp.embedding?.vector?.length
+      // Liveness per tracked face - a face without MediaPipe landmarks never passes
+      const liveness = livenessTrackerRef.current.update(
+        faces.map(face => ({
+          box: face.box,
+          landmarks: findMeshForBox(face.box, meshes)?.landmarks,
+        }))
       );
 
       // Match faces to employees
-      const matchedFaces = matchMultipleFaces(
-        faces,
-        enrolledEmployees.map(emp => ({
-          id: emp.id,
-          name: emp.fullName,
-          embeddings: emp.embeddings,
-          embedding: emp.embedding,
-        })),
-        FACE_MATCH_THRESHOLD
-      );
+      // Server mode: the roster has no face vectors, pgvector finds the best and runner-up
+      const matches = matchMode === "server"
+        ? await matchMultipleFacesRemote(faces, (embedding) =>
+            remoteMatcher.search(embedding, getActiveRecognizer().version)
+          )
+        : matchMultipleFaces(faces, faceIndexRef.current);
+      const matchedFaces = matches.map((face, idx) => ({
+        ...face,
+        livenessScore: liveness[idx]?.score,
+        isLive: liveness[idx]?.isLive,
+      }));
 
       setDetectedFaces(matchedFaces);
+      setLivenessScore(Math.max(0, ...liveness.map(l => l.score)));
+      logNearMisses(matchedFaces);
+
+      // Challenge in progress - only the challenged person's face counts. It is followed
+      // by box overlap: a face turned for the challenge often no longer matches.
+      const active = challengeRef.current;
+      if (active) {
+        const face = matchedFaces[findOverlappingBox(active.box, matchedFaces.map(f => f.boundingBox))];
+        // Someone else took the challenged face's place
+        if (!face || (face.employeeId && face.employeeId !== active.employee.id)) return;
+        active.box = face.boundingBox;
+        const landmarks = findMeshForBox(face.boundingBox, meshes)?.landmarks;
+        if (!landmarks) return;
+
+        const result = active.session.addFrame(landmarks);
+        if (result === "completed") {
+          challengeRef.current = null;
+          setChallenge(null);
+          // Learn from the last frame only if it still matched on its own -
+          // otherwise record the match that started the challenge
+          const matchedNow = face.employeeId === active.employee.id;
+          await finishCheckIn(
+            active.employee,
+            matchedNow ? face : active.face,
+            active.direction,
+            matchedNow ? landmarks : undefined
+          );
+        } else if (result === "step-passed" && active.session.currentChallenge) {
+          setChallenge({
+            prompt: active.session.currentChallenge,
+            step: active.session.currentStep + 1,
+            totalSteps: active.session.sequence.length,
+            expiresAt: active.session.stepExpiresAt,
+          });
+        }
+        return;
+      }
 
       // Check for check-ins (any face that matches and passes consecutive check)
       for (const face of matchedFaces) {
         if (!face.employeeId || !face.employeeName) continue;
+
+        const direction = checkMode === "auto"
+          ? resolveCheckDirection(lastScansRef.current.get(face.employeeId))
+          : checkMode;
         
         // Skip if in cooldown
-        if (isInCooldown(face.employeeId)) {
+        if (isInCooldown(face.employeeId, direction)) {
           setMatchInCooldown(true);
           continue;
         }
@@ -192,45 +583,39 @@ export const useFaceCheckViewModel = ({
         // Update UI for the best match
         setConsecutiveMatchCount(currentCount + 1);
 
-        // Check if enough consecutive matches
-        if (currentCount + 1 >= ACCURACY_CONFIG.CONSECUTIVE_MATCHES_REQUIRED) {
-          const employee = employees.find(e => e.id === face.employeeId);
-          if (employee) {
-            // Success! Perform check-in
-            stopDetection();
-            setDetectedEmployee(employee);
-            setPhase("matched");
-            
-            const similarity = face.matchScore ?? distanceToSimilarity(face.distance ?? 0);
-            setMatchResult({
-              employeeId: employee.id,
-              capturedAt: new Date().toISOString(),
-              snapshotDataUrl: "",
-              score: similarity,
-              threshold: FACE_MATCH_THRESHOLD,
-              status: "matched",
-              message: `${employee.fullName} เช็คชื่อสำเร็จ!`,
+        // Check if enough consecutive matches - and the face is not a photo/screen.
+        // Challenge mode proves liveness with the challenge itself.
+        const passesLiveness = livenessMode === "challenge"
+          || !ACCURACY_CONFIG.REQUIRE_LIVENESS
+          || face.isLive === true;
+        if (currentCount + 1 >= ACCURACY_CONFIG.CONSECUTIVE_MATCHES_REQUIRED && passesLiveness) {
+          const employee = employeesRef.current.find(e => e.id === face.employeeId);
+          if (!employee) continue;
+
+          if (livenessMode === "challenge") {
+            const session = new LivenessChallengeSession();
+            challengeRef.current = {
+              session,
+              employee,
+              direction,
+              face,
+              box: face.boundingBox,
+            };
+            setChallenge({
+              prompt: session.sequence[0],
+              step: 1,
+              totalSteps: session.sequence.length,
+              expiresAt: session.stepExpiresAt,
             });
-
-            await performCheckIn(employee, similarity);
-
-            // Resume after cooldown
-            setTimeout(() => {
-              setPhase("detecting");
-              setDetectedEmployee(null);
-              setMatchResult(null);
-              consecutiveMatchesRef.current.clear();
-              setConsecutiveMatchCount(0);
-              
-              if (streamRef.current && videoRef.current) {
-                setIsDetecting(true);
-                isDetectionRunningRef.current = true;
-                scheduleNextDetection();
-              }
-            }, CHECK_IN_COOLDOWN_MS);
-            
+            setChallengeTimedOut(false);
+            setDetectedEmployee(employee);
+            setPhase("challenge");
             return;
           }
+
+          // Success! Perform check-in
+          await finishCheckIn(employee, face, direction, findMeshForBox(face.boundingBox, meshes)?.landmarks);
+          return;
         }
       }
 
@@ -244,7 +629,7 @@ export const useFaceCheckViewModel = ({
     } catch (err) {
       console.error("Detection error:", err);
     }
-  }, [employees, isInCooldown, stopDetection, performCheckIn]);
+  }, [matchMode, remoteMatcher, checkMode, livenessMode, isInCooldown, stopDetection, performCheckIn, learnFromCheckIn, logNearMisses]);
 
   // Schedule next detection - continuous loop
   const scheduleNextDetection = useCallback(() => {
@@ -255,7 +640,7 @@ export const useFaceCheckViewModel = ({
       // Run detection without waiting - fire and forget for speed
       runDetection();
       scheduleNextDetection();
-    }, DETECTION_INTERVAL_MS);
+    }, getActiveRecognitionSettings().kiosk.detectionIntervalMs);
   }, [runDetection]);
 
   // Start detection
@@ -265,7 +650,8 @@ export const useFaceCheckViewModel = ({
       return;
     }
 
-    const enrolledCount = employees.filter(
+    // Server-matched rosters carry no vectors - enrollment is the server's concern
+    const enrolledCount = matchMode === "server" ? employees.length : employees.filter(
       emp => emp.embeddings?.entries?.length || emp.embedding?.vector?.length
     ).length;
     
@@ -283,7 +669,7 @@ export const useFaceCheckViewModel = ({
     consecutiveMatchesRef.current.clear();
 
     runDetection().then(() => scheduleNextDetection());
-  }, [employees, runDetection, scheduleNextDetection]);
+  }, [employees, matchMode, runDetection, scheduleNextDetection]);
 
   // Initialize camera
   const initializeCamera = useCallback(async () => {
@@ -325,39 +711,115 @@ export const useFaceCheckViewModel = ({
     }
   }, []);
 
-  // Load models
+  // Load models - in the detection worker when the browser supports it
   useEffect(() => {
+    let disposed = false;
     const loadModels = async () => {
       setPhase("loading-models");
-      const loaded = await initializeFaceDetection();
-      setModelsReady(loaded);
+      const { client, ready } = await createFaceDetectionClient(getActiveRecognitionSettings());
+      if (disposed) {
+        client.dispose();
+        return;
+      }
+      detectionClientRef.current = client;
+      setModelsReady(ready);
     };
     loadModels();
+    return () => {
+      disposed = true;
+      detectionClientRef.current?.dispose();
+      detectionClientRef.current = null;
+    };
   }, []);
 
+  // The worker keeps its own copy of the settings
+  useEffect(() => {
+    if (modelsReady) detectionClientRef.current?.configure(settings);
+  }, [settings, modelsReady]);
+
   // Load employees
   useEffect(() => {
     const loadEmployees = async () => {
       setIsLoadingEmployees(true);
       setPhase("loading-employees");
       try {
-        const data = await repository.listEmployees();
+        let data: Employee[];
+        let scheduleData: WorkSchedule[];
+        let settingsRecords: RecognitionSettingsRecord[];
+        let calendarData: CalendarEntry[];
+        try {
+          // Defaults are safe - missing settings must not stop the kiosk
+          settingsRecords = await repository.listRecognitionSettings().catch((): RecognitionSettingsRecord[] => []);
+          // Settings first: the match mode decides whether face templates are loaded
+          const mode = resolveRecognitionSettings(settingsRecords, kioskId).match.mode;
+          [data, scheduleData] = await Promise.all([
+            loadKioskRoster(repository, mode),
+            repository.listSchedules(),
+          ]);
+          // Today onwards - without it holidays are classified like normal days
+          calendarData = await repository
+            .listCalendarEntries({ from: toDateKey(new Date()) })
+            .catch((): CalendarEntry[] => []);
+          if (isOfflineStoreSupported()) {
+            saveKioskData({ employees: data, schedules: scheduleData, settings: settingsRecords, calendar: calendarData })
+              .catch(err => console.warn("Kiosk cache not saved:", err));
+          }
+        } catch (err) {
+          // Offline - fall back to the last roster this kiosk saw
+          const cached = isOfflineStoreSupported() ? await loadKioskData().catch(() => undefined) : undefined;
+          if (!cached) throw err;
+          data = cached.employees;
+          scheduleData = cached.schedules;
+          settingsRecords = cached.settings ?? [];
+          calendarData = cached.calendar ?? [];
+        }
+        setSettingsRecords(settingsRecords);
+        setMatchMode(resolveRecognitionSettings(settingsRecords, kioskId).match.mode);
         setEmployees(data);
+        setSchedules(scheduleData);
+        setCalendar(calendarData);
         
-        const events = await repository.listCheckInEvents(50);
-        const logs: CheckInLogEntry[] = events.map(event => {
+        // Queued events are not on the server yet but still count for direction and cooldown
+        const [events, todayEvents, queued] = await Promise.all([
+          repository.listCheckInEvents(50).catch((): FaceCheckEvent[] => []),
+          repository
+            .listCheckInEventsSince(zonedDateTime(toDateKey(new Date())).toISOString())
+            .catch((): FaceCheckEvent[] => []),
+          outbox.pending().catch(() => []),
+        ]);
+        const toLogEntry = (
+          id: string,
+          event: Pick<FaceCheckEvent, "employeeId" | "capturedAt" | "similarityScore" | "snapshot"> & {
+            direction?: FaceCheckDirection;
+          }
+        ): CheckInLogEntry => {
           const employee = data.find(e => e.id === event.employeeId);
           return {
-            id: event.id,
+            id,
             employeeId: event.employeeId,
             employeeName: employee?.fullName ?? "Unknown",
             avatarUrl: employee?.avatarUrl,
             timestamp: new Date(event.capturedAt),
             similarity: event.similarityScore,
+            direction: event.direction ?? "check-in",
             snapshotUrl: event.snapshot,
           };
-        });
+        };
+        const logs = [
+          ...queued.map(q => toLogEntry(`queued_${q.seq}`, q.payload)),
+          ...events.map(event => toLogEntry(event.id, event)),
+        ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
         setCheckInLogs(logs);
+        // Every employee's scans today, not just the recent log - the latest one wins
+        lastScansRef.current = new Map(
+          [...todayEvents, ...queued.map(q => q.payload)]
+            .filter(event => event.isMatch)
+            .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime())
+            .map(event => [
+              event.employeeId,
+              { direction: event.direction ?? "check-in", dateKey: toDateKey(event.capturedAt) },
+            ])
+        );
         setPhase("idle");
       } catch (err) {
         setError("ไม่สามารถโหลดข้อมูลได้");
@@ -368,16 +830,31 @@ export const useFaceCheckViewModel = ({
     };
 
     loadEmployees();
-    const unsubscribe = repository.subscribe(setEmployees);
-    return () => unsubscribe();
-  }, [repository]);
+  }, [repository, outbox, kioskId, setSettingsRecords]);
+
+  // Live roster changes, loaded the same way as the initial roster. Realtime only
+  // reaches staff sessions, so kiosk devices re-read the roster periodically too.
+  useEffect(() => {
+    if (!matchMode) return;
+    const refresh = () => {
+      loadKioskRoster(repository, matchMode)
+        .then(setEmployees)
+        .catch((err) => console.warn("Roster refresh failed:", err));
+    };
+    const unsubscribe = repository.subscribe(refresh, { includeEmbeddings: false });
+    const timer = setInterval(refresh, ROSTER_REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [repository, matchMode]);
 
   // Auto-start
   useEffect(() => {
     if (!autoStart || initStartedRef.current) return;
     if (!modelsReady || isLoadingEmployees || phase !== "idle") return;
 
-    const enrolledCount = employees.filter(
+    const enrolledCount = matchMode === "server" ? employees.length : employees.filter(
       emp => emp.embeddings?.entries?.length || emp.embedding?.vector?.length
     ).length;
 
@@ -390,7 +867,7 @@ export const useFaceCheckViewModel = ({
     };
 
     autoInit();
-  }, [autoStart, modelsReady, isLoadingEmployees, phase, employees, initializeCamera, startDetection]);
+  }, [autoStart, modelsReady, isLoadingEmployees, phase, employees, matchMode, initializeCamera, startDetection]);
 
   const getVideoDimensions = useCallback(() => {
     if (!videoRef.current) return { width: 640, height: 480 };
@@ -413,6 +890,13 @@ export const useFaceCheckViewModel = ({
       livenessScore,
       consecutiveMatchCount,
       matchInCooldown,
+      checkMode,
+      livenessMode,
+      challenge,
+      challengeTimedOut,
+      isOnline,
+      queuedCount,
+      deadLetterCount,
     },
     videoRef,
     matchResult,
@@ -447,8 +931,8 @@ export const useFaceCheckViewModel = ({
     },
   }), [
     employees, detectedEmployee, repository.kind, phase, isLoadingEmployees,
-    isDetecting, modelsReady, livenessScore, consecutiveMatchCount, matchInCooldown,
-    matchResult, error, detectedFaces, checkInLogs, getVideoDimensions,
+    isDetecting, modelsReady, livenessScore, consecutiveMatchCount, matchInCooldown, checkMode,
+    livenessMode, challenge, challengeTimedOut, isOnline, queuedCount, deadLetterCount, matchResult, error, detectedFaces, checkInLogs, getVideoDimensions,
     initializeCamera, startDetection, stopDetection, stopCamera,
   ]);
 };
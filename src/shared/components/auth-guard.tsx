@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, type ReactNode } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import type { AppRole } from "@/entities/auth";
+import { useCurrentUser } from "@/shared/hooks/use-current-user";
+import { hasRole, roleLabel } from "@/shared/lib/permissions";
+import { signOut } from "@/shared/services/auth-service";
+
+interface AuthGuardProps {
+  roles: readonly AppRole[];
+  children: ReactNode;
+}
+
+/**
+ * Renders children only for signed-in users with one of the given roles.
+ * Anonymous visitors are sent to /login and brought back afterwards.
+ */
+export const AuthGuard = ({ roles, children }: AuthGuardProps) => {
+  const { user, isLoading } = useCurrentUser();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [isLoading, user, router, pathname]);
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-white/20 border-t-white rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!hasRole(user.role, roles)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center px-4">
+        <div className="text-center space-y-4">
+          <div className="text-5xl">🔒</div>
+          <h1 className="text-xl font-bold text-white">ไม่มีสิทธิ์เข้าถึงหน้านี้</h1>
+          <p className="text-slate-400">
+            {user.email} ({user.role ? roleLabel[user.role] : "ยังไม่ได้กำหนดสิทธิ์"})
+          </p>
+          <Button variant="outline" onClick={() => signOut()}>
+            ออกจากระบบ
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
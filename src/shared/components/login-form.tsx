@@ -0,0 +1,89 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { AppRole } from "@/entities/auth";
+import { InlineError } from "@/shared/components/feedback/inline-error";
+import { signIn } from "@/shared/services/auth-service";
+
+// Where each role lands when there is no ?next= to return to
+const HOME_BY_ROLE: Record<AppRole, string> = {
+  admin: "/admin",
+  hr: "/history",
+  kiosk: "/kiosk",
+};
+
+interface LoginFormProps {
+  next?: string;
+}
+
+export const LoginForm = ({ next }: LoginFormProps) => {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const user = await signIn(email.trim(), password);
+      if (!user.role) {
+        setError("บัญชีนี้ยังไม่ได้รับสิทธิ์ กรุณาติดต่อผู้ดูแลระบบ");
+        return;
+      }
+      router.replace(next ?? HOME_BY_ROLE[user.role]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "ไม่สามารถเข้าสู่ระบบได้");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">เข้าสู่ระบบ</CardTitle>
+        <CardDescription>ผู้ดูแลระบบ ฝ่ายบุคคล หรือบัญชีเครื่อง Kiosk</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email" className="text-slate-300">อีเมล</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-slate-900 border-slate-600 text-white"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-slate-300">รหัสผ่าน</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="bg-slate-900 border-slate-600 text-white"
+              required
+            />
+          </div>
+          <InlineError message={error} />
+          <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isSubmitting}>
+            {isSubmitting ? "กำลังเข้าสู่ระบบ..." : "เข้าสู่ระบบ"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,36 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { useCurrentUser } from "@/shared/hooks/use-current-user";
+import { roleLabel } from "@/shared/lib/permissions";
+import { isAuthEnabled, signOut } from "@/shared/services/auth-service";
+
+export const UserMenu = () => {
+  const { user } = useCurrentUser();
+
+  if (!user || !isAuthEnabled()) return null;
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "ออกจากระบบไม่สำเร็จ");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="hidden md:block text-right">
+        <p className="text-xs text-slate-300">{user.email}</p>
+        {user.role && (
+          <Badge className="bg-slate-700 text-slate-300 text-[10px]">{roleLabel[user.role]}</Badge>
+        )}
+      </div>
+      <Button variant="ghost" size="sm" className="text-slate-400 hover:text-white" onClick={handleSignOut}>
+        ออกจากระบบ
+      </Button>
+    </div>
+  );
+};
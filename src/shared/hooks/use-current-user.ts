@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AuthUser } from "@/entities/auth";
+import { getCurrentUser, onAuthChange } from "@/shared/services/auth-service";
+
+export const useCurrentUser = () => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCurrentUser().then((current) => {
+      if (cancelled) return;
+      setUser(current);
+      setIsLoading(false);
+    });
+    const unsubscribe = onAuthChange(setUser);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return { user, isLoading };
+};
@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { RecognitionSettingsRecord } from "@/entities/settings";
+import { applyRecognitionSettings, resolveRecognitionSettings } from "@/shared/lib/recognition-settings";
+import type { EmployeeRepository } from "@/shared/repositories/employee-repository";
+
+interface UseRecognitionSettingsOptions {
+  kioskId?: string;
+  // Kiosks pass false and seed the records with their roster (offline cache)
+  autoLoad?: boolean;
+}
+
+/**
+ * Load the settings layers, follow live changes and apply the effective settings
+ */
+export const useRecognitionSettings = (
+  repository: EmployeeRepository,
+  { kioskId, autoLoad = true }: UseRecognitionSettingsOptions = {}
+) => {
+  const [records, setRecords] = useState<RecognitionSettingsRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(autoLoad);
+  const settings = useMemo(() => resolveRecognitionSettings(records, kioskId), [records, kioskId]);
+
+  useEffect(() => {
+    applyRecognitionSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (autoLoad) {
+      repository
+        .listRecognitionSettings()
+        .then((loaded) => {
+          if (!cancelled) setRecords(loaded);
+        })
+        // Defaults are safe - missing settings must not stop recognition
+        .catch((err) => console.warn("Recognition settings not loaded:", err))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    }
+    const unsubscribe = repository.subscribeToRecognitionSettings(setRecords);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, autoLoad]);
+
+  return { settings, records, setRecords, isLoading };
+};
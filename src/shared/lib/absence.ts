@@ -0,0 +1,70 @@
+import type { CalendarEntry } from "@/entities/calendar";
+import type { Employee, FaceCheckEvent } from "@/entities/employee";
+import type { AbsencePayload, WorkSchedule } from "@/entities/schedule";
+import { isWorkingDay } from "./calendar";
+import { addDays, zonedDateTime } from "./datetime";
+import { parseTimeOfDay, resolveScheduleForEmployee } from "./schedule";
+
+/**
+ * Instant a day is judged at: "HH:MM" company time on that day if given,
+ * otherwise the end of the day - or now, while the day is still running
+ */
+export const resolveAbsenceCutoff = (date: string, cutoff?: string, now: Date = new Date()): Date => {
+  if (cutoff) return zonedDateTime(date, cutoff);
+  return new Date(Math.min(zonedDateTime(addDays(date, 1)).getTime(), now.getTime()));
+};
+
+/**
+ * Scans that can clear an absence - from the start of the day up to the cutoff
+ */
+export const absenceQueryWindow = (date: string, cutoff: Date) => ({
+  from: zonedDateTime(date).toISOString(),
+  to: cutoff.toISOString(),
+});
+
+export interface AbsenceDetectionInput {
+  date: string; // YYYY-MM-DD
+  cutoff: Date;
+  employees: Employee[];
+  schedules: WorkSchedule[];
+  events: FaceCheckEvent[]; // Scans of the day, any order
+  calendar?: CalendarEntry[]; // Holidays, closures and make-up working days
+}
+
+/**
+ * Employees expected at work on the day who have no matched scan before the
+ * cutoff. Expected means: a schedule applies, the day is a working day for the
+ * employee's department (calendar first, then the schedule's work days), and
+ * the shift start plus grace has passed by the cutoff.
+ * Employees without any schedule are never marked absent.
+ */
+export const detectAbsences = ({
+  date,
+  cutoff,
+  employees,
+  schedules,
+  events,
+  calendar = [],
+}: AbsenceDetectionInput): AbsencePayload[] => {
+  const dayStart = zonedDateTime(date);
+  const present = new Set(
+    events
+      .filter((event) => {
+        const time = new Date(event.capturedAt).getTime();
+        return event.isMatch && time >= dayStart.getTime() && time < cutoff.getTime();
+      })
+      .map((event) => event.employeeId)
+  );
+
+  return employees.flatMap((employee) => {
+    const schedule = resolveScheduleForEmployee(employee, schedules);
+    if (!schedule || present.has(employee.id)) return [];
+    if (!isWorkingDay(date, schedule, calendar, employee.department)) return [];
+
+    // Still within the grace period - only late so far, not absent
+    const expectedBy = dayStart.getTime() + (parseTimeOfDay(schedule.startTime) + schedule.graceMinutes) * 60000;
+    if (cutoff.getTime() <= expectedBy) return [];
+
+    return [{ employeeId: employee.id, date, scheduleId: schedule.id, cutoff: cutoff.toISOString() }];
+  });
+};
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { AppRole } from "@/entities/auth";
+import { hasRole, parseRole } from "@/shared/lib/permissions";
+import { createSupabaseClientForToken, hasSupabaseConfig } from "@/shared/services/supabase-client";
+import {
+  RejectedEventError,
+  createEmployeeRepository,
+  createEmployeeRepositoryForClient,
+  type EmployeeRepository,
+} from "@/shared/repositories/employee-repository";
+import { PermissionDeniedError } from "@/shared/repositories/authorized-repository";
+
+export const jsonError = (status: number, message: string, details?: unknown) =>
+  NextResponse.json(
+    { error: message, ...(details !== undefined && { details }) },
+    { status },
+  );
+
+/**
+ * Parse and validate a JSON request body. Returns a 400 response on failure.
+ */
+export const parseJsonBody = async <T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): Promise<{ data: z.infer<T>; response?: never } | { data?: never; response: NextResponse }> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: jsonError(400, "รูปแบบ JSON ไม่ถูกต้อง") };
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return {
+      response: jsonError(
+        400,
+        "ข้อมูลไม่ถูกต้อง",
+        result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      ),
+    };
+  }
+  return { data: result.data };
+};
+
+// Known refusals keep a 4xx status. Anything else is logged and answered
+// generically - database error text is not for integrators.
+export const handleRouteError = (err: unknown) => {
+  if (err instanceof PermissionDeniedError) return jsonError(403, err.message);
+  if (err instanceof RejectedEventError) return jsonError(422, "ข้อมูลเหตุการณ์ไม่ถูกต้อง");
+  console.error("API error:", err);
+  return jsonError(500, "เกิดข้อผิดพลาดในระบบ");
+};
+
+/**
+ * Resolve the caller from `Authorization: Bearer <supabase access token>` and
+ * return a repository scoped to them with their role. Returns 401/403 responses otherwise.
+ */
+export const authorizeRequest = async (
+  request: Request,
+  allowed: readonly AppRole[],
+): Promise<
+  | { repository: EmployeeRepository; role?: AppRole; response?: never }
+  | { repository?: never; role?: never; response: NextResponse }
+> => {
+  // In-memory demo mode has no users to check against - no role either
+  if (!hasSupabaseConfig()) {
+    return { repository: createEmployeeRepository() };
+  }
+
+  const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  const client = token ? createSupabaseClientForToken(token) : null;
+  if (!token || !client) {
+    return { response: jsonError(401, "กรุณาเข้าสู่ระบบ") };
+  }
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    return { response: jsonError(401, "เซสชันหมดอายุ กรุณาเข้าสู่ระบบใหม่") };
+  }
+
+  const role = parseRole(data.user.app_metadata?.role);
+  if (!role || !hasRole(role, allowed)) {
+    return { response: jsonError(403, "ไม่มีสิทธิ์ดำเนินการนี้") };
+  }
+
+  return { repository: createEmployeeRepositoryForClient(client, role), role };
+};
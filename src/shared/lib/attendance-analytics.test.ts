@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import type { Employee, FaceCheckEvent } from "@/entities/employee";
+import { buildAttendanceAnalytics } from "./attendance-analytics";
+
+const range = { from: "2026-03-02", to: "2026-03-04" };
+
+let eventSeq = 0;
+const event = (overrides: Partial<FaceCheckEvent> & Pick<FaceCheckEvent, "employeeId" | "capturedAt">): FaceCheckEvent => ({
+  id: `evt_${++eventSeq}`,
+  similarityScore: 0.9,
+  isMatch: true,
+  direction: "check-in",
+  createdAt: overrides.capturedAt,
+  ...overrides,
+});
+
+const employee = (id: string, overrides: Partial<Employee> = {}): Employee => ({
+  id,
+  fullName: id,
+  email: `${id}@example.com`,
+  role: "Employee",
+  ...overrides,
+});
+
+const enrolledAt = (createdAt: string): Pick<Employee, "embeddings"> => ({
+  embeddings: {
+    version: "faceapi-v1",
+    entries: [{ vector: [0.1, 0.2], angle: "front", createdAt }],
+    createdAt,
+    updatedAt: createdAt,
+    source: "camera",
+  },
+});
+
+describe("buildAttendanceAnalytics", () => {
+  it("buckets scans by the Bangkok day and hour, not UTC", () => {
+    // 18:30 UTC on 1 March is 01:30 on 2 March in Bangkok
+    const analytics = buildAttendanceAnalytics(
+      [event({ employeeId: "emp_a", capturedAt: "2026-03-01T18:30:00.000Z" })],
+      [employee("emp_a")],
+      range
+    );
+
+    expect(analytics.headcount.map(({ date, present }) => ({ date, present }))).toEqual([
+      { date: "2026-03-02", present: 1 },
+      { date: "2026-03-03", present: 0 },
+      { date: "2026-03-04", present: 0 },
+    ]);
+    expect(analytics.arrivals[1].count).toBe(1);
+    expect(analytics.totals.scans).toBe(1);
+  });
+
+  it("ignores scans outside the range after converting to Bangkok time", () => {
+    // 17:30 UTC on 4 March is already 5 March in Bangkok
+    const analytics = buildAttendanceAnalytics(
+      [event({ employeeId: "emp_a", capturedAt: "2026-03-04T17:30:00.000Z" })],
+      [employee("emp_a")],
+      range
+    );
+
+    expect(analytics.totals.scans).toBe(0);
+  });
+
+  it("counts only the first check-in of each employee-day as an arrival", () => {
+    const analytics = buildAttendanceAnalytics(
+      [
+        // Passed out of order - the earliest one must win
+        event({ employeeId: "emp_a", capturedAt: "2026-03-02T03:00:00.000Z", classification: "late", classificationMinutes: 60 }),
+        event({ employeeId: "emp_a", capturedAt: "2026-03-02T01:00:00.000Z", classification: "on-time" }),
+        event({ employeeId: "emp_a", capturedAt: "2026-03-02T10:00:00.000Z", direction: "check-out" }),
+        event({ employeeId: "emp_a", capturedAt: "2026-03-03T02:30:00.000Z", classification: "late", classificationMinutes: 30 }),
+      ],
+      [employee("emp_a", { department: "HR" })],
+      range
+    );
+
+    const arrivals = analytics.arrivals.filter(({ count }) => count > 0);
+    expect(arrivals).toEqual([
+      { hour: 8, count: 1 },
+      { hour: 9, count: 1 },
+    ]);
+    expect(analytics.lateness).toEqual([
+      { department: "HR", arrivals: 2, late: 1, averageLateMinutes: 30 },
+    ]);
+    expect(analytics.totals.lateRate).toBe(0.5);
+  });
+
+  it("leaves unscheduled and unclassified arrivals out of lateness", () => {
+    const analytics = buildAttendanceAnalytics(
+      [
+        event({ employeeId: "emp_a", capturedAt: "2026-03-02T01:00:00.000Z", classification: "unscheduled" }),
+        event({ employeeId: "emp_b", capturedAt: "2026-03-02T01:00:00.000Z" }),
+        event({ employeeId: "emp_c", capturedAt: "2026-03-02T02:15:00.000Z", classification: "late", classificationMinutes: 15 }),
+      ],
+      [employee("emp_a", { department: "Ops" }), employee("emp_b", { department: "Ops" }), employee("emp_c")],
+      range
+    );
+
+    expect(analytics.lateness).toEqual([
+      { department: null, arrivals: 1, late: 1, averageLateMinutes: 15 },
+    ]);
+    expect(analytics.totals.lateRate).toBe(1);
+    // Still arrivals for the histogram
+    expect(analytics.arrivals[8].count).toBe(2);
+  });
+
+  it("reports no late rate when no arrival was classified", () => {
+    const analytics = buildAttendanceAnalytics(
+      [event({ employeeId: "emp_a", capturedAt: "2026-03-02T01:00:00.000Z", classification: "unscheduled" })],
+      [employee("emp_a")],
+      range
+    );
+
+    expect(analytics.lateness).toEqual([]);
+    expect(analytics.totals.lateRate).toBeNull();
+  });
+
+  it("counts employees as enrolled from the Bangkok day their template was created", () => {
+    const analytics = buildAttendanceAnalytics(
+      [],
+      [
+        employee("emp_a", enrolledAt("2026-02-20T09:00:00.000Z")),
+        // 20:00 UTC on 2 March is 3 March in Bangkok
+        employee("emp_b", enrolledAt("2026-03-02T20:00:00.000Z")),
+        employee("emp_c", {
+          embedding: { version: "faceapi-v1", vector: [0.3], createdAt: "2026-03-04T01:00:00.000Z", source: "camera" },
+        }),
+        employee("emp_d"),
+        // Roster-only read: no vectors, just the enrollment instant
+        employee("emp_e", { enrolledAt: "2026-03-03T16:59:00+00:00" }),
+      ],
+      range
+    );
+
+    expect(analytics.headcount.map(({ date, enrolled }) => ({ date, enrolled }))).toEqual([
+      { date: "2026-03-02", enrolled: 1 },
+      { date: "2026-03-03", enrolled: 3 },
+      { date: "2026-03-04", enrolled: 4 },
+    ]);
+  });
+
+  it("groups scans without a kiosk id under null and skips rejected scans", () => {
+    const analytics = buildAttendanceAnalytics(
+      [
+        event({ employeeId: "emp_a", capturedAt: "2026-03-02T01:00:00.000Z", kioskId: "lobby" }),
+        event({ employeeId: "emp_b", capturedAt: "2026-03-02T01:05:00.000Z" }),
+        event({ employeeId: "emp_c", capturedAt: "2026-03-02T01:10:00.000Z" }),
+        event({ employeeId: "emp_d", capturedAt: "2026-03-02T01:15:00.000Z", kioskId: "lobby", isMatch: false }),
+      ],
+      [employee("emp_a"), employee("emp_b"), employee("emp_c")],
+      range
+    );
+
+    expect(analytics.kiosks).toEqual([
+      { kioskId: null, scans: 2 },
+      { kioskId: "lobby", scans: 1 },
+    ]);
+    expect(analytics.totals).toMatchObject({ scans: 3, employees: 3 });
+  });
+});
@@ -0,0 +1,177 @@
+import type { Employee, FaceCheckEvent } from "@/entities/employee";
+import { addDays, getZonedParts, toDateKey, zonedDateTime } from "./datetime";
+import { getEnrolledAt } from "./embedding-gallery";
+
+export interface AnalyticsRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface DailyHeadcount {
+  date: string;
+  present: number; // Employees with at least one matched scan
+  enrolled: number; // Employees whose face was enrolled by the end of the day
+}
+
+export interface ArrivalBucket {
+  hour: number; // 0-23, company time (APP_TIME_ZONE)
+  count: number; // First check-ins of an employee-day in this hour
+}
+
+export interface DepartmentLateness {
+  department: string | null; // null = no department
+  arrivals: number; // Classified first check-ins (unscheduled arrivals are left out)
+  late: number;
+  averageLateMinutes: number; // Over late arrivals only
+}
+
+export interface DailySimilarity {
+  date: string;
+  scans: number;
+  average: number | null; // null on days without scans
+}
+
+export interface KioskVolume {
+  kioskId: string | null; // null = scans recorded before kiosks were tagged, or from the API
+  scans: number;
+}
+
+export interface AttendanceAnalytics {
+  headcount: DailyHeadcount[];
+  arrivals: ArrivalBucket[];
+  lateness: DepartmentLateness[];
+  similarity: DailySimilarity[];
+  kiosks: KioskVolume[];
+  totals: {
+    scans: number;
+    employees: number; // Distinct employees seen in the range
+    lateRate: number | null; // Late share of classified arrivals
+  };
+}
+
+/**
+ * Instants to load for a range - whole days, scans are counted on the day they were taken
+ */
+export const analyticsQueryWindow = ({ from, to }: AnalyticsRange) => ({
+  from: zonedDateTime(from).toISOString(),
+  to: zonedDateTime(addDays(to, 1)).toISOString(),
+});
+
+/**
+ * The last `days` days up to and including `today`
+ */
+export const lastDaysRange = (days: number, today: Date = new Date()): AnalyticsRange => ({
+  from: addDays(toDateKey(today), -(days - 1)),
+  to: toDateKey(today),
+});
+
+// Every YYYY-MM-DD from `from` to `to`
+const eachDateKey = ({ from, to }: AnalyticsRange) => {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+// Date the employee's current templates were first enrolled, if any
+const enrolledOn = (employee: Employee): string | undefined => {
+  const enrolledAt = getEnrolledAt(employee);
+  return enrolledAt ? toDateKey(enrolledAt) : undefined;
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * Dashboard aggregates for a range. Only matched scans count - rejected scans
+ * carry a guessed employee at best. Scans outside the range are ignored, so the
+ * caller may pass a wider window.
+ */
+export const buildAttendanceAnalytics = (
+  events: FaceCheckEvent[],
+  employees: Employee[],
+  range: AnalyticsRange
+): AttendanceAnalytics => {
+  const dates = eachDateKey(range);
+  const scans = events
+    .filter((event) => event.isMatch)
+    .map((event) => ({ event, date: toDateKey(event.capturedAt) }))
+    .filter(({ date }) => date >= range.from && date <= range.to)
+    .sort((a, b) => a.event.capturedAt.localeCompare(b.event.capturedAt));
+
+  const presentByDate = new Map<string, Set<string>>();
+  const similarityByDate = new Map<string, number[]>();
+  const firstCheckIns = new Map<string, FaceCheckEvent>(); // employeeId|date -> earliest check-in
+  const kioskScans = new Map<string | null, number>();
+
+  for (const { event, date } of scans) {
+    if (!presentByDate.has(date)) presentByDate.set(date, new Set());
+    presentByDate.get(date)!.add(event.employeeId);
+
+    if (!similarityByDate.has(date)) similarityByDate.set(date, []);
+    similarityByDate.get(date)!.push(event.similarityScore);
+
+    const key = `${event.employeeId}|${date}`;
+    if (event.direction === "check-in" && !firstCheckIns.has(key)) firstCheckIns.set(key, event);
+
+    const kioskId = event.kioskId ?? null;
+    kioskScans.set(kioskId, (kioskScans.get(kioskId) ?? 0) + 1);
+  }
+
+  const enrollmentDates = employees.map(enrolledOn).filter((date): date is string => !!date);
+  const headcount = dates.map((date) => ({
+    date,
+    present: presentByDate.get(date)?.size ?? 0,
+    enrolled: enrollmentDates.filter((enrolled) => enrolled <= date).length,
+  }));
+
+  const arrivals: ArrivalBucket[] = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+  for (const checkIn of firstCheckIns.values()) {
+    arrivals[getZonedParts(checkIn.capturedAt).hour].count++;
+  }
+
+  const departmentOf = new Map(employees.map((employee) => [employee.id, employee.department ?? null]));
+  const latenessByDepartment = new Map<string | null, { arrivals: number; lateMinutes: number[] }>();
+  for (const checkIn of firstCheckIns.values()) {
+    if (!checkIn.classification || checkIn.classification === "unscheduled") continue;
+    const department = departmentOf.get(checkIn.employeeId) ?? null;
+    const entry = latenessByDepartment.get(department) ?? { arrivals: 0, lateMinutes: [] };
+    entry.arrivals++;
+    if (checkIn.classification === "late") entry.lateMinutes.push(checkIn.classificationMinutes ?? 0);
+    latenessByDepartment.set(department, entry);
+  }
+  const lateness = [...latenessByDepartment.entries()]
+    .map(([department, { arrivals: count, lateMinutes }]) => ({
+      department,
+      arrivals: count,
+      late: lateMinutes.length,
+      averageLateMinutes: average(lateMinutes) ?? 0,
+    }))
+    .sort((a, b) => b.late / b.arrivals - a.late / a.arrivals || (a.department ?? "").localeCompare(b.department ?? "", "th"));
+
+  const similarity = dates.map((date) => {
+    const scores = similarityByDate.get(date) ?? [];
+    return { date, scans: scores.length, average: average(scores) };
+  });
+
+  const kiosks = [...kioskScans.entries()]
+    .map(([kioskId, count]) => ({ kioskId, scans: count }))
+    .sort((a, b) => b.scans - a.scans);
+
+  const classifiedArrivals = lateness.reduce((sum, entry) => sum + entry.arrivals, 0);
+  return {
+    headcount,
+    arrivals,
+    lateness,
+    similarity,
+    kiosks,
+    totals: {
+      scans: scans.length,
+      employees: new Set(scans.map(({ event }) => event.employeeId)).size,
+      lateRate: classifiedArrivals > 0
+        ? lateness.reduce((sum, entry) => sum + entry.late, 0) / classifiedArrivals
+        : null,
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import type { AttendanceSession, FaceCheckDirection, FaceCheckEvent } from "@/entities/employee";
+import { addDays, toDateKey, zonedDateTime } from "./datetime";
+
+// A check-out further than this from the open check-in starts a new session
+export const MAX_SESSION_MS = 18 * 60 * 60 * 1000;
+
+const closeSession = (session: AttendanceSession): AttendanceSession => {
+  if (!session.checkIn || !session.checkOut) return session;
+  return {
+    ...session,
+    workedMs:
+      new Date(session.checkOut.capturedAt).getTime() - new Date(session.checkIn.capturedAt).getTime(),
+  };
+};
+
+/**
+ * Pair check-in/check-out events into attendance sessions.
+ * A check-in opens a session, the following check-out closes it. Repeated
+ * check-outs extend the session so the last departure wins.
+ * Returns sessions newest first.
+ */
+export const pairAttendanceSessions = (events: FaceCheckEvent[]): AttendanceSession[] => {
+  const sorted = events
+    .filter((event) => event.isMatch)
+    .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime());
+
+  const sessions: AttendanceSession[] = [];
+  const lastSessionByEmployee = new Map<string, AttendanceSession>();
+
+  for (const event of sorted) {
+    const previous = lastSessionByEmployee.get(event.employeeId);
+    const sessionStart = previous?.checkIn?.capturedAt ?? previous?.checkOut?.capturedAt;
+    const withinWindow = sessionStart
+      ? new Date(event.capturedAt).getTime() - new Date(sessionStart).getTime() <= MAX_SESSION_MS
+      : false;
+
+    if (event.direction === "check-out" && previous?.checkIn && withinWindow) {
+      previous.checkOut = event;
+      continue;
+    }
+
+    const session: AttendanceSession = {
+      id: `session_${event.id}`,
+      employeeId: event.employeeId,
+      date: toDateKey(event.capturedAt),
+      checkIn: event.direction === "check-in" ? event : undefined,
+      checkOut: event.direction === "check-out" ? event : undefined,
+    };
+    sessions.push(session);
+    lastSessionByEmployee.set(event.employeeId, session);
+  }
+
+  return sessions.map(closeSession).reverse();
+};
+
+/**
+ * Decide the direction of a kiosk scan from the employee's last scan: the first
+ * scan of the day is a check-in, any later scan on the same day is a check-out.
+ */
+export const resolveCheckDirection = (
+  lastScan: { dateKey: string } | undefined,
+  now: Date = new Date()
+): FaceCheckDirection => (lastScan?.dateKey === toDateKey(now) ? "check-out" : "check-in");
+
+/**
+ * Start time of a session (check-in if present, otherwise the orphan check-out)
+ */
+export const getSessionStart = (session: AttendanceSession): string =>
+  session.checkIn?.capturedAt ?? session.checkOut?.capturedAt ?? "";
+
+/**
+ * Instants to load so every session starting on the days [fromDate, toDate]
+ * pairs exactly as it would over the full history: one session length early so
+ * a check-out of the evening before is not read as a new session, and one
+ * session length after the last day for overnight check-outs.
+ */
+export const attendanceQueryWindow = (fromDate: string, toDate: string) => ({
+  from: new Date(zonedDateTime(fromDate).getTime() - MAX_SESSION_MS).toISOString(),
+  to: new Date(zonedDateTime(addDays(toDate, 1)).getTime() + MAX_SESSION_MS).toISOString(),
+});
@@ -0,0 +1,92 @@
+import type { CalendarEntry, CalendarEntryKind, CreateCalendarEntryInput } from "@/entities/calendar";
+import type { Weekday, WorkSchedule } from "@/entities/schedule";
+import { weekdayOfDateKey } from "./datetime";
+import { createIcsCalendar, parseIcsCalendar } from "./ical";
+
+export const CALENDAR_KINDS: CalendarEntryKind[] = ["public-holiday", "company-closure", "working-day"];
+
+export const calendarKindLabel: Record<CalendarEntryKind, string> = {
+  "public-holiday": "วันหยุดนักขัตฤกษ์",
+  "company-closure": "วันหยุดบริษัท",
+  "working-day": "วันทำงานพิเศษ",
+};
+
+// Custom property carrying the department through an .ics round trip
+const DEPARTMENT_PROPERTY = "X-FACECHECK-DEPARTMENT";
+
+/**
+ * Entry that applies to a department on a day - a department entry wins over a company-wide one
+ */
+export const findCalendarEntry = (
+  entries: CalendarEntry[],
+  date: string,
+  department?: string
+): CalendarEntry | undefined =>
+  entries.find((entry) => entry.date === date && !!department && entry.department === department) ??
+  entries.find((entry) => entry.date === date && !entry.department);
+
+/**
+ * Whether a day is a working day under a schedule: calendar entries first,
+ * then the schedule's weekly work days. Without a schedule nobody is expected.
+ */
+export const isWorkingDay = (
+  date: string,
+  schedule: WorkSchedule | null,
+  entries: CalendarEntry[] = [],
+  department?: string
+): boolean => {
+  if (!schedule) return false;
+  const entry = findCalendarEntry(entries, date, department);
+  if (entry) return entry.kind === "working-day";
+  return schedule.workDays.includes(weekdayOfDateKey(date) as Weekday);
+};
+
+const entryKey = (entry: Pick<CalendarEntry, "date" | "department">) => `${entry.date}|${entry.department ?? ""}`;
+
+/**
+ * Drop imported days the calendar already has for the same department, and repeats within the import
+ */
+export const withoutExistingEntries = (
+  existing: CalendarEntry[],
+  imported: CreateCalendarEntryInput[]
+): CreateCalendarEntryInput[] => {
+  const seen = new Set(existing.map(entryKey));
+  return imported.filter((entry) => {
+    const key = entryKey(entry);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const calendarToIcs = (entries: CalendarEntry[], name = "ปฏิทินวันทำงาน"): string =>
+  createIcsCalendar({
+    name,
+    events: entries.map((entry) => ({
+      uid: `${entry.id}@face-check`,
+      date: entry.date,
+      summary: entry.name,
+      categories: [entry.kind],
+      properties: entry.department ? { [DEPARTMENT_PROPERTY]: entry.department } : undefined,
+    })),
+  });
+
+/**
+ * Calendar entries from an .ics file. Events without one of our kinds in
+ * CATEGORIES (e.g. a public holiday feed) get `defaultKind`.
+ */
+export const calendarFromIcs = (
+  text: string,
+  defaultKind: CalendarEntryKind = "public-holiday"
+): { entries: CreateCalendarEntryInput[]; skipped: number } => {
+  const { calendar, skipped } = parseIcsCalendar(text);
+  return {
+    entries: calendar.events.map((event) => ({
+      date: event.date,
+      name: event.summary || calendarKindLabel[defaultKind],
+      kind: CALENDAR_KINDS.find((kind) => event.categories?.includes(kind)) ?? defaultKind,
+      department: event.properties?.[DEPARTMENT_PROPERTY] || undefined,
+    })),
+    skipped,
+  };
+};
@@ -0,0 +1,185 @@
+import type { Employee, NearMissEvent } from "@/entities/employee";
+import { euclideanDistance } from "./math";
+
+export type CalibrationSource = "enrollment" | "check-in" | "near-miss";
+
+// Threshold calibration settings
+export const CALIBRATION_CONFIG = {
+  THRESHOLD_RANGE: { MIN: 0.2, MAX: 0.8, STEP: 0.01 },
+  TARGET_FAR: 0.001, // Suggested threshold keeps impostor acceptance at or below 0.1%
+  MAX_GAP_REJECT_RATE: 0.05, // Suggested gap may hold back at most 5% of genuine matches
+  MIN_SCORES: 20, // Fewer genuine or impostor scores than this is too little to trust
+};
+
+export interface CalibrationSample {
+  vector: number[];
+  employeeId: string | null; // null = reviewed near miss that was someone else
+  source: CalibrationSource;
+  entryIndex?: number; // Position in the owner's gallery - left out when scoring
+}
+
+// One sample compared against one employee's gallery, as the kiosk would
+export interface LabelledScore {
+  distance: number;
+  genuine: boolean;
+  source: CalibrationSource;
+}
+
+export interface CalibrationData {
+  scores: LabelledScore[];
+  gaps: number[]; // Genuine samples: closest other employee minus own distance
+  sampleCounts: Record<CalibrationSource, number>;
+  genuineCount: number;
+  impostorCount: number;
+}
+
+export interface ErrorRatePoint {
+  threshold: number;
+  far: number; // Impostor scores accepted
+  frr: number; // Genuine scores rejected
+}
+
+/**
+ * Labelled samples: every gallery entry (enrollment photos and entries learned
+ * from check-ins) plus near misses an admin has reviewed
+ */
+export const collectCalibrationSamples = (
+  employees: Employee[],
+  nearMisses: NearMissEvent[]
+): CalibrationSample[] => {
+  const samples: CalibrationSample[] = [];
+
+  for (const employee of employees) {
+    (employee.embeddings?.entries ?? []).forEach((entry, entryIndex) => {
+      samples.push({
+        vector: entry.vector,
+        employeeId: employee.id,
+        source: entry.source === "learned" ? "check-in" : "enrollment",
+        entryIndex,
+      });
+    });
+  }
+
+  for (const event of nearMisses) {
+    if (!event.reviewedAt || !event.descriptor?.length) continue;
+    samples.push({
+      vector: event.descriptor,
+      employeeId: event.resolvedEmployeeId ?? null,
+      source: "near-miss",
+    });
+  }
+
+  return samples;
+};
+
+/**
+ * Score every sample against every gallery (leave-one-out for the sample's own entry)
+ */
+export const scoreCalibrationSamples = (
+  samples: CalibrationSample[],
+  employees: Employee[]
+): CalibrationData => {
+  const galleries = employees
+    .map((employee) => ({ id: employee.id, vectors: (employee.embeddings?.entries ?? []).map((e) => e.vector) }))
+    .filter((gallery) => gallery.vectors.length > 0);
+
+  const scores: LabelledScore[] = [];
+  const gaps: number[] = [];
+  const sampleCounts: Record<CalibrationSource, number> = { enrollment: 0, "check-in": 0, "near-miss": 0 };
+
+  for (const sample of samples) {
+    let ownDistance: number | null = null;
+    let closestOther = Infinity;
+
+    for (const gallery of galleries) {
+      const isOwn = gallery.id === sample.employeeId;
+      let distance = Infinity;
+      gallery.vectors.forEach((vector, index) => {
+        if (isOwn && index === sample.entryIndex) return;
+        distance = Math.min(distance, euclideanDistance(sample.vector, vector));
+      });
+      if (distance === Infinity) continue;
+
+      scores.push({ distance, genuine: isOwn, source: sample.source });
+      if (isOwn) ownDistance = distance;
+      else closestOther = Math.min(closestOther, distance);
+    }
+
+    sampleCounts[sample.source]++;
+    if (ownDistance !== null && closestOther < Infinity) {
+      gaps.push(closestOther - ownDistance);
+    }
+  }
+
+  const genuineCount = scores.filter((s) => s.genuine).length;
+  return { scores, gaps, sampleCounts, genuineCount, impostorCount: scores.length - genuineCount };
+};
+
+/**
+ * FAR/FRR at each threshold in the configured range
+ */
+export const computeErrorRates = (
+  scores: LabelledScore[],
+  range = CALIBRATION_CONFIG.THRESHOLD_RANGE
+): ErrorRatePoint[] => {
+  const genuine = scores.filter((s) => s.genuine).map((s) => s.distance);
+  const impostor = scores.filter((s) => !s.genuine).map((s) => s.distance);
+  const points: ErrorRatePoint[] = [];
+
+  const steps = Math.round((range.MAX - range.MIN) / range.STEP);
+  for (let i = 0; i <= steps; i++) {
+    const threshold = Math.round((range.MIN + i * range.STEP) * 1000) / 1000;
+    points.push({
+      threshold,
+      far: impostor.length ? impostor.filter((d) => d <= threshold).length / impostor.length : 0,
+      frr: genuine.length ? genuine.filter((d) => d > threshold).length / genuine.length : 0,
+    });
+  }
+
+  return points;
+};
+
+/**
+ * Point where FAR and FRR are closest
+ */
+export const findEqualErrorRate = (points: ErrorRatePoint[]): ErrorRatePoint | null =>
+  points.reduce<ErrorRatePoint | null>(
+    (best, point) => (!best || Math.abs(point.far - point.frr) < Math.abs(best.far - best.frr) ? point : best),
+    null
+  );
+
+/**
+ * Loosest threshold that keeps FAR at or below the target
+ */
+export const suggestThreshold = (
+  points: ErrorRatePoint[],
+  targetFar = CALIBRATION_CONFIG.TARGET_FAR
+): ErrorRatePoint | null => {
+  const safe = points.filter((point) => point.far <= targetFar);
+  return safe.length ? safe[safe.length - 1] : points[0] ?? null;
+};
+
+/**
+ * Share of genuine matches a gap would hold back as ambiguous
+ */
+export const gapRejectRate = (gaps: number[], minGap: number): number =>
+  gaps.length ? gaps.filter((gap) => gap < minGap).length / gaps.length : 0;
+
+/**
+ * Largest gap that holds back at most MAX_GAP_REJECT_RATE of genuine matches
+ */
+export const suggestConfidenceGap = (
+  gaps: number[],
+  maxRejectRate = CALIBRATION_CONFIG.MAX_GAP_REJECT_RATE
+): number | null => {
+  if (!gaps.length) return null;
+  const sorted = [...gaps].sort((a, b) => a - b);
+  const index = Math.floor(sorted.length * maxRejectRate);
+  return Math.max(0, Math.floor(sorted[index] * 100) / 100);
+};
+
+/**
+ * Error rates at an arbitrary threshold (for the current and the chosen value)
+ */
+export const errorRatesAt = (scores: LabelledScore[], threshold: number): ErrorRatePoint =>
+  computeErrorRates(scores, { MIN: threshold, MAX: threshold, STEP: 1 })[0];
@@ -18,3 +18,99 @@ export const formatRelativeTime = (isoDate?: string) => {
   const diffDays = Math.round(diffHours / 24);
   return `${diffDays} วันที่แล้ว`;
 };
+
+// Attendance days, shift times and holidays are all on company wall-clock time,
+// whatever the time zone of the server or the browser
+export const APP_TIME_ZONE = "Asia/Bangkok";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const zonedFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: APP_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  weekday: "short",
+  hourCycle: "h23",
+});
+
+export interface ZonedParts {
+  dateKey: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Calendar fields of an instant in APP_TIME_ZONE
+ */
+export const getZonedParts = (isoDate: string | Date): ZonedParts => {
+  const date = typeof isoDate === "string" ? new Date(isoDate) : isoDate;
+  const parts = Object.fromEntries(zonedFormatter.formatToParts(date).map((part) => [part.type, part.value]));
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+/**
+ * Calendar day key (YYYY-MM-DD) in APP_TIME_ZONE, used to bucket events by date
+ */
+export const toDateKey = (isoDate: string | Date) => getZonedParts(isoDate).dateKey;
+
+/**
+ * Minutes since midnight in APP_TIME_ZONE
+ */
+export const getZonedMinuteOfDay = (isoDate: string | Date) => {
+  const { hour, minute } = getZonedParts(isoDate);
+  return hour * 60 + minute;
+};
+
+// How far APP_TIME_ZONE is ahead of UTC at an instant
+const zoneOffsetMs = (time: number) => {
+  const { dateKey, hour, minute, second } = getZonedParts(new Date(time));
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * Instant of a wall-clock time ("HH:MM", default midnight) on a day in APP_TIME_ZONE
+ */
+export const zonedDateTime = (dateKey: string, time = "00:00"): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallTime = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  // Second pass picks up an offset change between the guess and the answer
+  const guess = wallTime - zoneOffsetMs(wallTime);
+  return new Date(wallTime - zoneOffsetMs(guess));
+};
+
+/**
+ * Day key `days` calendar days away - plain date arithmetic, no time zone involved
+ */
+export const addDays = (dateKey: string, days: number) =>
+  new Date(Date.parse(`${dateKey}T00:00:00.000Z`) + days * DAY_MS).toISOString().split("T")[0];
+
+/**
+ * Weekday of a day key, 0 = Sunday
+ */
+export const weekdayOfDateKey = (dateKey: string) => new Date(`${dateKey}T00:00:00.000Z`).getUTCDay();
+
+export const formatDuration = (durationMs?: number) => {
+  if (durationMs === undefined || durationMs < 0) return "–";
+  const totalMinutes = Math.round(durationMs / (60 * 1000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes} นาที`;
+  if (minutes === 0) return `${hours} ชม.`;
+  return `${hours} ชม. ${minutes} นาที`;
+};
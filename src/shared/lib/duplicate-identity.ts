@@ -0,0 +1,80 @@
+"use client";
+
+import type { Employee, FaceEmbeddingEntry } from "@/entities/employee";
+import { compareFaces, distanceToSimilarity, getActiveMatchConfig, hasCompatibleEmbedding } from "./face-embedding";
+
+// Checks run before an enrollment is saved, relative to the active match threshold:
+// most new photos within the threshold blocks (same person), any photo within
+// threshold + WARN_MARGIN warns (possible lookalike)
+export const DUPLICATE_IDENTITY_CONFIG = {
+  WARN_MARGIN: 0.05,
+};
+
+export type IdentityConflictSeverity = "block" | "warn";
+
+export interface IdentityConflict {
+  employee: Employee;
+  severity: IdentityConflictSeverity;
+  medianDistance: number;
+  closestDistance: number;
+  similarity: number;
+  matchedEntries: number; // New photos within the match threshold
+}
+
+const galleryOf = (employee: Employee): number[][] => {
+  if (!hasCompatibleEmbedding(employee)) return [];
+  const entries = employee.embeddings?.entries ?? [];
+  if (entries.length) return entries.map((entry) => entry.vector);
+  return employee.embedding?.vector?.length ? [employee.embedding.vector] : [];
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Compare a new gallery against every other enrolled employee.
+ * The kiosk matches on the closest entry, so each new photo is scored by its
+ * nearest neighbour in the other gallery.
+ */
+export const findIdentityConflicts = (
+  entries: FaceEmbeddingEntry[],
+  employees: Employee[],
+  excludeEmployeeId?: string
+): IdentityConflict[] => {
+  if (!entries.length) return [];
+  const blockDistance = getActiveMatchConfig().matchThreshold;
+  const warnDistance = blockDistance + DUPLICATE_IDENTITY_CONFIG.WARN_MARGIN;
+  const conflicts: IdentityConflict[] = [];
+
+  for (const employee of employees) {
+    if (employee.id === excludeEmployeeId) continue;
+    const gallery = galleryOf(employee);
+    if (!gallery.length) continue;
+
+    const nearest = entries.map((entry) =>
+      Math.min(...gallery.map((vector) => compareFaces(entry.vector, vector)))
+    );
+    const medianDistance = median(nearest);
+    const closestDistance = Math.min(...nearest);
+
+    const severity: IdentityConflictSeverity | null =
+      medianDistance <= blockDistance ? "block"
+      : closestDistance <= warnDistance ? "warn"
+      : null;
+    if (!severity) continue;
+
+    conflicts.push({
+      employee,
+      severity,
+      medianDistance,
+      closestDistance,
+      similarity: distanceToSimilarity(medianDistance),
+      matchedEntries: nearest.filter((distance) => distance <= blockDistance).length,
+    });
+  }
+
+  return conflicts.sort((a, b) => a.medianDistance - b.medianDistance);
+};
@@ -0,0 +1,139 @@
+import type { Employee, FaceAngle, FaceEmbeddingEntry, FaceEmbeddings, GalleryReplacementStrategy } from "@/entities/employee";
+import { euclideanDistance } from "./math";
+
+export const FACE_ANGLES: FaceAngle[] = ["front", "slight-left", "slight-right", "left", "right"];
+
+export interface GalleryReplacementOptions {
+  strategy: GalleryReplacementStrategy;
+  replaceThreshold: number;
+  minPerAngle: number;
+}
+
+export interface AngleCoverage {
+  angle: FaceAngle;
+  count: number;
+  target: number;
+  bestQuality?: number;
+  isCovered: boolean;
+}
+
+// Enrollment entries are the identity anchors - only learned ones may be dropped
+const isReplaceable = (entry: FaceEmbeddingEntry) => entry.source === "learned";
+
+const countByAngle = (entries: FaceEmbeddingEntry[]) => {
+  const counts = Object.fromEntries(FACE_ANGLES.map((angle) => [angle, 0])) as Record<FaceAngle, number>;
+  for (const entry of entries) {
+    counts[entry.angle] = (counts[entry.angle] ?? 0) + 1;
+  }
+  return counts;
+};
+
+const selectLowestQuality = (
+  entries: FaceEmbeddingEntry[],
+  newEntry: FaceEmbeddingEntry,
+  replaceThreshold: number
+): number => {
+  let lowestIdx = -1;
+  let lowestQuality = Infinity;
+  for (let i = 0; i < entries.length; i++) {
+    if (!isReplaceable(entries[i])) continue;
+    const q = entries[i].quality ?? 0.5;
+    if (q < lowestQuality) {
+      lowestQuality = q;
+      lowestIdx = i;
+    }
+  }
+  const newQuality = newEntry.quality ?? 0.5;
+  return lowestIdx >= 0 && newQuality > lowestQuality + replaceThreshold ? lowestIdx : -1;
+};
+
+/**
+ * Drop whichever entry (existing or new) sits closest to its nearest
+ * neighbour - it adds the least information. Descriptor distance also
+ * separates lighting conditions, so near-identical frames go first.
+ */
+const selectMostRedundant = (
+  entries: FaceEmbeddingEntry[],
+  newEntry: FaceEmbeddingEntry,
+  minPerAngle: number
+): number => {
+  const pool = [...entries, newEntry];
+  const counts = countByAngle(pool);
+  const newIdx = entries.length;
+
+  let chosenIdx = -1;
+  let chosenDistance = Infinity;
+  let chosenQuality = Infinity;
+
+  for (let i = 0; i < pool.length; i++) {
+    const entry = pool[i];
+    if (i !== newIdx && !isReplaceable(entry)) continue;
+    // Keep a minimum number of entries for every angle
+    if (counts[entry.angle] - 1 < minPerAngle) continue;
+
+    let nearest = Infinity;
+    for (let j = 0; j < pool.length; j++) {
+      if (i === j) continue;
+      nearest = Math.min(nearest, euclideanDistance(entry.vector, pool[j].vector));
+    }
+
+    const quality = entry.quality ?? 0.5;
+    if (nearest < chosenDistance || (nearest === chosenDistance && quality < chosenQuality)) {
+      chosenIdx = i;
+      chosenDistance = nearest;
+      chosenQuality = quality;
+    }
+  }
+
+  return chosenIdx === newIdx ? -1 : chosenIdx;
+};
+
+/**
+ * Index of the entry the new one should replace in a full gallery, or -1 to keep it unchanged
+ */
+export const selectEntryToReplace = (
+  entries: FaceEmbeddingEntry[],
+  newEntry: FaceEmbeddingEntry,
+  options: GalleryReplacementOptions
+): number =>
+  options.strategy === "diversity"
+    ? selectMostRedundant(entries, newEntry, options.minPerAngle)
+    : selectLowestQuality(entries, newEntry, options.replaceThreshold);
+
+/**
+ * When the employee's current template was created - the roster field when the
+ * vectors were not loaded, else the template itself. undefined = not enrolled.
+ */
+export const getEnrolledAt = (employee: Employee): string | undefined => {
+  if (employee.enrolledAt) return employee.enrolledAt;
+  if (employee.embeddings?.entries.length) return employee.embeddings.createdAt;
+  if (employee.embedding?.vector.length) return employee.embedding.createdAt;
+  return undefined;
+};
+
+/**
+ * Template without the enrollment photos - kiosks only need the vectors
+ */
+export const withoutEnrollmentPhotos = (embeddings: FaceEmbeddings | undefined): FaceEmbeddings | undefined =>
+  embeddings && {
+    ...embeddings,
+    entries: embeddings.entries.map((entry) => ({ ...entry, imageDataUrl: undefined })),
+  };
+
+/**
+ * Entries per angle against the minimum the diversity strategy protects
+ */
+export const getAngleCoverage = (entries: FaceEmbeddingEntry[], target: number): AngleCoverage[] =>
+  FACE_ANGLES.map((angle) => {
+    const angleEntries = entries.filter((entry) => entry.angle === angle);
+    const qualities = angleEntries
+      .map((entry) => entry.quality)
+      .filter((q): q is number => q !== undefined);
+    return {
+      angle,
+      count: angleEntries.length,
+      target,
+      bestQuality: qualities.length ? Math.max(...qualities) : undefined,
+      isCovered: angleEntries.length >= target,
+    };
+  });
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { Employee, FaceEmbeddingEntry } from "@/entities/employee";
+import { assessEmbeddingMigration } from "./embedding-migration";
+import type { FaceRecognizer } from "./face-recognizer";
+
+const recognizer: FaceRecognizer = {
+  backend: "faceapi",
+  version: "faceapi-v1",
+  load: async () => true,
+  isLoaded: () => true,
+  detect: async () => [],
+  embed: async () => [],
+  compare: () => 0,
+  embedImage: async () => null,
+};
+
+const employeeWith = (imageSize?: number): Employee => {
+  const now = "2026-01-01T00:00:00.000Z";
+  const entries: FaceEmbeddingEntry[] = Array.from({ length: 3 }, () => ({
+    vector: [1, 0, 0],
+    angle: "front",
+    createdAt: now,
+    imageDataUrl: "data:image/jpeg;base64,",
+    imageSize,
+    source: "enrollment",
+  }));
+  return {
+    id: "emp_1",
+    fullName: "สมชาย ใจดี",
+    email: "somchai@example.com",
+    role: "staff",
+    embeddings: { version: "landmarks-v1", entries, createdAt: now, updatedAt: now, source: "camera" },
+  };
+};
+
+describe("assessEmbeddingMigration", () => {
+  it("re-embeds full-size enrollment photos", () => {
+    const status = assessEmbeddingMigration(employeeWith(224), [], recognizer);
+    expect(status).toMatchObject({ state: "pending", photoCount: 3 });
+  });
+
+  it("flags employees with only 96px thumbnails for re-enrollment", () => {
+    const status = assessEmbeddingMigration(employeeWith(), [], recognizer);
+    expect(status).toMatchObject({ state: "needs-reenrollment", photoCount: 0 });
+  });
+});
@@ -0,0 +1,182 @@
+"use client";
+
+import type {
+  EmbeddingMigrationPayload,
+  EmbeddingMigrationReason,
+  EmbeddingMigrationRecord,
+  Employee,
+  FaceEmbeddingEntry,
+  FaceEmbeddingVersion,
+  FaceEmbeddings,
+} from "@/entities/employee";
+import { computeAverageEmbedding, embeddingVersionOf } from "./face-embedding";
+import type { FaceRecognizer } from "./face-recognizer";
+
+export const EMBEDDING_MIGRATION_CONFIG = {
+  MIN_RECOMPUTED_ENTRIES: 3, // Fewer usable photos than this - ask for a new enrollment instead
+  MIN_PHOTO_SIZE: 180, // Recognizer input (150px) plus margin - 96px thumbnails can't rebuild a template
+};
+
+// Where an employee stands against the active embedding version
+// - current: template already made by the active version
+// - pending: stale, but the enrollment photos can re-compute it
+// - needs-reenrollment: stale and can't be re-computed (or an attempt already failed)
+export type EmbeddingMigrationState = "current" | "pending" | "needs-reenrollment" | "not-enrolled";
+
+export interface EmployeeMigrationStatus {
+  employee: Employee;
+  state: EmbeddingMigrationState;
+  version: FaceEmbeddingVersion | null;
+  photoCount: number; // Enrollment photos large enough to re-embed
+  record?: EmbeddingMigrationRecord; // Last attempt for the active version
+}
+
+export interface EmbeddingMigrationSummary extends Record<EmbeddingMigrationState, number> {
+  enrolled: number;
+  progress: number; // 0-1 share of enrolled employees on the active version
+}
+
+export interface EmbeddingMigrationResult {
+  payload: EmbeddingMigrationPayload;
+  embeddings?: FaceEmbeddings; // Only set when the migration succeeded
+}
+
+/**
+ * Enrollment entries with a full-size photo - learned entries never stored one,
+ * and older enrollments only kept a thumbnail
+ */
+const enrollmentPhotos = (employee: Employee): FaceEmbeddingEntry[] =>
+  (employee.embeddings?.entries ?? []).filter(
+    (entry) =>
+      entry.source !== "learned" &&
+      entry.imageDataUrl &&
+      (entry.imageSize ?? 0) >= EMBEDDING_MIGRATION_CONFIG.MIN_PHOTO_SIZE
+  );
+
+/**
+ * Decode a stored enrollment photo. Thumbnails are saved mirrored like the
+ * camera preview, so they are flipped back to match what the recognizer saw.
+ */
+const loadEnrollmentPhoto = (dataUrl: string): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas 2D context not available"));
+        return;
+      }
+      context.scale(-1, 1);
+      context.drawImage(image, -canvas.width, 0, canvas.width, canvas.height);
+      resolve(canvas);
+    };
+    image.onerror = () => reject(new Error("Failed to decode enrollment photo"));
+    image.src = dataUrl;
+  });
+
+/**
+ * Compare an employee's template with the recognizer's embedding version
+ */
+export const assessEmbeddingMigration = (
+  employee: Employee,
+  records: EmbeddingMigrationRecord[],
+  recognizer: FaceRecognizer
+): EmployeeMigrationStatus => {
+  const version = embeddingVersionOf(employee);
+  const photoCount = enrollmentPhotos(employee).length;
+  const record = records.find(
+    (r) => r.employeeId === employee.id && r.targetVersion === recognizer.version
+  );
+  const status = { employee, version, photoCount, record };
+
+  if (!version) return { ...status, state: "not-enrolled" };
+  if (version === recognizer.version) return { ...status, state: "current" };
+  const canRecompute =
+    recognizer.embedImage !== undefined &&
+    photoCount >= EMBEDDING_MIGRATION_CONFIG.MIN_RECOMPUTED_ENTRIES &&
+    record?.status !== "needs-reenrollment";
+  return { ...status, state: canRecompute ? "pending" : "needs-reenrollment" };
+};
+
+/**
+ * Counts per state and overall progress
+ */
+export const summarizeEmbeddingMigration = (statuses: EmployeeMigrationStatus[]): EmbeddingMigrationSummary => {
+  const summary: EmbeddingMigrationSummary = {
+    current: 0,
+    pending: 0,
+    "needs-reenrollment": 0,
+    "not-enrolled": 0,
+    enrolled: 0,
+    progress: 1,
+  };
+  for (const status of statuses) summary[status.state]++;
+  summary.enrolled = statuses.length - summary["not-enrolled"];
+  if (summary.enrolled > 0) summary.progress = summary.current / summary.enrolled;
+  return summary;
+};
+
+/**
+ * Re-compute a stale template from its enrollment photos.
+ * Photos are embedded one at a time to keep memory flat on kiosk-class devices.
+ * Without enough usable photos the result flags the employee for re-enrollment.
+ */
+export const migrateEmbeddings = async (
+  employee: Employee,
+  recognizer: FaceRecognizer
+): Promise<EmbeddingMigrationResult> => {
+  const previousEntries = employee.embeddings?.entries ?? [];
+  const photos = enrollmentPhotos(employee);
+  const entries: FaceEmbeddingEntry[] = [];
+
+  if (recognizer.embedImage) {
+    if (!recognizer.isLoaded() && !(await recognizer.load())) {
+      throw new Error("Recognizer models failed to load");
+    }
+    for (const photo of photos) {
+      try {
+        const image = await loadEnrollmentPhoto(photo.imageDataUrl!);
+        if (Math.min(image.width, image.height) < EMBEDDING_MIGRATION_CONFIG.MIN_PHOTO_SIZE) continue;
+        const vector = await recognizer.embedImage(image);
+        if (vector) entries.push({ ...photo, vector });
+      } catch (err) {
+        console.warn("Skipping enrollment photo:", err);
+      }
+    }
+  }
+
+  const reason: EmbeddingMigrationReason | undefined = !recognizer.embedImage
+    ? "unsupported-backend"
+    : !photos.length
+      ? "no-photos"
+      : entries.length < EMBEDDING_MIGRATION_CONFIG.MIN_RECOMPUTED_ENTRIES
+        ? "too-few-faces"
+        : undefined;
+
+  const payload: EmbeddingMigrationPayload = {
+    employeeId: employee.id,
+    fromVersion: embeddingVersionOf(employee),
+    targetVersion: recognizer.version,
+    status: reason ? "needs-reenrollment" : "migrated",
+    reason,
+    recomputedCount: entries.length,
+    skippedCount: Math.max(previousEntries.length, employee.embedding ? 1 : 0) - entries.length,
+  };
+  if (reason) return { payload };
+
+  const now = new Date().toISOString();
+  return {
+    payload,
+    embeddings: {
+      version: recognizer.version,
+      entries,
+      averageVector: computeAverageEmbedding(entries.map((entry) => entry.vector)),
+      createdAt: employee.embeddings?.createdAt ?? now,
+      updatedAt: now,
+      source: employee.embeddings?.source ?? "camera",
+    },
+  };
+};
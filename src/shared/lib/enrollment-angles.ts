@@ -0,0 +1,51 @@
+"use client";
+
+import type { FaceAngle } from "@/entities/employee";
+import { FACE_ANGLES } from "./embedding-gallery";
+import { classifyFaceAngle, estimateHeadPose, type MediaPipeLandmark } from "./mediapipe-face-detection";
+
+// Enrollment fills one slot per angle, in this order
+export const ENROLLMENT_ANGLES: FaceAngle[] = FACE_ANGLES;
+
+export const ENROLLMENT_POSE_CONFIG = {
+  MAX_TILT_DEG: 25, // Reject captures with the head nodded too far up or down
+};
+
+export const enrollmentAngleGuide: Record<FaceAngle, { label: string; icon: string; instruction: string }> = {
+  front: { label: "หน้าตรง", icon: "👁️", instruction: "มองตรงเข้าหากล้อง" },
+  "slight-left": { label: "เฉียงซ้าย", icon: "↖️", instruction: "หันหน้าไปทางซ้ายเล็กน้อย" },
+  "slight-right": { label: "เฉียงขวา", icon: "↗️", instruction: "หันหน้าไปทางขวาเล็กน้อย" },
+  left: { label: "ซ้าย", icon: "⬅️", instruction: "หันหน้าไปทางซ้ายให้มากขึ้น" },
+  right: { label: "ขวา", icon: "➡️", instruction: "หันหน้าไปทางขวาให้มากขึ้น" },
+};
+
+export interface EnrollmentPose {
+  angle: FaceAngle;
+  yaw: number;
+  tilt: number;
+  isLevel: boolean;
+}
+
+/**
+ * Classify a capture into an angle slot from MediaPipe landmarks
+ */
+export const classifyEnrollmentPose = (landmarks: MediaPipeLandmark[]): EnrollmentPose | null => {
+  if (landmarks.length < 468) return null;
+
+  const { yaw, pitch } = estimateHeadPose(landmarks);
+  // estimateHeadPose reports about ±90° pitch when looking straight ahead
+  const tilt = 90 - Math.abs(pitch);
+
+  return {
+    angle: classifyFaceAngle(yaw),
+    yaw,
+    tilt,
+    isLevel: tilt <= ENROLLMENT_POSE_CONFIG.MAX_TILT_DEG,
+  };
+};
+
+/**
+ * First enrollment slot that has not been captured yet
+ */
+export const nextMissingAngle = (captured: FaceAngle[]): FaceAngle | null =>
+  ENROLLMENT_ANGLES.find((angle) => !captured.includes(angle)) ?? null;
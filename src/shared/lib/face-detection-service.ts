@@ -9,6 +9,26 @@ export interface FaceBox {
   height: number;
 }
 
+// Frame sources the detectors accept - the detection worker reads OffscreenCanvas frames
+export type FaceInput = HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * Pixel size of a frame source
+ */
+export const getInputSize = (input: FaceInput): { width: number; height: number } =>
+  "videoWidth" in input
+    ? { width: input.videoWidth, height: input.videoHeight }
+    : { width: input.width, height: input.height };
+
+/**
+ * Videos need a decoded frame - canvases always have one
+ */
+export const isInputReady = (input: FaceInput): boolean =>
+  !("readyState" in input) || input.readyState >= 2;
+
+// face-api.js types predate OffscreenCanvas - it works once the worker sets up the env
+const toNetInput = (input: FaceInput | HTMLImageElement) => input as faceapi.TNetInput;
+
 export interface DetectionResult {
   box: FaceBox;
   score: number;
@@ -23,6 +43,28 @@ let modelLoadError: string | null = null;
 
 const MODEL_URL = "/models";
 
+/**
+ * face-api.js only knows the DOM and Node.js - point it at OffscreenCanvas inside a worker
+ */
+export const setupFaceApiWorkerEnv = () => {
+  class NotAvailable {} // Workers have no image or video elements
+  faceapi.env.setEnv({
+    Canvas: OffscreenCanvas,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+    Image: NotAvailable,
+    ImageData,
+    Video: NotAvailable,
+    createCanvasElement: () => new OffscreenCanvas(1, 1),
+    createImageElement: () => {
+      throw new Error("Image elements are not available in a worker");
+    },
+    fetch: (url: string, init?: RequestInit) => fetch(url, init),
+    readFile: () => {
+      throw new Error("readFile is not available in a worker");
+    },
+  } as unknown as Parameters<typeof faceapi.env.setEnv>[0]);
+};
+
 /**
  * Load face-api.js models
  * Models need to be placed in public/models folder
@@ -87,7 +129,7 @@ export const DETECTION_CONFIG = {
  * Detect faces using SSD MobileNet (MORE ACCURATE) with descriptors
  */
 export const detectFaces = async (
-  video: HTMLVideoElement
+  input: FaceInput
 ): Promise<DetectionResult[]> => {
   if (!modelsLoaded) {
     const loaded = await loadFaceDetectionModels();
@@ -97,7 +139,7 @@ export const detectFaces = async (
   try {
     // Use SSD MobileNet - more accurate, fewer false positives
     const detections = await faceapi
-      .detectAllFaces(video, new faceapi.SsdMobilenetv1Options({ 
+      .detectAllFaces(toNetInput(input), new faceapi.SsdMobilenetv1Options({ 
         minConfidence: DETECTION_CONFIG.SSD_MIN_CONFIDENCE 
       }))
       .withFaceLandmarks()
@@ -127,7 +169,7 @@ export const detectFaces = async (
  * Detect faces using Tiny Face Detector (faster, for real-time overlay)
  */
 export const detectFacesFast = async (
-  video: HTMLVideoElement
+  input: FaceInput
 ): Promise<DetectionResult[]> => {
   if (!modelsLoaded) {
     const loaded = await loadFaceDetectionModels();
@@ -136,7 +178,7 @@ export const detectFacesFast = async (
 
   try {
     const detections = await faceapi.detectAllFaces(
-      video,
+      toNetInput(input),
       new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.5 })
     );
 
@@ -159,7 +201,7 @@ export const detectFacesFast = async (
  * Detect single face with full descriptor (for enrollment/matching)
  */
 export const detectSingleFaceWithDescriptor = async (
-  input: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement,
+  input: FaceInput | HTMLImageElement,
   options?: { minConfidence?: number }
 ): Promise<DetectionResult | null> => {
   if (!modelsLoaded) {
@@ -171,7 +213,7 @@ export const detectSingleFaceWithDescriptor = async (
 
   try {
     const detection = await faceapi
-      .detectSingleFace(input, new faceapi.SsdMobilenetv1Options({ minConfidence }))
+      .detectSingleFace(toNetInput(input), new faceapi.SsdMobilenetv1Options({ minConfidence }))
       .withFaceLandmarks()
       .withFaceDescriptor();
 
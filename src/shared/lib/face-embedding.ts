@@ -1,16 +1,16 @@
 "use client";
 
-import {
-  loadFaceDetectionModels,
-  areModelsLoaded,
-  detectSingleFaceWithDescriptor,
-  detectFaces,
-  detectFacesFast,
-  compareFaceDescriptors,
-  descriptorToArray,
-  DETECTION_CONFIG,
-} from "./face-detection-service";
-import type { FaceAngle, FaceEmbeddings, FaceEmbeddingEntry } from "@/entities/employee";
+import { DETECTION_CONFIG, isInputReady, type FaceInput } from "./face-detection-service";
+import { getActiveRecognizer } from "./face-recognizer";
+import { selectEntryToReplace } from "./embedding-gallery";
+import type { FaceVectorIndex, VectorIndexMatch } from "./face-vector-index";
+import type {
+  FaceEmbeddingVersion,
+  FaceEmbeddings,
+  FaceEmbeddingEntry,
+  GalleryReplacementStrategy,
+  MatchConfig,
+} from "@/entities/employee";
 
 export interface FaceBoundingBox {
   x: number;
@@ -35,10 +35,18 @@ export interface DetectedFace {
   employeeId?: string;
   matchScore?: number;
   distance?: number;
+  livenessScore?: number; // 0-1 from LivenessDetector
+  isLive?: boolean;
+  embedding?: number[]; // Descriptor that produced the match or near miss (learning, calibration)
+  confidenceGap?: number; // Runner-up distance minus best distance
+  runnerUpDistance?: number;
+  isAmbiguous?: boolean; // Within threshold but too close to a second employee - not matched
+  candidates?: Array<{ employeeId: string; employeeName: string; distance: number }>; // Best and runner-up when ambiguous
 }
 
 // Face match threshold for euclidean distance (lower = stricter)
 // 0.35 is VERY strict - only matches if faces are very similar
+// Default only - recognition_settings replaces it at runtime (applyRecognitionSettings)
 export const FACE_MATCH_THRESHOLD = 0.35;
 
 // Accuracy config - HIGH SECURITY
@@ -49,6 +57,28 @@ export const ACCURACY_CONFIG = {
   CONSECUTIVE_MATCHES_REQUIRED: 3,
   // Minimum detection confidence
   MIN_DETECTION_CONFIDENCE: 0.6,
+  // Face must pass the liveness check (blink/movement/depth/pose) before check-in
+  REQUIRE_LIVENESS: true,
+};
+
+let activeMatchConfig: MatchConfig = {
+  matchThreshold: FACE_MATCH_THRESHOLD,
+  minConfidenceGap: ACCURACY_CONFIG.MIN_CONFIDENCE_GAP,
+};
+
+/**
+ * Threshold and gap currently used for matching
+ */
+export const getActiveMatchConfig = (): MatchConfig => activeMatchConfig;
+
+/**
+ * Use a configured threshold and gap (null restores the defaults)
+ */
+export const applyMatchConfig = (config: MatchConfig | null) => {
+  activeMatchConfig = config ?? {
+    matchThreshold: FACE_MATCH_THRESHOLD,
+    minConfidenceGap: ACCURACY_CONFIG.MIN_CONFIDENCE_GAP,
+  };
 };
 
 const assertBrowser = () => {
@@ -70,17 +100,17 @@ const createWorkingCanvas = (width: number, height: number) => {
 };
 
 /**
- * Initialize face detection models (face-api.js only)
+ * Initialize the active recognizer's models
  */
 export const initializeFaceDetection = async (): Promise<boolean> => {
-  return loadFaceDetectionModels();
+  return getActiveRecognizer().load();
 };
 
 /**
  * Check if face detection is ready
  */
 export const isFaceDetectionReady = (): boolean => {
-  return areModelsLoaded();
+  return getActiveRecognizer().isLoaded();
 };
 
 /**
@@ -106,13 +136,15 @@ export const captureEmbeddingFromVideoAsync = async (
   context.restore();
   const dataUrl = canvas.toDataURL("image/jpeg", jpegQuality);
 
-  // Detect face using face-api.js
-  const detection = await detectSingleFaceWithDescriptor(video);
+  // Largest confident face from the active recognizer
+  const detection = (await getActiveRecognizer().embed(video))
+    .filter((d) => d.embedding?.length && d.score >= DETECTION_CONFIG.MIN_CONFIDENCE)
+    .sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height)[0];
 
-  if (detection && detection.descriptor) {
+  if (detection?.embedding) {
     return {
       dataUrl,
-      embedding: descriptorToArray(detection.descriptor),
+      embedding: detection.embedding,
       faceDetected: true,
       boundingBox: detection.box,
       confidence: detection.score,
@@ -126,6 +158,30 @@ export const captureEmbeddingFromVideoAsync = async (
   };
 };
 
+// Enrollment photos are kept large enough to re-embed when the embedding version changes
+export const ENROLLMENT_PHOTO_SIZE = 224;
+
+/**
+ * Small mirrored JPEG of the face region, stored with enrollment entries
+ */
+export const cropFaceThumbnail = (
+  video: HTMLVideoElement,
+  box: FaceBoundingBox,
+  size = 96,
+  jpegQuality = 0.8
+): string => {
+  const { canvas, context } = createWorkingCanvas(size, size);
+  // Square crop with some margin around the detection box
+  const side = Math.max(box.width, box.height) * 1.2;
+  const sx = box.x + box.width / 2 - side / 2;
+  const sy = box.y + box.height / 2 - side / 2;
+  context.save();
+  context.scale(-1, 1);
+  context.drawImage(video, sx, sy, side, side, -size, 0, size, size);
+  context.restore();
+  return canvas.toDataURL("image/jpeg", jpegQuality);
+};
+
 // Cache for stable face tracking - only extract descriptors for faces that persist
 interface TrackedFace {
   box: FaceBoundingBox;
@@ -134,6 +190,7 @@ interface TrackedFace {
   lastEmbeddingTime: number;
 }
 const trackedFacesCache = new Map<string, TrackedFace>();
+let trackedVersion: FaceEmbeddingVersion | null = null; // Cached embeddings belong to this version
 const EMBEDDING_REFRESH_MS = 500; // Only re-extract embedding every 500ms per face
 const MIN_FRAMES_FOR_EMBEDDING = 2; // Need 2 frames before extracting embedding
 
@@ -156,17 +213,22 @@ const boxesOverlap = (a: FaceBoundingBox, b: FaceBoundingBox): boolean => {
 
 /**
  * Detect multiple faces in video (OPTIMIZED for kiosk)
- * Uses TinyFaceDetector for fast box detection, only extracts descriptors for stable faces
+ * Uses the recognizer's fast box detection, only extracts embeddings for stable faces
  */
 export const detectMultipleFaces = async (
-  video: HTMLVideoElement
+  input: FaceInput
 ): Promise<Array<{ box: FaceBoundingBox; score: number; embedding: number[] }>> => {
-  if (!video || video.readyState < 2) return [];
+  if (!input || !isInputReady(input)) return [];
 
   const now = Date.now();
+  const recognizer = getActiveRecognizer();
+  if (trackedVersion !== recognizer.version) {
+    trackedFacesCache.clear();
+    trackedVersion = recognizer.version;
+  }
 
-  // Step 1: Fast detection for all face boxes (TinyFaceDetector ~15ms)
-  const fastDetections = await detectFacesFast(video);
+  // Step 1: Fast detection for all face boxes (e.g. TinyFaceDetector ~15ms)
+  const fastDetections = await recognizer.detect(input);
   
   if (fastDetections.length === 0) {
     trackedFacesCache.clear();
@@ -244,15 +306,15 @@ export const detectMultipleFaces = async (
   // Step 4: Extract embeddings for faces that need it (max 2 at a time for performance)
   if (facesNeedingEmbedding.length > 0) {
     // Use full detection for embedding extraction (only for faces needing it)
-    const fullDetections = await detectFaces(video);
+    const fullDetections = await recognizer.embed(input);
     
     for (const fullDet of fullDetections) {
-      if (!fullDet.descriptor) continue;
+      if (!fullDet.embedding) continue;
       
       // Find matching result by box overlap
       for (let i = 0; i < results.length; i++) {
         if (boxesOverlap(results[i].box, fullDet.box)) {
-          const embedding = descriptorToArray(fullDet.descriptor);
+          const embedding = fullDet.embedding;
           results[i].embedding = embedding;
           
           // Update cache
@@ -284,23 +346,50 @@ const toFloat32 = (arr: number[] | Float32Array): Float32Array => {
 };
 
 /**
- * Compare two face embeddings
+ * Compare two face embeddings with the active recognizer's distance
  */
 export const compareFaces = (
   embedding1: number[] | Float32Array,
   embedding2: number[] | Float32Array
 ): number => {
   if (embedding1.length === 0 || embedding2.length === 0) return Infinity;
-  return compareFaceDescriptors(toFloat32(embedding1), toFloat32(embedding2));
+  return getActiveRecognizer().compare(toFloat32(embedding1), toFloat32(embedding2));
+};
+
+// Employee fields the matchers need
+export interface MatchCandidate {
+  id: string;
+  name: string;
+  embeddings?: FaceEmbeddings;
+  embedding?: { vector: number[]; version?: FaceEmbeddingVersion };
+}
+
+/**
+ * Version of the stored template (null = not enrolled)
+ */
+export const embeddingVersionOf = (
+  employee: Pick<MatchCandidate, "embeddings" | "embedding">
+): FaceEmbeddingVersion | null => {
+  if (employee.embeddings?.entries?.length) return employee.embeddings.version;
+  if (employee.embedding?.vector?.length) return employee.embedding.version ?? null;
+  return null;
 };
 
+/**
+ * Only templates made by the active recognizer's embedding version can be compared
+ */
+export const hasCompatibleEmbedding = (
+  employee: Pick<MatchCandidate, "embeddings" | "embedding">,
+  version: FaceEmbeddingVersion = getActiveRecognizer().version
+): boolean => embeddingVersionOf(employee) === version;
+
 /**
  * Check if two faces match
  */
 export const facesMatch = (
   embedding1: number[] | Float32Array,
   embedding2: number[] | Float32Array,
-  threshold: number = FACE_MATCH_THRESHOLD
+  threshold: number = activeMatchConfig.matchThreshold
 ): boolean => {
   return compareFaces(embedding1, embedding2) <= threshold;
 };
@@ -344,7 +433,7 @@ export const createFaceEmbeddings = (
 ): FaceEmbeddings => {
   const now = new Date().toISOString();
   return {
-    version: "faceapi-v1",
+    version: getActiveRecognizer().version,
     entries,
     averageVector: computeAverage ? computeAverageEmbedding(entries.map(e => e.vector)) : undefined,
     createdAt: now,
@@ -354,18 +443,24 @@ export const createFaceEmbeddings = (
 };
 
 /**
- * Aggregate a new embedding into existing embeddings
+ * Aggregate a new embedding into existing embeddings.
+ * When full, the strategy picks a learned entry to replace - enrollment entries are the anchors.
  */
 export const aggregateEmbedding = (
   existingEmbeddings: FaceEmbeddings | undefined,
   newEntry: FaceEmbeddingEntry,
-  config: { maxEmbeddings: number; replaceThreshold: number }
+  config: {
+    maxEmbeddings: number;
+    replaceThreshold: number;
+    strategy?: GalleryReplacementStrategy;
+    minPerAngle?: number;
+  }
 ): FaceEmbeddings => {
   const now = new Date().toISOString();
   
   if (!existingEmbeddings || !existingEmbeddings.entries.length) {
     return {
-      version: "faceapi-v1",
+      version: getActiveRecognizer().version,
       entries: [newEntry],
       averageVector: newEntry.vector,
       createdAt: now,
@@ -375,23 +470,16 @@ export const aggregateEmbedding = (
   }
 
   const entries = [...existingEmbeddings.entries];
-  const newQuality = newEntry.quality ?? 0.5;
-
   if (entries.length < config.maxEmbeddings) {
     entries.push(newEntry);
   } else {
-    // Find lowest quality to replace
-    let lowestIdx = 0;
-    let lowestQuality = entries[0].quality ?? 0.5;
-    for (let i = 1; i < entries.length; i++) {
-      const q = entries[i].quality ?? 0.5;
-      if (q < lowestQuality) {
-        lowestQuality = q;
-        lowestIdx = i;
-      }
-    }
-    if (newQuality > lowestQuality + config.replaceThreshold) {
-      entries[lowestIdx] = newEntry;
+    const replaceIdx = selectEntryToReplace(entries, newEntry, {
+      strategy: config.strategy ?? "lowest-quality",
+      replaceThreshold: config.replaceThreshold,
+      minPerAngle: config.minPerAngle ?? 0,
+    });
+    if (replaceIdx >= 0) {
+      entries[replaceIdx] = newEntry;
     }
   }
 
@@ -408,18 +496,14 @@ export const aggregateEmbedding = (
  */
 export const findBestMatchMultiEmbedding = (
   queryEmbedding: number[],
-  employees: Array<{
-    id: string;
-    name: string;
-    embeddings?: FaceEmbeddings;
-    embedding?: { vector: number[] };
-  }>
+  employees: MatchCandidate[]
 ): { employeeId: string; employeeName: string; distance: number } | null => {
   if (queryEmbedding.length === 0) return null;
   
   let bestMatch: { employeeId: string; employeeName: string; distance: number } | null = null;
   
   for (const employee of employees) {
+    if (!hasCompatibleEmbedding(employee)) continue;
     let minDistance = Infinity;
     
     if (employee.embeddings?.entries?.length) {
@@ -447,33 +531,32 @@ export const findBestMatchMultiEmbedding = (
   return bestMatch;
 };
 
+export interface ConfidenceGapResult {
+  bestMatch: VectorIndexMatch | null;
+  secondBestMatch: VectorIndexMatch | null;
+  secondBestDistance: number;
+  hasConfidenceGap: boolean;
+}
+
 /**
- * Find best match with confidence gap
+ * Find best match with confidence gap - linear scan, FaceVectorIndex is the fast path
  */
 export const findBestMatchWithConfidenceGap = (
   queryEmbedding: number[],
-  employees: Array<{
-    id: string;
-    name: string;
-    embeddings?: FaceEmbeddings;
-    embedding?: { vector: number[] };
-  }>,
+  employees: MatchCandidate[],
   options?: { threshold?: number; minGap?: number }
-): { 
-  bestMatch: { employeeId: string; employeeName: string; distance: number } | null;
-  secondBestDistance: number;
-  hasConfidenceGap: boolean;
-} => {
-  const threshold = options?.threshold ?? FACE_MATCH_THRESHOLD;
-  const minGap = options?.minGap ?? ACCURACY_CONFIG.MIN_CONFIDENCE_GAP;
+): ConfidenceGapResult => {
+  const threshold = options?.threshold ?? activeMatchConfig.matchThreshold;
+  const minGap = options?.minGap ?? activeMatchConfig.minConfidenceGap;
   
   if (queryEmbedding.length === 0) {
-    return { bestMatch: null, secondBestDistance: Infinity, hasConfidenceGap: false };
+    return { bestMatch: null, secondBestMatch: null, secondBestDistance: Infinity, hasConfidenceGap: false };
   }
   
-  const matches: Array<{ employeeId: string; employeeName: string; distance: number }> = [];
+  const matches: VectorIndexMatch[] = [];
   
   for (const employee of employees) {
+    if (!hasCompatibleEmbedding(employee)) continue;
     let minDistance = Infinity;
     
     if (employee.embeddings?.entries?.length) {
@@ -496,57 +579,101 @@ export const findBestMatchWithConfidenceGap = (
   
   matches.sort((a, b) => a.distance - b.distance);
   
+  return resolveConfidenceGap(matches, threshold, minGap);
+};
+
+/**
+ * Threshold and gap decision over candidates sorted closest first
+ */
+const resolveConfidenceGap = (
+  matches: VectorIndexMatch[],
+  threshold: number,
+  minGap: number
+): ConfidenceGapResult => {
   const bestMatch = matches[0] ?? null;
   const secondBestDistance = matches[1]?.distance ?? Infinity;
-  const passesThreshold = bestMatch && bestMatch.distance <= threshold;
+  const passesThreshold = !!bestMatch && bestMatch.distance <= threshold;
   const hasConfidenceGap = secondBestDistance - (bestMatch?.distance ?? 0) >= minGap;
   
   return {
     bestMatch: passesThreshold ? bestMatch : null,
+    secondBestMatch: matches[1] ?? null,
     secondBestDistance,
     hasConfidenceGap: passesThreshold && hasConfidenceGap,
   };
 };
 
+type TrackedFaceInput = { box: FaceBoundingBox; score: number; embedding: number[] };
+
 /**
- * Match multiple faces against employees (for kiosk multi-person detection)
- * OPTIMIZED: Skips faces without embeddings, uses cached Float32Array
+ * Overlay entry for one face from its closest candidates (closest first).
+ * A face within the threshold of two employees is flagged ambiguous instead of matched
  */
-export const matchMultipleFaces = (
-  faces: Array<{ box: FaceBoundingBox; score: number; embedding: number[] }>,
-  employees: Array<{
-    id: string;
-    name: string;
-    embeddings?: FaceEmbeddings;
-    embedding?: { vector: number[] };
-  }>,
-  threshold: number = FACE_MATCH_THRESHOLD
-): DetectedFace[] => {
-  // Pre-filter employees with embeddings
-  const enrolledEmployees = employees.filter(
-    emp => emp.embeddings?.entries?.length || emp.embedding?.vector?.length
-  );
+const describeMatch = (
+  face: TrackedFaceInput,
+  matches: VectorIndexMatch[],
+  threshold: number,
+  minGap: number
+): DetectedFace => {
+  const detected: DetectedFace = {
+    boundingBox: face.box,
+    confidence: face.score,
+  };
 
-  return faces.map(face => {
-    const detected: DetectedFace = {
-      boundingBox: face.box,
-      confidence: face.score,
-    };
+  const { bestMatch, secondBestMatch, secondBestDistance, hasConfidenceGap } =
+    resolveConfidenceGap(matches, threshold, minGap);
+  if (!bestMatch) return detected;
 
-    // Skip matching if no embedding available yet (still tracking)
-    if (face.embedding.length === 0 || enrolledEmployees.length === 0) {
-      return detected;
-    }
-    
-    const match = findBestMatchMultiEmbedding(face.embedding, enrolledEmployees);
-    
-    if (match && match.distance <= threshold) {
-      detected.employeeId = match.employeeId;
-      detected.employeeName = match.employeeName;
-      detected.distance = match.distance;
-      detected.matchScore = distanceToSimilarity(match.distance);
-    }
-    
+  detected.distance = bestMatch.distance;
+  detected.matchScore = distanceToSimilarity(bestMatch.distance);
+  if (secondBestMatch) {
+    detected.runnerUpDistance = secondBestDistance;
+    detected.confidenceGap = secondBestDistance - bestMatch.distance;
+  }
+
+  detected.embedding = face.embedding;
+  if (!hasConfidenceGap && secondBestMatch) {
+    detected.isAmbiguous = true;
+    detected.candidates = [bestMatch, secondBestMatch];
     return detected;
-  });
+  }
+
+  detected.employeeId = bestMatch.employeeId;
+  detected.employeeName = bestMatch.employeeName;
+  
+  return detected;
+};
+
+/**
+ * Match multiple faces against the roster index (for kiosk multi-person detection)
+ * Skips faces without embeddings; only the best and runner-up are read from the index
+ */
+export const matchMultipleFaces = (
+  faces: TrackedFaceInput[],
+  index: FaceVectorIndex,
+  threshold: number = activeMatchConfig.matchThreshold,
+  minGap: number = activeMatchConfig.minConfidenceGap
+): DetectedFace[] => {
+  // An index built for another embedding version holds nothing this recognizer can compare
+  const canMatch = index.employeeCount > 0 && index.version === getActiveRecognizer().version;
+
+  // Faces without an embedding are still being tracked
+  return faces.map(face =>
+    describeMatch(face, canMatch && face.embedding.length ? index.search(face.embedding, 2) : [], threshold, minGap)
+  );
 };
+
+/**
+ * Same as matchMultipleFaces, with the best and runner-up looked up elsewhere (server-side matching)
+ */
+export const matchMultipleFacesRemote = async (
+  faces: TrackedFaceInput[],
+  search: (embedding: number[]) => Promise<VectorIndexMatch[]>,
+  threshold: number = activeMatchConfig.matchThreshold,
+  minGap: number = activeMatchConfig.minConfidenceGap
+): Promise<DetectedFace[]> =>
+  Promise.all(
+    faces.map(async face =>
+      describeMatch(face, face.embedding.length ? await search(face.embedding) : [], threshold, minGap)
+    )
+  );
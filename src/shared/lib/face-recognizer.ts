@@ -0,0 +1,174 @@
+"use client";
+
+import type { FaceEmbeddingVersion, FaceRecognizerBackend } from "@/entities/employee";
+import {
+  areModelsLoaded,
+  compareFaceDescriptors,
+  descriptorToArray,
+  detectFaces,
+  detectFacesFast,
+  detectSingleFaceWithDescriptor,
+  getInputSize,
+  loadFaceDetectionModels,
+  type FaceBox,
+  type FaceInput,
+} from "./face-detection-service";
+import {
+  areMediaPipeModelsLoaded,
+  detectFacesWithMediaPipe,
+  loadMediaPipeModels,
+} from "./mediapipe-face-detection";
+import {
+  compareEmbeddings,
+  generateEmbeddingFromLandmarks,
+  isFaceRecognitionModelLoaded,
+  loadFaceRecognitionModel,
+} from "./tensorflow-face-recognition";
+
+export interface RecognizerDetection {
+  box: FaceBox;
+  score: number;
+  embedding?: number[]; // Only set by embed()
+}
+
+/**
+ * One detection + embedding pipeline.
+ * Embeddings are only comparable within the same version.
+ */
+export interface FaceRecognizer {
+  backend: FaceRecognizerBackend;
+  version: FaceEmbeddingVersion;
+  load(): Promise<boolean>;
+  isLoaded(): boolean;
+  // Boxes only - cheap enough for every frame
+  detect(input: FaceInput): Promise<RecognizerDetection[]>;
+  // Boxes with embeddings
+  embed(input: FaceInput): Promise<RecognizerDetection[]>;
+  // Distance between two embeddings of this version (lower = more similar)
+  compare(a: Float32Array, b: Float32Array): number;
+  // Embedding of a still face photo - missing when the version needs video frames
+  embedImage?(image: HTMLCanvasElement): Promise<number[] | null>;
+}
+
+// Margin around a MediaPipe box so face-api can find the face again in the crop
+const CROP_MARGIN = 0.25;
+// Crops and enrollment photos hold a single face, so a low confidence is enough
+const CROP_MIN_CONFIDENCE = 0.3;
+
+// No DOM inside the detection worker
+const createCanvas = (width: number, height: number): HTMLCanvasElement | OffscreenCanvas => {
+  if (typeof document === "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const cropFace = (input: FaceInput, box: FaceBox): HTMLCanvasElement | OffscreenCanvas => {
+  const frame = getInputSize(input);
+  const margin = Math.max(box.width, box.height) * CROP_MARGIN;
+  const sx = Math.max(0, box.x - margin);
+  const sy = Math.max(0, box.y - margin);
+  const width = Math.min(frame.width - sx, box.width + margin * 2);
+  const height = Math.min(frame.height - sy, box.height + margin * 2);
+
+  const canvas = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  canvas.getContext("2d")?.drawImage(input, sx, sy, width, height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const describeFace = async (image: HTMLCanvasElement | OffscreenCanvas): Promise<number[] | null> => {
+  const described = await detectSingleFaceWithDescriptor(image, { minConfidence: CROP_MIN_CONFIDENCE });
+  return described?.descriptor ? descriptorToArray(described.descriptor) : null;
+};
+
+// face-api.js: Tiny Face Detector for boxes, SSD MobileNet + 128D descriptors for embeddings
+const faceApiRecognizer: FaceRecognizer = {
+  backend: "faceapi",
+  version: "faceapi-v1",
+  load: loadFaceDetectionModels,
+  isLoaded: areModelsLoaded,
+  detect: detectFacesFast,
+  embed: async (input) =>
+    (await detectFaces(input)).map((detection) => ({
+      box: detection.box,
+      score: detection.score,
+      embedding: detection.descriptor ? descriptorToArray(detection.descriptor) : undefined,
+    })),
+  compare: compareFaceDescriptors,
+  embedImage: describeFace,
+};
+
+// MediaPipe finds the faces, face-api describes each crop - same embedding space as faceapi
+const mediaPipeRecognizer: FaceRecognizer = {
+  backend: "mediapipe",
+  version: "faceapi-v1",
+  load: async () => {
+    const [meshLoaded, descriptorsLoaded] = await Promise.all([loadMediaPipeModels(), loadFaceDetectionModels()]);
+    return meshLoaded && descriptorsLoaded;
+  },
+  isLoaded: () => areMediaPipeModelsLoaded() && areModelsLoaded(),
+  detect: async (input) => (await detectFacesWithMediaPipe(input)).map(({ box, score }) => ({ box, score })),
+  embed: async (input) => {
+    const detections = await detectFacesWithMediaPipe(input);
+    return Promise.all(
+      detections.map(async ({ box, score }) => ({
+        box,
+        score,
+        embedding: (await describeFace(cropFace(input, box))) ?? undefined,
+      }))
+    );
+  },
+  compare: compareFaceDescriptors,
+  embedImage: describeFace,
+};
+
+// MediaPipe landmarks turned into a geometric embedding - no face-api models needed
+// No embedImage: the landmarker runs in video mode, so templates need a fresh enrollment
+const tensorflowRecognizer: FaceRecognizer = {
+  backend: "tensorflow",
+  version: "landmarks-v1",
+  load: async () => {
+    const [meshLoaded, embedderLoaded] = await Promise.all([loadMediaPipeModels(), loadFaceRecognitionModel()]);
+    return meshLoaded && embedderLoaded;
+  },
+  isLoaded: () => areMediaPipeModelsLoaded() && isFaceRecognitionModelLoaded(),
+  detect: async (input) => (await detectFacesWithMediaPipe(input)).map(({ box, score }) => ({ box, score })),
+  embed: async (input) => {
+    const detections = await detectFacesWithMediaPipe(input);
+    return Promise.all(
+      detections.map(async ({ box, score, landmarks }) => ({
+        box,
+        score,
+        embedding: landmarks && landmarks.length >= 468 ? await generateEmbeddingFromLandmarks(landmarks) : undefined,
+      }))
+    );
+  },
+  compare: compareEmbeddings,
+};
+
+const FACE_RECOGNIZERS: Record<FaceRecognizerBackend, FaceRecognizer> = {
+  faceapi: faceApiRecognizer,
+  mediapipe: mediaPipeRecognizer,
+  tensorflow: tensorflowRecognizer,
+};
+
+export const FACE_RECOGNIZER_BACKENDS = Object.keys(FACE_RECOGNIZERS) as FaceRecognizerBackend[];
+
+export const DEFAULT_FACE_RECOGNIZER: FaceRecognizerBackend = "faceapi";
+
+export const getFaceRecognizer = (backend: FaceRecognizerBackend): FaceRecognizer => FACE_RECOGNIZERS[backend];
+
+let activeRecognizer: FaceRecognizer = FACE_RECOGNIZERS[DEFAULT_FACE_RECOGNIZER];
+
+/**
+ * Recognizer used for detection, embeddings and matching on this device
+ */
+export const getActiveRecognizer = (): FaceRecognizer => activeRecognizer;
+
+/**
+ * Switch backends - templates from another embedding version stop matching until re-enrolled
+ */
+export const selectFaceRecognizer = (backend: FaceRecognizerBackend) => {
+  activeRecognizer = FACE_RECOGNIZERS[backend];
+};
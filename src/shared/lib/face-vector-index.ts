@@ -0,0 +1,122 @@
+import type { FaceEmbeddingVersion } from "@/entities/employee";
+import type { MatchCandidate } from "./face-embedding";
+
+export interface VectorIndexMatch {
+  employeeId: string;
+  employeeName: string;
+  distance: number;
+}
+
+/**
+ * Exact 1:N index over every template vector of one embedding version.
+ * Vectors sit back to back in one Float32Array (row-major, one row per entry
+ * or average vector) so a search is a single pass over contiguous memory
+ * instead of a loop over employees, entries and number[] copies.
+ * Distances are euclidean like every recognizer's compare.
+ *
+ * Build a new index whenever the roster changes - it is immutable.
+ */
+export class FaceVectorIndex {
+  readonly dimension: number;
+  readonly rowCount: number;
+  private readonly matrix: Float32Array;
+  private readonly rowOwners: Int32Array; // Row -> employee slot
+  private readonly owners: Array<{ id: string; name: string }> = [];
+  private readonly bestByOwner: Float64Array; // Search scratch - squared distance per employee
+
+  constructor(employees: MatchCandidate[], readonly version: FaceEmbeddingVersion) {
+    const rows: Array<{ owner: number; vector: ArrayLike<number> }> = [];
+    for (const employee of employees) {
+      const vectors = FaceVectorIndex.templateVectors(employee, version);
+      if (!vectors.length) continue;
+      const owner = this.owners.push({ id: employee.id, name: employee.name }) - 1;
+      for (const vector of vectors) rows.push({ owner, vector });
+    }
+
+    // One length per index - the compare functions never match vectors of another length either
+    this.dimension = rows[0]?.vector.length ?? 0;
+    const sized = rows.filter((row) => row.vector.length === this.dimension);
+    this.rowCount = sized.length;
+    this.matrix = new Float32Array(this.rowCount * this.dimension);
+    this.rowOwners = new Int32Array(this.rowCount);
+    sized.forEach((row, index) => {
+      this.matrix.set(row.vector, index * this.dimension);
+      this.rowOwners[index] = row.owner;
+    });
+    this.bestByOwner = new Float64Array(this.owners.length);
+  }
+
+  get employeeCount(): number {
+    return this.owners.length;
+  }
+
+  /**
+   * Same vectors the linear matchers compare: every entry plus the average,
+   * or the legacy single vector. Other versions are left out.
+   */
+  private static templateVectors(employee: MatchCandidate, version: FaceEmbeddingVersion): ArrayLike<number>[] {
+    const { embeddings, embedding } = employee;
+    if (embeddings?.entries?.length) {
+      if (embeddings.version !== version) return [];
+      const vectors: ArrayLike<number>[] = embeddings.entries
+        .map((entry) => entry.vector)
+        .filter((vector) => vector.length > 0);
+      if (embeddings.averageVector?.length) vectors.push(embeddings.averageVector);
+      return vectors;
+    }
+    if (embedding?.vector?.length && (embedding.version ?? null) === version) return [embedding.vector];
+    return [];
+  }
+
+  /**
+   * Nearest k employees, closest first. Each employee's distance is its
+   * closest template vector, matching findBestMatchWithConfidenceGap.
+   */
+  search(query: ArrayLike<number>, k = 2): VectorIndexMatch[] {
+    if (k <= 0 || !this.rowCount || query.length !== this.dimension) return [];
+
+    const q = query instanceof Float32Array ? query : Float32Array.from(query);
+    const { matrix, rowOwners, bestByOwner, dimension } = this;
+    bestByOwner.fill(Infinity);
+
+    for (let row = 0, offset = 0; row < this.rowCount; row++, offset += dimension) {
+      // Four independent sums - lets the JIT keep them in registers and pipeline the loop
+      let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+      let i = 0;
+      for (; i + 3 < dimension; i += 4) {
+        const d0 = matrix[offset + i] - q[i];
+        const d1 = matrix[offset + i + 1] - q[i + 1];
+        const d2 = matrix[offset + i + 2] - q[i + 2];
+        const d3 = matrix[offset + i + 3] - q[i + 3];
+        s0 += d0 * d0;
+        s1 += d1 * d1;
+        s2 += d2 * d2;
+        s3 += d3 * d3;
+      }
+      for (; i < dimension; i++) {
+        const d = matrix[offset + i] - q[i];
+        s0 += d * d;
+      }
+      const sum = s0 + s1 + s2 + s3;
+      const owner = rowOwners[row];
+      if (sum < bestByOwner[owner]) bestByOwner[owner] = sum;
+    }
+
+    // Partial insertion sort - k is tiny (best and runner-up)
+    const top: number[] = [];
+    for (let owner = 0; owner < bestByOwner.length; owner++) {
+      const sum = bestByOwner[owner];
+      if (top.length === k && sum >= bestByOwner[top[k - 1]]) continue;
+      let position = Math.min(top.length, k - 1);
+      while (position > 0 && bestByOwner[top[position - 1]] > sum) position--;
+      top.splice(position, 0, owner);
+      if (top.length > k) top.pop();
+    }
+
+    return top.map((owner) => ({
+      employeeId: this.owners[owner].id,
+      employeeName: this.owners[owner].name,
+      distance: Math.sqrt(bestByOwner[owner]),
+    }));
+  }
+}
@@ -0,0 +1,168 @@
+// Minimal iCalendar (RFC 5545) reader and writer for all-day events - enough to
+// exchange holiday calendars with Google Calendar, Outlook and Apple Calendar.
+
+import { addDays, toDateKey } from "./datetime";
+
+export interface IcsAllDayEvent {
+  uid: string;
+  date: string; // YYYY-MM-DD
+  summary: string;
+  categories?: string[];
+  properties?: Record<string, string>; // Extra X- properties, name -> text
+}
+
+export interface IcsCalendar {
+  name?: string;
+  events: IcsAllDayEvent[];
+}
+
+// Longest DTSTART..DTEND span expanded into single days on import
+const MAX_EVENT_DAYS = 31;
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+};
+
+const toIcsDate = (dateKey: string) => dateKey.replace(/-/g, "");
+
+const toIcsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Serialize all-day events as a VCALENDAR document with CRLF line endings
+ */
+export const createIcsCalendar = ({ name, events }: IcsCalendar, now: Date = new Date()): string => {
+  const stamp = toIcsTimestamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//face-check//calendar//TH",
+    "CALSCALE:GREGORIAN",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flatMap((event) => [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeText).join(",")}`] : []),
+      ...Object.entries(event.properties ?? {}).map(([key, value]) => `${key}:${escapeText(value)}`),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseContentLine = (line: string): ContentLine | null => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/); // First colon outside quoted params
+  if (colon < 0) return null;
+  const [name, ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map((param) => {
+        const [key, value = ""] = param.split("=");
+        return [key.toUpperCase(), value.replace(/^"|"$/g, "")];
+      })
+    ),
+    value: line.slice(colon + 1),
+  };
+};
+
+// DATE (20260413) or DATE-TIME (20260413T000000Z / floating) -> YYYY-MM-DD
+const parseIcsDate = ({ value }: ContentLine): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour && utc) {
+    return toDateKey(new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)));
+  }
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Read the all-day events of a VCALENDAR document. Events spanning several
+ * days become one event per day; timed events count on the day they start.
+ * Events without a usable DTSTART are skipped and counted.
+ */
+export const parseIcsCalendar = (text: string): { calendar: IcsCalendar; skipped: number } => {
+  const lines = text
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "") // Unfold continuation lines
+    .split("\n")
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== null);
+
+  const calendar: IcsCalendar = { events: [] };
+  let skipped = 0;
+  let current: ContentLine[] | null = null;
+
+  for (const line of lines) {
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = [];
+    } else if (line.name === "END" && line.value.toUpperCase() === "VEVENT" && current) {
+      const property = (name: string) => current?.find((entry) => entry.name === name);
+      const start = property("DTSTART");
+      const end = property("DTEND");
+      const startDate = start && parseIcsDate(start);
+      if (!startDate) {
+        skipped++;
+      } else {
+        const endDate = end ? parseIcsDate(end) : null;
+        const uid = property("UID")?.value ?? `${startDate}-${calendar.events.length}`;
+        const summary = unescapeText(property("SUMMARY")?.value ?? "");
+        const categories = current
+          .filter((entry) => entry.name === "CATEGORIES")
+          .flatMap((entry) => entry.value.split(/(?<!\\),/).map(unescapeText));
+        const properties = Object.fromEntries(
+          current.filter((entry) => entry.name.startsWith("X-")).map((entry) => [entry.name, unescapeText(entry.value)])
+        );
+        // DTEND of an all-day event is exclusive
+        let date = startDate;
+        for (let day = 0; day < MAX_EVENT_DAYS && (day === 0 || (endDate && date < endDate)); day++) {
+          calendar.events.push({ uid: day === 0 ? uid : `${uid}-${day}`, date, summary, categories, properties });
+          date = addDays(date, 1);
+        }
+      }
+      current = null;
+    } else if (current) {
+      current.push(line);
+    } else if (line.name === "X-WR-CALNAME") {
+      calendar.name = unescapeText(line.value);
+    }
+  }
+
+  return { calendar, skipped };
+};
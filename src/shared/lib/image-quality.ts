@@ -0,0 +1,248 @@
+"use client";
+
+import type { FaceBoundingBox } from "./face-embedding";
+
+export type QualityFactor = "sharpness" | "exposure" | "faceSize" | "occlusion" | "pose";
+
+// Capture quality gate for enrollment photos
+export const IMAGE_QUALITY_CONFIG = {
+  MIN_QUALITY: 0.6, // Minimum combined score to accept a capture
+  MIN_FACTOR_SCORE: 0.35, // Any single factor below this rejects the capture
+  ANALYSIS_SIZE: 128, // Face crop is resized to this width before scoring
+  SHARPNESS_TARGET: 150, // Laplacian variance that counts as fully sharp
+  IDEAL_LUMINANCE: { MIN: 80, MAX: 180 }, // Mean brightness (0-255) considered well exposed
+  MAX_CLIPPED_RATIO: 0.2, // Share of crushed/blown pixels before exposure drops to 0
+  FACE_RATIO: { MIN: 0.12, TARGET: 0.25 }, // Face width relative to frame width
+  MAX_PROFILE_YAW_DEG: 35, // Beyond this the profile hides too much of the face
+  MAX_TILT_DEG: 25,
+  WEIGHTS: {
+    sharpness: 0.3,
+    exposure: 0.25,
+    faceSize: 0.2,
+    occlusion: 0.15,
+    pose: 0.1,
+  } satisfies Record<QualityFactor, number>,
+};
+
+export interface ImageQualityReport {
+  score: number;
+  factors: Record<QualityFactor, number>;
+  issues: QualityFactor[];
+  acceptable: boolean;
+  metrics: {
+    laplacianVariance: number;
+    meanLuminance: number;
+    faceRatio: number;
+  };
+}
+
+export interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Convert RGBA pixels to luminance (0-255)
+ */
+export const toGrayImage = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const o = i * 4;
+    data[i] = 0.299 * rgba[o] + 0.587 * rgba[o + 1] + 0.114 * rgba[o + 2];
+  }
+  return { data, width, height };
+};
+
+const rowsOf = (image: GrayImage, from: number, to: number): GrayImage => {
+  const start = Math.floor(image.height * from);
+  const end = Math.max(start + 3, Math.floor(image.height * to));
+  return {
+    data: image.data.subarray(start * image.width, end * image.width),
+    width: image.width,
+    height: end - start,
+  };
+};
+
+/**
+ * Variance of the 4-neighbour Laplacian - low values mean a blurry image
+ */
+export const laplacianVariance = (image: GrayImage): number => {
+  const { data, width, height } = image;
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+const meanOf = (values: Float32Array) => {
+  let sum = 0;
+  for (const v of values) sum += v;
+  return values.length ? sum / values.length : 0;
+};
+
+export const scoreSharpness = (variance: number): number =>
+  clamp01(variance / IMAGE_QUALITY_CONFIG.SHARPNESS_TARGET);
+
+/**
+ * Penalise a mean brightness outside the ideal band and clipped shadows/highlights
+ */
+export const scoreExposure = (image: GrayImage): number => {
+  const { IDEAL_LUMINANCE, MAX_CLIPPED_RATIO } = IMAGE_QUALITY_CONFIG;
+  const mean = meanOf(image.data);
+
+  let clipped = 0;
+  for (const v of image.data) {
+    if (v < 16 || v > 240) clipped++;
+  }
+  const clippedRatio = image.data.length ? clipped / image.data.length : 1;
+
+  const distance =
+    mean < IDEAL_LUMINANCE.MIN ? IDEAL_LUMINANCE.MIN - mean
+    : mean > IDEAL_LUMINANCE.MAX ? mean - IDEAL_LUMINANCE.MAX
+    : 0;
+  const brightness = clamp01(1 - distance / 60);
+  return brightness * clamp01(1 - clippedRatio / MAX_CLIPPED_RATIO);
+};
+
+export const scoreFaceSize = (faceRatio: number): number => {
+  const { MIN, TARGET } = IMAGE_QUALITY_CONFIG.FACE_RATIO;
+  return clamp01((faceRatio - MIN) / (TARGET - MIN));
+};
+
+/**
+ * Masks flatten the mouth band, sunglasses darken the eye band.
+ * Combined with the detector confidence, which also drops for covered faces.
+ */
+export const scoreOcclusion = (image: GrayImage, detectorConfidence: number): number => {
+  const eyes = rowsOf(image, 0.25, 0.5);
+  const mouth = rowsOf(image, 0.65, 0.9);
+
+  const eyeTexture = laplacianVariance(eyes);
+  const mouthTexture = laplacianVariance(mouth);
+  const textureBalance = Math.min(eyeTexture, mouthTexture) / Math.max(eyeTexture, mouthTexture, 1);
+
+  const eyeBrightness = meanOf(eyes.data) / Math.max(meanOf(image.data), 1);
+
+  return Math.min(
+    clamp01(detectorConfidence),
+    clamp01(textureBalance / 0.25),
+    clamp01((eyeBrightness - 0.35) / 0.3)
+  );
+};
+
+export const scorePose = (pose: { yaw: number; tilt: number }): number => {
+  const { MAX_PROFILE_YAW_DEG, MAX_TILT_DEG } = IMAGE_QUALITY_CONFIG;
+  const yawPenalty = Math.max(0, Math.abs(pose.yaw) - MAX_PROFILE_YAW_DEG) / 20;
+  return clamp01(1 - yawPenalty) * clamp01(1 - pose.tilt / (MAX_TILT_DEG * 2));
+};
+
+/**
+ * Score a grayscale face crop - pure, so it can run on any pixel source
+ */
+export const scoreFaceImage = (
+  face: GrayImage,
+  context: { faceRatio: number; detectorConfidence: number; pose: { yaw: number; tilt: number } }
+): ImageQualityReport => {
+  const { WEIGHTS, MIN_QUALITY, MIN_FACTOR_SCORE } = IMAGE_QUALITY_CONFIG;
+  const variance = laplacianVariance(face);
+
+  const factors: Record<QualityFactor, number> = {
+    sharpness: scoreSharpness(variance),
+    exposure: scoreExposure(face),
+    faceSize: scoreFaceSize(context.faceRatio),
+    occlusion: scoreOcclusion(face, context.detectorConfidence),
+    pose: scorePose(context.pose),
+  };
+
+  const score = (Object.keys(WEIGHTS) as QualityFactor[]).reduce(
+    (sum, factor) => sum + WEIGHTS[factor] * factors[factor],
+    0
+  );
+  const issues = (Object.keys(factors) as QualityFactor[])
+    .filter((factor) => factors[factor] < MIN_FACTOR_SCORE)
+    .sort((a, b) => factors[a] - factors[b]);
+
+  return {
+    score,
+    factors,
+    issues,
+    acceptable: score >= MIN_QUALITY && issues.length === 0,
+    metrics: {
+      laplacianVariance: variance,
+      meanLuminance: meanOf(face.data),
+      faceRatio: context.faceRatio,
+    },
+  };
+};
+
+/**
+ * Crop the face from the live video and score it
+ */
+export const assessCaptureQuality = (
+  video: HTMLVideoElement,
+  box: FaceBoundingBox,
+  context: { detectorConfidence: number; pose: { yaw: number; tilt: number } }
+): ImageQualityReport => {
+  const frameWidth = video.videoWidth || 640;
+  const width = IMAGE_QUALITY_CONFIG.ANALYSIS_SIZE;
+  const height = Math.max(1, Math.round((box.height / Math.max(box.width, 1)) * width));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Cannot create canvas context");
+  }
+  ctx.drawImage(video, box.x, box.y, box.width, box.height, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  return scoreFaceImage(toGrayImage(data, width, height), {
+    ...context,
+    faceRatio: box.width / frameWidth,
+  });
+};
+
+/**
+ * Thai explanation of why a capture was rejected
+ */
+export const describeQualityIssues = (report: ImageQualityReport): string => {
+  const { IDEAL_LUMINANCE } = IMAGE_QUALITY_CONFIG;
+  const reasons = report.issues.map((factor) => {
+    switch (factor) {
+      case "sharpness":
+        return "ภาพเบลอ - กรุณาอยู่นิ่งๆ";
+      case "exposure":
+        return report.metrics.meanLuminance < IDEAL_LUMINANCE.MIN
+          ? "แสงน้อยเกินไป - กรุณาหาที่สว่างขึ้น"
+          : report.metrics.meanLuminance > IDEAL_LUMINANCE.MAX
+            ? "แสงจ้าเกินไป - กรุณาหลีกเลี่ยงแสงส่องตรง"
+            : "แสงไม่สม่ำเสมอ - กรุณาหลีกเลี่ยงเงาและแสงย้อน";
+      case "faceSize":
+        return "ใบหน้าเล็กเกินไป - กรุณาเข้าใกล้กล้อง";
+      case "occlusion":
+        return "ใบหน้าถูกบัง - กรุณาถอดหน้ากากหรือแว่นกันแดด";
+      case "pose":
+        return "มุมใบหน้าเอียงมากเกินไป";
+    }
+  });
+
+  return reasons.length
+    ? reasons.join(" / ")
+    : `คุณภาพภาพต่ำ (${Math.round(report.score * 100)}%) - กรุณาลองใหม่`;
+};
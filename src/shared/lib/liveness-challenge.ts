@@ -0,0 +1,128 @@
+"use client";
+
+import { BLINK_THRESHOLD, calculateEyeAspectRatio } from "./liveness-detection";
+import { estimateHeadPose, type MediaPipeLandmark } from "./mediapipe-face-detection";
+
+export type LivenessChallengeType = "blink" | "turn-left" | "turn-right" | "nod";
+
+export type LivenessMode = "passive" | "challenge";
+
+// Challenge-response settings for high-security doors
+export const CHALLENGE_CONFIG = {
+  STEPS: 3, // Number of actions asked per check-in
+  STEP_TIMEOUT_MS: 6000, // Time allowed for each action
+  YAW_THRESHOLD_DEG: 20, // Head turn needed for turn-left / turn-right
+  PITCH_DELTA_DEG: 12, // Pitch change from the starting pose needed for a nod
+};
+
+export const challengePrompt: Record<LivenessChallengeType, { label: string; icon: string }> = {
+  blink: { label: "กะพริบตา", icon: "😉" },
+  "turn-left": { label: "หันหน้าไปทางซ้าย", icon: "⬅️" },
+  "turn-right": { label: "หันหน้าไปทางขวา", icon: "➡️" },
+  nod: { label: "พยักหน้า", icon: "↕️" },
+};
+
+const ALL_CHALLENGES: LivenessChallengeType[] = ["blink", "turn-left", "turn-right", "nod"];
+
+/**
+ * Random, non-repeating sequence of challenges
+ */
+export const createChallengeSequence = (steps: number = CHALLENGE_CONFIG.STEPS): LivenessChallengeType[] => {
+  const pool = [...ALL_CHALLENGES];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, Math.min(steps, pool.length));
+};
+
+export type ChallengeFrameResult = "pending" | "step-passed" | "completed" | "expired";
+
+/**
+ * Walks a person through a challenge sequence, one action at a time.
+ * Feed MediaPipe landmarks of the candidate face every frame.
+ */
+export class LivenessChallengeSession {
+  private stepIndex = 0;
+  private stepStartedAt: number;
+  private baselinePitch: number | null = null;
+  private eyesWereOpen = false;
+  private eyesClosed = false;
+
+  constructor(
+    readonly sequence: LivenessChallengeType[] = createChallengeSequence(),
+    private readonly stepTimeoutMs: number = CHALLENGE_CONFIG.STEP_TIMEOUT_MS
+  ) {
+    this.stepStartedAt = Date.now();
+  }
+
+  get currentChallenge(): LivenessChallengeType | null {
+    return this.sequence[this.stepIndex] ?? null;
+  }
+
+  get currentStep(): number {
+    return this.stepIndex;
+  }
+
+  get stepExpiresAt(): number {
+    return this.stepStartedAt + this.stepTimeoutMs;
+  }
+
+  isCompleted(): boolean {
+    return this.stepIndex >= this.sequence.length;
+  }
+
+  isExpired(now: number = Date.now()): boolean {
+    return !this.isCompleted() && now > this.stepExpiresAt;
+  }
+
+  addFrame(landmarks: MediaPipeLandmark[]): ChallengeFrameResult {
+    if (this.isCompleted()) return "completed";
+    if (this.isExpired()) return "expired";
+    if (landmarks.length < 468) return "pending";
+
+    if (!this.isCurrentStepSatisfied(landmarks)) return "pending";
+
+    this.stepIndex++;
+    this.startStep();
+    return this.isCompleted() ? "completed" : "step-passed";
+  }
+
+  private startStep() {
+    this.stepStartedAt = Date.now();
+    this.baselinePitch = null;
+    this.eyesWereOpen = false;
+    this.eyesClosed = false;
+  }
+
+  private isCurrentStepSatisfied(landmarks: MediaPipeLandmark[]): boolean {
+    switch (this.currentChallenge) {
+      case "blink": {
+        // Same open -> closed -> open pattern as the passive detector
+        const ear = calculateEyeAspectRatio(landmarks);
+        if (ear === null) return false;
+        if (ear >= BLINK_THRESHOLD) {
+          if (this.eyesClosed && this.eyesWereOpen) return true;
+          this.eyesWereOpen = true;
+        } else if (this.eyesWereOpen) {
+          this.eyesClosed = true;
+        }
+        return false;
+      }
+      case "turn-left":
+        return estimateHeadPose(landmarks).yaw <= -CHALLENGE_CONFIG.YAW_THRESHOLD_DEG;
+      case "turn-right":
+        return estimateHeadPose(landmarks).yaw >= CHALLENGE_CONFIG.YAW_THRESHOLD_DEG;
+      case "nod": {
+        const { pitch } = estimateHeadPose(landmarks);
+        if (this.baselinePitch === null) {
+          this.baselinePitch = pitch;
+          return false;
+        }
+        return Math.abs(pitch - this.baselinePitch) >= CHALLENGE_CONFIG.PITCH_DELTA_DEG;
+      }
+      default:
+        return false;
+    }
+  }
+}
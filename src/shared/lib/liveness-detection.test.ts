@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { LivenessDetector } from "./liveness-detection";
+
+describe("LivenessDetector", () => {
+  it("does not pass a face that only moves around the frame", () => {
+    // A photo held up and moved by hand - no landmarks, large box movement
+    const detector = new LivenessDetector();
+    for (let frame = 0; frame < 8; frame++) {
+      detector.addFrame(undefined, { x: 100 + frame * 20, y: 100 + frame * 10, width: 200 + frame * 4, height: 200 });
+    }
+
+    expect(detector.getLivenessScore()).toBeGreaterThan(0);
+    expect(detector.isLive()).toBe(false);
+  });
+});
@@ -12,9 +12,74 @@ interface LivenessFrame {
 const FRAME_HISTORY_SIZE = 8; // Increased for better 3D analysis
 const MIN_FRAMES_FOR_LIVENESS = 3;
 const MOVEMENT_THRESHOLD = 1.5;
-const BLINK_THRESHOLD = 0.2;
+export const BLINK_THRESHOLD = 0.2;
 const DEPTH_VARIATION_THRESHOLD = 0.01; // Depth changes indicate 3D face
 
+const computeEAR = (
+  top: MediaPipeLandmark,
+  bottom: MediaPipeLandmark,
+  left: MediaPipeLandmark,
+  right: MediaPipeLandmark,
+  innerTop: MediaPipeLandmark,
+  innerBottom: MediaPipeLandmark
+): number => {
+  const dist = (a: MediaPipeLandmark, b: MediaPipeLandmark) =>
+    Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+  const vertical1 = dist(innerTop, innerBottom);
+  const vertical2 = dist(top, bottom);
+  const horizontal = dist(left, right);
+
+  return (vertical1 + vertical2) / (2 * horizontal);
+};
+
+/**
+ * Calculate Eye Aspect Ratio (EAR) using MediaPipe landmarks
+ * MediaPipe eye landmarks: left eye (33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246)
+ * Right eye (362, 398, 384, 385, 386, 387, 388, 466, 263, 249, 390, 373, 374, 380, 381, 382)
+ */
+export const calculateEyeAspectRatio = (landmarks: MediaPipeLandmark[]): number | null => {
+  try {
+    // Left eye key points (simplified - using 6 points)
+    const leftEyeTop = landmarks[159]; // Top of left eye
+    const leftEyeBottom = landmarks[145]; // Bottom of left eye
+    const leftEyeLeft = landmarks[33]; // Left corner
+    const leftEyeRight = landmarks[133]; // Right corner
+    const leftEyeInnerTop = landmarks[158];
+    const leftEyeInnerBottom = landmarks[153];
+
+    // Right eye key points
+    const rightEyeTop = landmarks[386]; // Top of right eye
+    const rightEyeBottom = landmarks[374]; // Bottom of right eye
+    const rightEyeLeft = landmarks[362]; // Left corner
+    const rightEyeRight = landmarks[263]; // Right corner
+    const rightEyeInnerTop = landmarks[385];
+    const rightEyeInnerBottom = landmarks[380];
+
+    const leftEAR = computeEAR(
+      leftEyeTop,
+      leftEyeBottom,
+      leftEyeLeft,
+      leftEyeRight,
+      leftEyeInnerTop,
+      leftEyeInnerBottom
+    );
+
+    const rightEAR = computeEAR(
+      rightEyeTop,
+      rightEyeBottom,
+      rightEyeLeft,
+      rightEyeRight,
+      rightEyeInnerTop,
+      rightEyeInnerBottom
+    );
+
+    return (leftEAR + rightEAR) / 2;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Enhanced liveness detector using MediaPipe 3D face mesh
  * Uses multiple techniques:
@@ -75,20 +140,16 @@ export class LivenessDetector {
   }
 
   /**
-   * Check if the face appears to be live (not a photo)
+   * Check if the face appears to be live (not a photo).
+   * Needs a blink or head pose change from the landmarks - a printed photo
+   * moved by hand shifts the box too, so box movement only adds to the score.
    */
   isLive(): boolean {
     if (this.frameHistory.length < MIN_FRAMES_FOR_LIVENESS) {
       return false; // Not enough frames to determine
     }
 
-    // Multiple indicators: movement, blink, depth variation, or pose variation
-    return (
-      this.movementScore > 0.3 ||
-      this.blinkDetected ||
-      this.depthVariationScore > 0.2 ||
-      this.poseVariationScore > 0.2
-    );
+    return this.blinkDetected || this.poseVariationScore > 0.2;
   }
 
   /**
@@ -171,7 +232,7 @@ export class LivenessDetector {
 
     for (const frame of recent) {
       if (frame.landmarks && frame.landmarks.length >= 468) {
-        const ear = this.calculateEAR(frame.landmarks);
+        const ear = calculateEyeAspectRatio(frame.landmarks);
         if (ear !== null) {
           earValues.push(ear);
         }
@@ -256,71 +317,6 @@ export class LivenessDetector {
     this.poseVariationScore = Math.min(totalVariation / (poses.length * 2), 1);
   }
 
-  /**
-   * Calculate Eye Aspect Ratio (EAR) using MediaPipe landmarks
-   * MediaPipe eye landmarks: left eye (33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246)
-   * Right eye (362, 398, 384, 385, 386, 387, 388, 466, 263, 249, 390, 373, 374, 380, 381, 382)
-   */
-  private calculateEAR(landmarks: MediaPipeLandmark[]): number | null {
-    try {
-      // Left eye key points (simplified - using 6 points)
-      const leftEyeTop = landmarks[159]; // Top of left eye
-      const leftEyeBottom = landmarks[145]; // Bottom of left eye
-      const leftEyeLeft = landmarks[33]; // Left corner
-      const leftEyeRight = landmarks[133]; // Right corner
-      const leftEyeInnerTop = landmarks[158];
-      const leftEyeInnerBottom = landmarks[153];
-
-      // Right eye key points
-      const rightEyeTop = landmarks[386]; // Top of right eye
-      const rightEyeBottom = landmarks[374]; // Bottom of right eye
-      const rightEyeLeft = landmarks[362]; // Left corner
-      const rightEyeRight = landmarks[263]; // Right corner
-      const rightEyeInnerTop = landmarks[385];
-      const rightEyeInnerBottom = landmarks[380];
-
-      const leftEAR = this.computeEAR(
-        leftEyeTop,
-        leftEyeBottom,
-        leftEyeLeft,
-        leftEyeRight,
-        leftEyeInnerTop,
-        leftEyeInnerBottom
-      );
-
-      const rightEAR = this.computeEAR(
-        rightEyeTop,
-        rightEyeBottom,
-        rightEyeLeft,
-        rightEyeRight,
-        rightEyeInnerTop,
-        rightEyeInnerBottom
-      );
-
-      return (leftEAR + rightEAR) / 2;
-    } catch {
-      return null;
-    }
-  }
-
-  private computeEAR(
-    top: MediaPipeLandmark,
-    bottom: MediaPipeLandmark,
-    left: MediaPipeLandmark,
-    right: MediaPipeLandmark,
-    innerTop: MediaPipeLandmark,
-    innerBottom: MediaPipeLandmark
-  ): number {
-    const dist = (a: MediaPipeLandmark, b: MediaPipeLandmark) =>
-      Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
-
-    const vertical1 = dist(innerTop, innerBottom);
-    const vertical2 = dist(top, bottom);
-    const horizontal = dist(left, right);
-
-    return (vertical1 + vertical2) / (2 * horizontal);
-  }
-
   /**
    * Calculate average depth from 3D landmarks
    */
@@ -387,6 +383,73 @@ export class LivenessDetector {
   }
 }
 
+type LivenessBox = { x: number; y: number; width: number; height: number };
+
+// Intersection-over-union of two boxes
+const boxIoU = (a: LivenessBox, b: LivenessBox): number => {
+  const overlapX = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const overlapY = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = overlapX * overlapY;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const TRACKER_MIN_IOU = 0.3;
+
+/**
+ * Index of the box that overlaps `previous` the most, -1 when none overlaps enough.
+ * Follows one face between frames without re-identifying it.
+ */
+export const findOverlappingBox = (previous: LivenessBox, boxes: LivenessBox[]): number => {
+  let bestIdx = -1;
+  let bestIoU = TRACKER_MIN_IOU;
+  boxes.forEach((box, idx) => {
+    const iou = boxIoU(previous, box);
+    if (iou >= bestIoU) {
+      bestIoU = iou;
+      bestIdx = idx;
+    }
+  });
+  return bestIdx;
+};
+
+/**
+ * Keeps one LivenessDetector per face across frames (kiosk multi-face mode).
+ * Faces are associated frame-to-frame by bounding box overlap; a face that
+ * disappears loses its history and must prove liveness again.
+ */
+export class LivenessTracker {
+  private tracked: Array<{ detector: LivenessDetector; box: LivenessBox }> = [];
+
+  /**
+   * Feed the current frame's faces, returns liveness per face (same order)
+   */
+  update(
+    faces: Array<{ box: LivenessBox; landmarks?: MediaPipeLandmark[] }>
+  ): Array<{ score: number; isLive: boolean }> {
+    const next: Array<{ detector: LivenessDetector; box: LivenessBox }> = [];
+
+    const results = faces.map((face) => {
+      const bestIdx = findOverlappingBox(face.box, this.tracked.map((entry) => entry.box));
+      const entry = bestIdx >= 0
+        ? this.tracked.splice(bestIdx, 1)[0]
+        : { detector: new LivenessDetector(), box: face.box };
+      entry.box = face.box;
+      entry.detector.addFrame(face.landmarks, face.box);
+      next.push(entry);
+
+      return { score: entry.detector.getLivenessScore(), isLive: entry.detector.isLive() };
+    });
+
+    this.tracked = next;
+    return results;
+  }
+
+  reset() {
+    this.tracked = [];
+  }
+}
+
 // Singleton instance
 let livenessDetector: LivenessDetector | null = null;
 
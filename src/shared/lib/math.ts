@@ -35,3 +35,17 @@ export function normalizeVector(values: number[]): number[] {
 
   return values.map((value) => (value - min) / range);
 }
+
+export function euclideanDistance(a: number[], b: number[]): number {
+  if (!a.length || a.length !== b.length) {
+    return Infinity;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+
+  return Math.sqrt(sum);
+}
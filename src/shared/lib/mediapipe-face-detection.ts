@@ -1,6 +1,8 @@
 "use client";
 
 import { FaceLandmarker, FilesetResolver, DrawingUtils } from "@mediapipe/tasks-vision";
+import type { FaceAngle } from "@/entities/employee";
+import { getInputSize, isInputReady, type FaceInput } from "./face-detection-service";
 
 export interface FaceBox {
   x: number;
@@ -59,7 +61,7 @@ export const loadMediaPipeModels = async (): Promise<boolean> => {
       },
       outputFaceBlendshapes: false,
       runningMode: "VIDEO",
-      numFaces: 1,
+      numFaces: MEDIAPIPE_CONFIG.MAX_FACES,
     });
 
     // Verify the landmarker was created successfully
@@ -93,13 +95,14 @@ export const getMediaPipeModelLoadError = (): string | null => modelLoadError;
 export const MEDIAPIPE_CONFIG = {
   MIN_CONFIDENCE: 0.7, // Minimum confidence for face detection (increased from 0.5)
   MIN_VISIBILITY: 0.6, // Minimum visibility for landmarks (increased from 0.5)
+  MAX_FACES: 4, // Kiosk tracks several people at once
 };
 
 /**
- * Detect faces in a video element using MediaPipe
+ * Detect faces in a video frame using MediaPipe
  */
 export const detectFacesWithMediaPipe = async (
-  video: HTMLVideoElement
+  input: FaceInput
 ): Promise<DetectionResult[]> => {
   if (!modelsLoaded) {
     const loaded = await loadMediaPipeModels();
@@ -108,16 +111,15 @@ export const detectFacesWithMediaPipe = async (
 
   if (!faceLandmarker) return [];
 
-  // Validate video element is ready
-  if (video.readyState < 2) {
-    console.warn("Video element not ready, readyState:", video.readyState);
+  // Validate the frame is ready
+  if (!isInputReady(input)) {
+    console.warn("Video element not ready");
     return [];
   }
 
-  // Validate video dimensions
-  const videoWidth = video.videoWidth || 0;
-  const videoHeight = video.videoHeight || 0;
-  if (videoWidth === 0 || videoHeight === 0) {
+  // Validate frame dimensions
+  const { width: videoWidth, height: videoHeight } = getInputSize(input);
+  if (!videoWidth || !videoHeight) {
     console.warn("Video element has invalid dimensions:", { videoWidth, videoHeight });
     return [];
   }
@@ -126,16 +128,10 @@ export const detectFacesWithMediaPipe = async (
     const startTimeMs = performance.now();
     let results;
     try {
-      results = faceLandmarker.detectForVideo(video, startTimeMs);
+      results = faceLandmarker.detectForVideo(input, startTimeMs);
     } catch (detectError) {
       console.error("Error calling detectForVideo:", detectError);
-      console.error("Video element state:", {
-        readyState: video.readyState,
-        videoWidth: video.videoWidth,
-        videoHeight: video.videoHeight,
-        width: video.width,
-        height: video.height,
-      });
+      console.error("Frame size:", { videoWidth, videoHeight });
       return [];
     }
 
@@ -145,8 +141,8 @@ export const detectFacesWithMediaPipe = async (
 
     return results.faceLandmarks.map((landmarks, index) => {
       // Calculate bounding box from landmarks
-      const xs = landmarks.map((lm) => lm.x * video.videoWidth);
-      const ys = landmarks.map((lm) => lm.y * video.videoHeight);
+      const xs = landmarks.map((lm) => lm.x * videoWidth);
+      const ys = landmarks.map((lm) => lm.y * videoHeight);
       
       const minX = Math.min(...xs);
       const maxX = Math.max(...xs);
@@ -162,9 +158,9 @@ export const detectFacesWithMediaPipe = async (
 
       // Convert landmarks to our format
       const landmarks3D: MediaPipeLandmark[] = landmarks.map((lm) => ({
-        x: lm.x * video.videoWidth,
-        y: lm.y * video.videoHeight,
-        z: lm.z * (video.videoWidth + video.videoHeight) / 2, // Normalize z
+        x: lm.x * videoWidth,
+        y: lm.y * videoHeight,
+        z: lm.z * (videoWidth + videoHeight) / 2, // Normalize z
       }));
 
       // Use face detection score if available, otherwise estimate from landmark confidence
@@ -185,6 +181,24 @@ export const detectFacesWithMediaPipe = async (
   }
 };
 
+/**
+ * Find the MediaPipe face whose center lies inside a box from another detector
+ * (e.g. face-api.js), so landmarks can be attached to that face
+ */
+export const findMeshForBox = (
+  box: FaceBox,
+  meshes: DetectionResult[]
+): DetectionResult | undefined => {
+  return meshes.find((mesh) => {
+    const centerX = mesh.box.x + mesh.box.width / 2;
+    const centerY = mesh.box.y + mesh.box.height / 2;
+    return (
+      centerX >= box.x && centerX <= box.x + box.width &&
+      centerY >= box.y && centerY <= box.y + box.height
+    );
+  });
+};
+
 /**
  * Detect single face with full landmarks (for enrollment/matching)
  */
@@ -422,6 +436,16 @@ export const estimateHeadPose = (landmarks: MediaPipeLandmark[]): {
   return { pitch: adjustedPitch, yaw: flippedYaw, roll };
 };
 
+/**
+ * Map head yaw (degrees, user's perspective) to an enrollment angle slot
+ */
+export const classifyFaceAngle = (yaw: number): FaceAngle => {
+  const magnitude = Math.abs(yaw);
+  if (magnitude < 8) return "front";
+  if (magnitude < 20) return yaw < 0 ? "slight-left" : "slight-right";
+  return yaw < 0 ? "left" : "right";
+};
+
 /**
  * Calculate depth from MediaPipe landmarks (for liveness detection)
  */
@@ -0,0 +1,27 @@
+import type { AppRole } from "@/entities/auth";
+
+export const APP_ROLES: AppRole[] = ["admin", "hr", "kiosk"];
+
+export const roleLabel: Record<AppRole, string> = {
+  admin: "ผู้ดูแลระบบ",
+  hr: "ฝ่ายบุคคล",
+  kiosk: "เครื่อง Kiosk",
+};
+
+// Roles allowed to open each protected route
+export const ROUTE_ROLES = {
+  admin: ["admin"],
+  employees: ["admin", "hr"],
+  history: ["admin", "hr"],
+  dashboard: ["admin", "hr"],
+  kiosk: ["admin", "kiosk"],
+} satisfies Record<string, AppRole[]>;
+
+/**
+ * Roles are stored in the Supabase user's app_metadata.role
+ */
+export const parseRole = (value: unknown): AppRole | null =>
+  APP_ROLES.find((role) => role === value) ?? null;
+
+export const hasRole = (role: AppRole | null | undefined, allowed: readonly AppRole[]): boolean =>
+  !!role && allowed.includes(role);
@@ -0,0 +1,99 @@
+import type { Employee, FaceAngle, FaceEmbeddingEntry } from "@/entities/employee";
+import { PROGRESSIVE_LEARNING_CONFIG } from "@/entities/employee";
+import { compareFaces, computeAverageEmbedding } from "./face-embedding";
+
+export type LearningRejection =
+  | "low-similarity"
+  | "low-quality"
+  | "no-anchor"
+  | "anchor-drift"
+  | "ambiguous"
+  | "too-soon";
+
+export interface LearningCandidate {
+  employee: Employee;
+  vector: number[];
+  angle: FaceAngle;
+  quality: number;
+  similarity: number;
+  ownDistance: number;
+  competitorDistance?: number; // Distance to the closest other employee
+  eventKey?: string;
+}
+
+export type LearningDecision =
+  | { accepted: true; entry: FaceEmbeddingEntry }
+  | { accepted: false; reason: LearningRejection };
+
+/**
+ * Enrollment entries an admin captured - learned entries are never compared against each other
+ */
+const getAnchorEntries = (entries: FaceEmbeddingEntry[]) =>
+  entries.filter((entry) => entry.source !== "learned");
+
+/**
+ * The entry a kiosk match would be stored as
+ */
+export const toLearnedEntry = (
+  candidate: Pick<LearningCandidate, "vector" | "angle" | "quality" | "eventKey">,
+  now: Date = new Date()
+): FaceEmbeddingEntry => ({
+  vector: candidate.vector,
+  angle: candidate.angle,
+  quality: candidate.quality,
+  createdAt: now.toISOString(),
+  source: "learned",
+  eventKey: candidate.eventKey,
+});
+
+/**
+ * Decide whether a kiosk match may be added to the employee's template.
+ *
+ * Guards against drift: the new descriptor must stay close to the original
+ * enrollment photos (not just to the latest template), must be clearly
+ * closer to this employee than to anyone else, and learning is rate-limited
+ * so a lookalike cannot move the template in a few scans.
+ */
+export const evaluateLearningCandidate = (
+  candidate: LearningCandidate,
+  now: Date = new Date()
+): LearningDecision => {
+  const config = PROGRESSIVE_LEARNING_CONFIG;
+
+  if (candidate.similarity < config.MIN_SIMILARITY_TO_ADD) {
+    return { accepted: false, reason: "low-similarity" };
+  }
+  if (candidate.quality < config.MIN_QUALITY_TO_ADD) {
+    return { accepted: false, reason: "low-quality" };
+  }
+
+  const entries = candidate.employee.embeddings?.entries ?? [];
+  const anchors = getAnchorEntries(entries);
+  if (anchors.length === 0) {
+    return { accepted: false, reason: "no-anchor" };
+  }
+
+  const anchorAverage = computeAverageEmbedding(anchors.map((entry) => entry.vector));
+  if (compareFaces(candidate.vector, anchorAverage) > config.MAX_ANCHOR_DISTANCE) {
+    return { accepted: false, reason: "anchor-drift" };
+  }
+
+  if (
+    candidate.competitorDistance !== undefined &&
+    candidate.competitorDistance - candidate.ownDistance < config.MIN_IDENTITY_GAP
+  ) {
+    return { accepted: false, reason: "ambiguous" };
+  }
+
+  const lastLearnedAt = Math.max(
+    0,
+    ...entries
+      .filter((entry) => entry.source === "learned")
+      .map((entry) => new Date(entry.createdAt).getTime())
+  );
+  if (now.getTime() - lastLearnedAt < config.MIN_HOURS_BETWEEN_UPDATES * 60 * 60 * 1000) {
+    return { accepted: false, reason: "too-soon" };
+  }
+
+  return { accepted: true, entry: toLearnedEntry(candidate, now) };
+};
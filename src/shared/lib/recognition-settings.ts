@@ -0,0 +1,205 @@
+import { z } from "zod";
+import { PROGRESSIVE_LEARNING_CONFIG } from "@/entities/employee";
+import {
+  GLOBAL_SETTINGS_SCOPE,
+  type RecognitionSettings,
+  type RecognitionSettingsGroup,
+  type RecognitionSettingsOverride,
+  type RecognitionSettingsRecord,
+} from "@/entities/settings";
+import { ACCURACY_CONFIG, FACE_MATCH_THRESHOLD, applyMatchConfig } from "./face-embedding";
+import { DETECTION_CONFIG } from "./face-detection-service";
+import { MEDIAPIPE_CONFIG } from "./mediapipe-face-detection";
+import { DEFAULT_FACE_RECOGNIZER, selectFaceRecognizer } from "./face-recognizer";
+
+const ratio = z.number().min(0).max(1);
+
+export const recognitionSettingsSchema = z.object({
+  match: z.object({
+    threshold: z.number().min(0.05).max(1.5),
+    minConfidenceGap: ratio,
+    consecutiveMatchesRequired: z.number().int().min(1).max(30),
+    minDetectionConfidence: ratio,
+    requireLiveness: z.boolean(),
+    mode: z.enum(["local", "server"]),
+  }),
+  detection: z.object({
+    backend: z.enum(["faceapi", "mediapipe", "tensorflow"]),
+    minConfidence: ratio,
+    ssdMinConfidence: ratio,
+  }),
+  mediapipe: z.object({
+    minConfidence: ratio,
+    minVisibility: ratio,
+    maxFaces: z.number().int().min(1).max(10),
+  }),
+  learning: z.object({
+    maxEmbeddings: z.number().int().min(5).max(100),
+    minQualityToAdd: ratio,
+    minSimilarityToAdd: ratio,
+    replaceThreshold: ratio,
+    replacementStrategy: z.enum(["lowest-quality", "diversity"]),
+    minEntriesPerAngle: z.number().int().min(0).max(10),
+    maxAnchorDistance: z.number().min(0).max(1.5),
+    minIdentityGap: ratio,
+    minHoursBetweenUpdates: z.number().min(0).max(24 * 7),
+  }),
+  kiosk: z.object({
+    samePersonCooldownMs: z.number().int().min(0).max(24 * 60 * 60 * 1000),
+    detectionIntervalMs: z.number().int().min(16).max(2000),
+  }),
+}) satisfies z.ZodType<RecognitionSettings>;
+
+export const recognitionSettingsOverrideSchema = z.object({
+  match: recognitionSettingsSchema.shape.match.partial().optional(),
+  detection: recognitionSettingsSchema.shape.detection.partial().optional(),
+  mediapipe: recognitionSettingsSchema.shape.mediapipe.partial().optional(),
+  learning: recognitionSettingsSchema.shape.learning.partial().optional(),
+  kiosk: recognitionSettingsSchema.shape.kiosk.partial().optional(),
+}) satisfies z.ZodType<RecognitionSettingsOverride>;
+
+// Code defaults - the layer under the global record.
+// Copied at load time, so applying settings later never changes them.
+export const DEFAULT_RECOGNITION_SETTINGS: RecognitionSettings = {
+  match: {
+    threshold: FACE_MATCH_THRESHOLD,
+    minConfidenceGap: ACCURACY_CONFIG.MIN_CONFIDENCE_GAP,
+    consecutiveMatchesRequired: ACCURACY_CONFIG.CONSECUTIVE_MATCHES_REQUIRED,
+    minDetectionConfidence: ACCURACY_CONFIG.MIN_DETECTION_CONFIDENCE,
+    requireLiveness: ACCURACY_CONFIG.REQUIRE_LIVENESS,
+    mode: "local",
+  },
+  detection: {
+    backend: DEFAULT_FACE_RECOGNIZER,
+    minConfidence: DETECTION_CONFIG.MIN_CONFIDENCE,
+    ssdMinConfidence: DETECTION_CONFIG.SSD_MIN_CONFIDENCE,
+  },
+  mediapipe: {
+    minConfidence: MEDIAPIPE_CONFIG.MIN_CONFIDENCE,
+    minVisibility: MEDIAPIPE_CONFIG.MIN_VISIBILITY,
+    maxFaces: MEDIAPIPE_CONFIG.MAX_FACES,
+  },
+  learning: {
+    maxEmbeddings: PROGRESSIVE_LEARNING_CONFIG.MAX_EMBEDDINGS,
+    minQualityToAdd: PROGRESSIVE_LEARNING_CONFIG.MIN_QUALITY_TO_ADD,
+    minSimilarityToAdd: PROGRESSIVE_LEARNING_CONFIG.MIN_SIMILARITY_TO_ADD,
+    replaceThreshold: PROGRESSIVE_LEARNING_CONFIG.REPLACE_THRESHOLD,
+    replacementStrategy: PROGRESSIVE_LEARNING_CONFIG.REPLACEMENT_STRATEGY,
+    minEntriesPerAngle: PROGRESSIVE_LEARNING_CONFIG.MIN_ENTRIES_PER_ANGLE,
+    maxAnchorDistance: PROGRESSIVE_LEARNING_CONFIG.MAX_ANCHOR_DISTANCE,
+    minIdentityGap: PROGRESSIVE_LEARNING_CONFIG.MIN_IDENTITY_GAP,
+    minHoursBetweenUpdates: PROGRESSIVE_LEARNING_CONFIG.MIN_HOURS_BETWEEN_UPDATES,
+  },
+  kiosk: {
+    samePersonCooldownMs: 60 * 60 * 1000, // 1 hour
+    detectionIntervalMs: 50, // Very fast detection ~20 fps for motion tracking
+  },
+};
+
+export const RECOGNITION_SETTINGS_GROUPS = Object.keys(DEFAULT_RECOGNITION_SETTINGS) as RecognitionSettingsGroup[];
+
+/**
+ * Validate a stored layer - an invalid layer is ignored rather than breaking recognition
+ */
+export const parseSettingsOverride = (value: unknown): RecognitionSettingsOverride => {
+  const parsed = recognitionSettingsOverrideSchema.safeParse(value ?? {});
+  if (!parsed.success) {
+    console.warn("Ignoring invalid recognition settings:", parsed.error.message);
+    return {};
+  }
+  return parsed.data;
+};
+
+/**
+ * Lay overrides on top of a base, group by group
+ */
+export const mergeRecognitionSettings = (
+  base: RecognitionSettings,
+  ...layers: Array<RecognitionSettingsOverride | undefined>
+): RecognitionSettings =>
+  layers.reduce<RecognitionSettings>(
+    (merged, layer) => ({
+      match: { ...merged.match, ...layer?.match },
+      detection: { ...merged.detection, ...layer?.detection },
+      mediapipe: { ...merged.mediapipe, ...layer?.mediapipe },
+      learning: { ...merged.learning, ...layer?.learning },
+      kiosk: { ...merged.kiosk, ...layer?.kiosk },
+    }),
+    base
+  );
+
+/**
+ * Effective settings for a kiosk: code defaults, then the global record, then the kiosk's own record
+ */
+export const resolveRecognitionSettings = (
+  records: RecognitionSettingsRecord[],
+  kioskId?: string
+): RecognitionSettings => {
+  const global = records.find((record) => record.scope === GLOBAL_SETTINGS_SCOPE);
+  const kiosk = kioskId ? records.find((record) => record.scope === kioskId) : undefined;
+  return mergeRecognitionSettings(DEFAULT_RECOGNITION_SETTINGS, global?.settings, kiosk?.settings);
+};
+
+/**
+ * Values of `settings` that differ from `base` - what a layer needs to store
+ */
+export const diffRecognitionSettings = (
+  settings: RecognitionSettings,
+  base: RecognitionSettings
+): RecognitionSettingsOverride => {
+  const override: Record<string, Record<string, unknown>> = {};
+  for (const group of RECOGNITION_SETTINGS_GROUPS) {
+    const values = settings[group] as Record<string, unknown>;
+    const baseValues = base[group] as Record<string, unknown>;
+    for (const key of Object.keys(values)) {
+      if (values[key] === baseValues[key]) continue;
+      override[group] = { ...override[group], [key]: values[key] };
+    }
+  }
+  return override as RecognitionSettingsOverride;
+};
+
+let activeSettings: RecognitionSettings = DEFAULT_RECOGNITION_SETTINGS;
+
+/**
+ * Settings currently used by this device
+ */
+export const getActiveRecognitionSettings = (): RecognitionSettings => activeSettings;
+
+/**
+ * Use new settings everywhere. The config objects are read on every frame,
+ * so updating them in place takes effect without reloading the page.
+ */
+export const applyRecognitionSettings = (settings: RecognitionSettings) => {
+  activeSettings = settings;
+  const { match, detection, mediapipe, learning } = settings;
+
+  selectFaceRecognizer(detection.backend);
+  applyMatchConfig({ matchThreshold: match.threshold, minConfidenceGap: match.minConfidenceGap });
+  Object.assign(ACCURACY_CONFIG, {
+    MIN_CONFIDENCE_GAP: match.minConfidenceGap,
+    CONSECUTIVE_MATCHES_REQUIRED: match.consecutiveMatchesRequired,
+    MIN_DETECTION_CONFIDENCE: match.minDetectionConfidence,
+    REQUIRE_LIVENESS: match.requireLiveness,
+  });
+  Object.assign(DETECTION_CONFIG, {
+    MIN_CONFIDENCE: detection.minConfidence,
+    SSD_MIN_CONFIDENCE: detection.ssdMinConfidence,
+  });
+  Object.assign(MEDIAPIPE_CONFIG, {
+    MIN_CONFIDENCE: mediapipe.minConfidence,
+    MIN_VISIBILITY: mediapipe.minVisibility,
+    MAX_FACES: mediapipe.maxFaces,
+  });
+  Object.assign(PROGRESSIVE_LEARNING_CONFIG, {
+    MAX_EMBEDDINGS: learning.maxEmbeddings,
+    MIN_QUALITY_TO_ADD: learning.minQualityToAdd,
+    MIN_SIMILARITY_TO_ADD: learning.minSimilarityToAdd,
+    REPLACE_THRESHOLD: learning.replaceThreshold,
+    REPLACEMENT_STRATEGY: learning.replacementStrategy,
+    MIN_ENTRIES_PER_ANGLE: learning.minEntriesPerAngle,
+    MAX_ANCHOR_DISTANCE: learning.maxAnchorDistance,
+    MIN_IDENTITY_GAP: learning.minIdentityGap,
+    MIN_HOURS_BETWEEN_UPDATES: learning.minHoursBetweenUpdates,
+  });
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { CalendarEntry } from "@/entities/calendar";
+import type { WorkSchedule } from "@/entities/schedule";
+import { classifyCheckEvent } from "./schedule";
+
+// Friday-only night shift, 22:00 to 06:00
+const nightShift: WorkSchedule = {
+  id: "sch_night",
+  name: "กะดึก",
+  workDays: [5],
+  startTime: "22:00",
+  endTime: "06:00",
+  graceMinutes: 5,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("classifyCheckEvent", () => {
+  it("judges an after-midnight check-out against the day the shift started", () => {
+    // Saturday 2026-03-07 05:30 Bangkok, end of Friday's shift
+    expect(classifyCheckEvent("2026-03-06T22:30:00.000Z", "check-out", nightShift)).toEqual({
+      classification: "early-leave",
+      minutes: 30,
+    });
+  });
+
+  it("honours a holiday on the shift's start date for an after-midnight check-out", () => {
+    const entries: CalendarEntry[] = [
+      {
+        id: "cal_1",
+        date: "2026-03-06",
+        name: "วันหยุด",
+        kind: "public-holiday",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    ];
+    expect(classifyCheckEvent("2026-03-06T22:30:00.000Z", "check-out", nightShift, { entries })).toEqual({
+      classification: "unscheduled",
+      minutes: 0,
+    });
+  });
+
+  it("counts an after-midnight check-in as late for the shift that started the day before", () => {
+    // Saturday 2026-03-07 01:10 Bangkok, three hours into Friday's shift
+    expect(classifyCheckEvent("2026-03-06T18:10:00.000Z", "check-in", nightShift)).toEqual({
+      classification: "late",
+      minutes: 190,
+    });
+  });
+
+  it("keeps the capture date for a check-in before midnight", () => {
+    // Friday 2026-03-06 22:20 Bangkok
+    expect(classifyCheckEvent("2026-03-06T15:20:00.000Z", "check-in", nightShift)).toEqual({
+      classification: "late",
+      minutes: 20,
+    });
+  });
+});
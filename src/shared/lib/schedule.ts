@@ -0,0 +1,96 @@
+import type { CalendarEntry } from "@/entities/calendar";
+import type { Employee, FaceCheckDirection } from "@/entities/employee";
+import type { AttendanceClassification, WorkSchedule } from "@/entities/schedule";
+import { isWorkingDay } from "./calendar";
+import { addDays, getZonedMinuteOfDay, toDateKey } from "./datetime";
+
+export const classificationLabel: Record<AttendanceClassification, string> = {
+  "on-time": "ตรงเวลา",
+  late: "มาสาย",
+  "early-leave": "ออกก่อนเวลา",
+  unscheduled: "นอกตารางงาน",
+};
+
+/**
+ * Convert "HH:MM" into minutes since midnight
+ */
+export const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Pick the schedule that applies to an employee.
+ * Employee assignment > department assignment > company default.
+ */
+export const resolveScheduleForEmployee = (
+  employee: Pick<Employee, "id" | "department">,
+  schedules: WorkSchedule[]
+): WorkSchedule | null => {
+  const byEmployee = schedules.find((s) => s.employeeIds?.includes(employee.id));
+  if (byEmployee) return byEmployee;
+
+  if (employee.department) {
+    const byDepartment = schedules.find((s) => s.department === employee.department);
+    if (byDepartment) return byDepartment;
+  }
+
+  return schedules.find((s) => !s.department && !s.employeeIds?.length) ?? null;
+};
+
+/**
+ * Judge a check event against a schedule, in company time.
+ * Check-ins after start + grace are late, check-outs before the shift end are early leaves.
+ * Scans on holidays and other non-working days of the calendar are unscheduled.
+ */
+export const classifyCheckEvent = (
+  capturedAt: string | Date,
+  direction: FaceCheckDirection,
+  schedule: WorkSchedule | null,
+  calendar: { entries: CalendarEntry[]; department?: string } = { entries: [] }
+): { classification: AttendanceClassification; minutes: number } => {
+  if (!schedule) {
+    return { classification: "unscheduled", minutes: 0 };
+  }
+
+  const minuteOfDay = getZonedMinuteOfDay(capturedAt);
+  const startMinute = parseTimeOfDay(schedule.startTime);
+  const endMinute = parseTimeOfDay(schedule.endTime);
+  const isOvernight = endMinute <= startMinute;
+
+  // On an overnight shift, a scan after midnight belongs to the shift that started
+  // the day before: check-ins until the shift ends, check-outs until the next one starts
+  const crossesMidnight = isOvernight && minuteOfDay < (direction === "check-in" ? endMinute : startMinute);
+  const capturedOn = toDateKey(capturedAt);
+  const shiftDate = crossesMidnight ? addDays(capturedOn, -1) : capturedOn;
+  if (!isWorkingDay(shiftDate, schedule, calendar.entries, calendar.department)) {
+    return { classification: "unscheduled", minutes: 0 };
+  }
+
+  // Minutes since the start of the shift's day
+  const scanMinute = crossesMidnight ? minuteOfDay + 24 * 60 : minuteOfDay;
+
+  if (direction === "check-in") {
+    const lateBy = scanMinute - startMinute;
+    return lateBy > schedule.graceMinutes
+      ? { classification: "late", minutes: lateBy }
+      : { classification: "on-time", minutes: 0 };
+  }
+
+  // Overnight shifts end on the next day
+  const earlyBy = (isOvernight ? endMinute + 24 * 60 : endMinute) - scanMinute;
+  return earlyBy > 0
+    ? { classification: "early-leave", minutes: earlyBy }
+    : { classification: "on-time", minutes: 0 };
+};
+
+/**
+ * Short Thai description, e.g. "มาสาย 12 นาที"
+ */
+export const describeClassification = (
+  classification: AttendanceClassification,
+  minutes?: number
+): string => {
+  const label = classificationLabel[classification];
+  return minutes ? `${label} ${minutes} นาที` : label;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { timesheetToCsv, type TimesheetRow } from "./timesheet";
+
+const row = (overrides: Partial<TimesheetRow> = {}): TimesheetRow => ({
+  employeeId: "emp_a",
+  employeeName: "Somchai",
+  email: "somchai@example.com",
+  date: "2026-03-02",
+  workedMinutes: 480,
+  lateMinutes: 0,
+  sessionCount: 1,
+  incompleteSessions: 0,
+  ...overrides,
+});
+
+// Data line of a single-row CSV, without the BOM and header
+const dataLine = (csv: string) => csv.split("\r\n")[1];
+
+describe("timesheetToCsv", () => {
+  it.each(["=HYPERLINK(\"http://evil\")", "+1+1", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "neutralises a cell starting a formula: %j",
+    (employeeName) => {
+      const cells = dataLine(timesheetToCsv([row({ employeeName })]));
+      expect(cells).toContain(`'${employeeName.replace(/"/g, '""')}`);
+      expect(cells).not.toMatch(/,[=+\-@\t]/);
+    }
+  );
+
+  it("quotes a neutralised cell that also needs escaping", () => {
+    const cells = dataLine(timesheetToCsv([row({ department: "=1,2" })]));
+    expect(cells).toContain(`"'=1,2"`);
+  });
+
+  it("keeps plain text and numbers as they are", () => {
+    const cells = dataLine(timesheetToCsv([row({ department: "HR", lateMinutes: 5 })]));
+    expect(cells).toBe("2026-03-02,emp_a,Somchai,somchai@example.com,HR,,,8,5,1,0");
+  });
+});
@@ -0,0 +1,199 @@
+import type { Employee, FaceCheckEvent } from "@/entities/employee";
+import { attendanceQueryWindow, pairAttendanceSessions } from "./attendance";
+import { APP_TIME_ZONE } from "./datetime";
+import { XLSX_MIME_TYPE, createXlsxWorkbook } from "./xlsx";
+
+export type TimesheetFormat = "csv" | "xlsx" | "json";
+
+export interface TimesheetFilter {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  department?: string;
+}
+
+// One employee on one day
+export interface TimesheetRow {
+  employeeId: string;
+  employeeName: string;
+  email: string;
+  department?: string;
+  date: string; // YYYY-MM-DD
+  firstIn?: string; // ISO time of the first check-in
+  lastOut?: string; // ISO time of the last check-out
+  workedMinutes: number; // Paired check-in/check-out sessions only
+  lateMinutes: number; // From the first check-in's schedule classification
+  sessionCount: number;
+  incompleteSessions: number; // Missing a check-in or check-out - needs HR review
+}
+
+/**
+ * Instants to load for a filter - see attendanceQueryWindow
+ */
+export const timesheetQueryWindow = ({ from, to }: TimesheetFilter) => attendanceQueryWindow(from, to);
+
+/**
+ * Daily timesheet rows per employee, sorted by date then name
+ */
+export const buildTimesheet = (
+  events: FaceCheckEvent[],
+  employees: Employee[],
+  filter: TimesheetFilter
+): TimesheetRow[] => {
+  const included = new Map(
+    employees
+      .filter((employee) => !filter.department || employee.department === filter.department)
+      .map((employee) => [employee.id, employee])
+  );
+  const rows = new Map<string, TimesheetRow>();
+
+  // Sessions come newest first - walk them oldest first so the first check-in wins
+  for (const session of pairAttendanceSessions(events).reverse()) {
+    const employee = included.get(session.employeeId);
+    if (!employee || session.date < filter.from || session.date > filter.to) continue;
+
+    const key = `${session.employeeId}|${session.date}`;
+    const row = rows.get(key) ?? {
+      employeeId: employee.id,
+      employeeName: employee.fullName,
+      email: employee.email,
+      department: employee.department,
+      date: session.date,
+      workedMinutes: 0,
+      lateMinutes: 0,
+      sessionCount: 0,
+      incompleteSessions: 0,
+    };
+    rows.set(key, row);
+
+    row.sessionCount++;
+    if (session.workedMs === undefined) row.incompleteSessions++;
+    else row.workedMinutes += Math.round(session.workedMs / 60000);
+
+    if (session.checkIn && !row.firstIn) {
+      row.firstIn = session.checkIn.capturedAt;
+      if (session.checkIn.classification === "late") {
+        row.lateMinutes = session.checkIn.classificationMinutes ?? 0;
+      }
+    }
+    if (session.checkOut && (!row.lastOut || session.checkOut.capturedAt > row.lastOut)) {
+      row.lastOut = session.checkOut.capturedAt;
+    }
+  }
+
+  return [...rows.values()].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.employeeName.localeCompare(b.employeeName, "th")
+  );
+};
+
+// Spreadsheet columns - labels for people, JSON keys for systems
+const TIMESHEET_COLUMNS: Array<{ label: string; value: (row: TimesheetRow) => string | number }> = [
+  { label: "วันที่", value: (row) => row.date },
+  { label: "รหัสพนักงาน", value: (row) => row.employeeId },
+  { label: "ชื่อ", value: (row) => row.employeeName },
+  { label: "อีเมล", value: (row) => row.email },
+  { label: "แผนก", value: (row) => row.department ?? "" },
+  { label: "เข้างาน", value: (row) => formatClockTime(row.firstIn) },
+  { label: "ออกงาน", value: (row) => formatClockTime(row.lastOut) },
+  { label: "ชั่วโมงทำงาน", value: (row) => Math.round((row.workedMinutes / 60) * 100) / 100 },
+  { label: "สาย (นาที)", value: (row) => row.lateMinutes },
+  { label: "จำนวนรอบ", value: (row) => row.sessionCount },
+  { label: "รอบไม่ครบ", value: (row) => row.incompleteSessions },
+];
+
+const formatClockTime = (iso?: string) =>
+  iso
+    ? new Date(iso).toLocaleTimeString("th-TH", { hour: "2-digit", minute: "2-digit", hour12: false, timeZone: APP_TIME_ZONE })
+    : "";
+
+const toTable = (rows: TimesheetRow[]) => [
+  TIMESHEET_COLUMNS.map((column) => column.label),
+  ...rows.map((row) => TIMESHEET_COLUMNS.map((column) => column.value(row))),
+];
+
+// Spreadsheets run cells starting with these as formulas - names and departments are user input
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number) => {
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a BOM so Excel opens the Thai text as UTF-8
+ */
+export const timesheetToCsv = (rows: TimesheetRow[]): string =>
+  "\uFEFF" + toTable(rows).map((cells) => cells.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+
+export const timesheetToXlsx = (rows: TimesheetRow[]): Uint8Array =>
+  createXlsxWorkbook("Timesheet", toTable(rows));
+
+export interface TimesheetDocument {
+  schemaVersion: 1;
+  generatedAt: string;
+  filter: { from: string; to: string; department: string | null };
+  rows: TimesheetRow[];
+}
+
+export const timesheetToJson = (
+  rows: TimesheetRow[],
+  filter: TimesheetFilter,
+  now: Date = new Date()
+): TimesheetDocument => ({
+  schemaVersion: 1,
+  generatedAt: now.toISOString(),
+  filter: { from: filter.from, to: filter.to, department: filter.department ?? null },
+  rows,
+});
+
+/**
+ * JSON Schema of TimesheetDocument - served at /api/timesheets/schema for payroll integrations
+ */
+export const TIMESHEET_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Timesheet export",
+  type: "object",
+  required: ["schemaVersion", "generatedAt", "filter", "rows"],
+  properties: {
+    schemaVersion: { const: 1 },
+    generatedAt: { type: "string", format: "date-time" },
+    filter: {
+      type: "object",
+      required: ["from", "to", "department"],
+      properties: {
+        from: { type: "string", format: "date", description: "First day, inclusive" },
+        to: { type: "string", format: "date", description: "Last day, inclusive" },
+        department: { type: ["string", "null"] },
+      },
+    },
+    rows: {
+      type: "array",
+      description: "One row per employee per day with at least one scan, sorted by date then name",
+      items: {
+        type: "object",
+        required: ["employeeId", "employeeName", "email", "date", "workedMinutes", "lateMinutes", "sessionCount", "incompleteSessions"],
+        properties: {
+          employeeId: { type: "string" },
+          employeeName: { type: "string" },
+          email: { type: "string" },
+          department: { type: "string" },
+          date: { type: "string", format: "date" },
+          firstIn: { type: "string", format: "date-time", description: "First check-in of the day" },
+          lastOut: { type: "string", format: "date-time", description: "Last check-out of the day" },
+          workedMinutes: { type: "integer", minimum: 0, description: "Sum of paired check-in/check-out sessions" },
+          lateMinutes: { type: "integer", minimum: 0, description: "Minutes late at the first check-in, per the work schedule" },
+          sessionCount: { type: "integer", minimum: 1 },
+          incompleteSessions: { type: "integer", minimum: 0, description: "Sessions missing a check-in or check-out" },
+        },
+      },
+    },
+  },
+} as const;
+
+export const TIMESHEET_MIME_TYPES: Record<TimesheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: XLSX_MIME_TYPE,
+  json: "application/json",
+};
+
+export const timesheetFileName = ({ from, to, department }: TimesheetFilter, format: TimesheetFormat) =>
+  `timesheet_${from}_${to}${department ? `_${department.replace(/[^\p{L}\p{N}_-]+/gu, "-")}` : ""}.${format}`;
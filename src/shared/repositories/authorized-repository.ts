@@ -0,0 +1,90 @@
+import type { AppRole } from "@/entities/auth";
+import { hasRole } from "@/shared/lib/permissions";
+import type { EmployeeRepository } from "./employee-repository";
+
+// Realtime subscriptions are filtered by RLS on the server instead
+type GuardedOperation = Exclude<
+  keyof EmployeeRepository,
+  "kind" | "subscribe" | "subscribeToCheckIns" | "subscribeToRecognitionSettings"
+>;
+
+// Thrown when the caller's role may not call a repository method - API routes answer 403
+export class PermissionDeniedError extends Error {
+  constructor() {
+    super("ไม่มีสิทธิ์ดำเนินการนี้");
+    this.name = "PermissionDeniedError";
+  }
+}
+
+const ALL_ROLES: AppRole[] = ["admin", "hr", "kiosk"];
+const STAFF_ROLES: AppRole[] = ["admin", "hr"];
+const ADMIN_ONLY: AppRole[] = ["admin"];
+
+/**
+ * Roles allowed to call each repository method.
+ * Mirrors the RLS policies in supabase/schema.sql.
+ */
+export const REPOSITORY_PERMISSIONS: Record<GuardedOperation, AppRole[]> = {
+  listEmployees: ALL_ROLES, // Kiosks get the roster only (includeEmbeddings: false)
+  getEmployee: STAFF_ROLES,
+  listFaceTemplates: ["admin", "kiosk"], // On-device matching
+  matchFaceDescriptor: ["admin", "kiosk"],
+  recordCheckIn: ["admin", "kiosk"],
+  upsertEmbedding: ADMIN_ONLY,
+  upsertEmbeddings: ADMIN_ONLY,
+  appendEmbedding: ["admin", "kiosk"], // Progressive learning from kiosk matches
+  listEmbeddingAudit: STAFF_ROLES,
+  listEmbeddingMigrations: STAFF_ROLES,
+  recordEmbeddingMigration: ADMIN_ONLY,
+  recordNearMiss: ["admin", "kiosk"],
+  listNearMisses: STAFF_ROLES,
+  reviewNearMiss: ADMIN_ONLY,
+  listRecognitionSettings: ALL_ROLES,
+  saveRecognitionSettings: ADMIN_ONLY,
+  deleteRecognitionSettings: ADMIN_ONLY,
+  addEmployee: ADMIN_ONLY,
+  updateEmployee: ADMIN_ONLY,
+  deleteEmployee: ADMIN_ONLY,
+  clearEmbeddings: ADMIN_ONLY,
+  listCheckInEvents: ALL_ROLES,
+  listCheckInEventsSince: ALL_ROLES, // Kiosks seed today's check-in/out directions (RLS keeps them to the last day)
+  queryCheckInEvents: STAFF_ROLES,
+  listCheckInEventsBetween: STAFF_ROLES,
+  listAttendanceSessions: STAFF_ROLES,
+  listSchedules: ALL_ROLES,
+  createSchedule: ADMIN_ONLY,
+  updateSchedule: ADMIN_ONLY,
+  deleteSchedule: ADMIN_ONLY,
+  listCalendarEntries: ALL_ROLES, // Kiosks classify scans on holidays
+  createCalendarEntry: ADMIN_ONLY,
+  updateCalendarEntry: ADMIN_ONLY,
+  deleteCalendarEntry: ADMIN_ONLY,
+  importCalendarEntries: ADMIN_ONLY,
+  listAbsences: STAFF_ROLES,
+  replaceAbsences: ADMIN_ONLY,
+};
+
+const isGuardedOperation = (key: PropertyKey): key is GuardedOperation =>
+  typeof key === "string" && key in REPOSITORY_PERMISSIONS;
+
+/**
+ * Wrap a repository so every call checks the caller's role first
+ */
+export const withRoleGuard = (
+  repository: EmployeeRepository,
+  getRole: () => Promise<AppRole | null>,
+): EmployeeRepository =>
+  new Proxy(repository, {
+    get(target, key, receiver) {
+      const value = Reflect.get(target, key, receiver);
+      if (!isGuardedOperation(key) || typeof value !== "function") return value;
+
+      return async (...args: unknown[]) => {
+        const role = await getRole();
+        if (!hasRole(role, REPOSITORY_PERMISSIONS[key])) {
+          throw new PermissionDeniedError();
+        }
+        return value.apply(target, args);
+      };
+    },
+  });
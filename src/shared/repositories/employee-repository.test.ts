@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { FaceEmbeddingEntry } from "@/entities/employee";
+import { createEmployeeRepository } from "./employee-repository";
+
+// 128-d descriptor with most of its weight on one dimension
+const descriptor = (hot: number, spill = 0) =>
+  Array.from({ length: 128 }, (_, i) => (i === hot ? 1 - spill : i === hot + 1 ? spill : 0));
+
+const learned = (vector: number[]): FaceEmbeddingEntry => ({
+  vector,
+  angle: "front",
+  quality: 0.9,
+  createdAt: new Date().toISOString(),
+  source: "learned",
+});
+
+const enrolledRepository = async () => {
+  const repository = createEmployeeRepository();
+  const employee = await repository.addEmployee({ fullName: "สมชาย ใจดี", email: "somchai@example.com", role: "staff" });
+  const now = new Date().toISOString();
+  await repository.upsertEmbeddings(employee.id, {
+    version: "faceapi-v1",
+    entries: [{ vector: descriptor(0), angle: "front", createdAt: now }],
+    averageVector: descriptor(0),
+    createdAt: now,
+    updatedAt: now,
+    source: "camera",
+  });
+  return { repository, employeeId: employee.id };
+};
+
+describe("InMemoryEmployeeRepository.appendEmbedding", () => {
+  it("adds a descriptor close to the enrollment photos", async () => {
+    const { repository, employeeId } = await enrolledRepository();
+    const result = await repository.appendEmbedding(employeeId, learned(descriptor(0, 0.05)));
+    expect(result).toMatchObject({ action: "added", totalCount: 2 });
+  });
+
+  it("checks the stored template instead of trusting the caller", async () => {
+    const { repository, employeeId } = await enrolledRepository();
+    // Someone else's face, however confident the caller claims to be
+    const result = await repository.appendEmbedding(employeeId, learned(descriptor(10)), { similarity: 0.99 });
+    expect(result).toMatchObject({ action: "skipped", added: false, reason: "low-similarity", totalCount: 1 });
+  });
+});
@@ -1,9 +1,49 @@
 import { z } from "zod";
-import type { Employee, FaceCheckEventPayload, FaceEmbedding, FaceEmbeddings, FaceCheckEvent, FaceEmbeddingEntry } from "@/entities/employee";
+import type {
+  AttendanceSession,
+  EmbeddingAuditAction,
+  EmbeddingAuditEntry,
+  EmbeddingMigrationPayload,
+  EmbeddingMigrationRecord,
+  Employee,
+  EmployeeFaceTemplate,
+  FaceCheckEventPayload,
+  FaceEmbedding,
+  FaceEmbeddings,
+  FaceCheckEvent,
+  FaceEmbeddingEntry,
+  FaceEmbeddingVersion,
+  NearMissEvent,
+  NearMissEventPayload,
+} from "@/entities/employee";
 import { PROGRESSIVE_LEARNING_CONFIG } from "@/entities/employee";
+import type {
+  CalendarEntry,
+  CalendarEntryKind,
+  CreateCalendarEntryInput,
+  UpdateCalendarEntryInput,
+} from "@/entities/calendar";
+import type {
+  AbsencePayload,
+  AbsenceRecord,
+  CreateScheduleInput,
+  UpdateScheduleInput,
+  Weekday,
+  WorkSchedule,
+} from "@/entities/schedule";
+import type { RecognitionSettingsOverride, RecognitionSettingsRecord } from "@/entities/settings";
 import { mockEmployees } from "@/shared/mocks/employees";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AppRole } from "@/entities/auth";
 import { getSupabaseClient, hasSupabaseConfig } from "@/shared/services/supabase-client";
-import { aggregateEmbedding } from "@/shared/lib/face-embedding";
+import { getCurrentUser } from "@/shared/services/auth-service";
+import { withRoleGuard } from "./authorized-repository";
+import { aggregateEmbedding, distanceToSimilarity } from "@/shared/lib/face-embedding";
+import { getEnrolledAt, withoutEnrollmentPhotos } from "@/shared/lib/embedding-gallery";
+import { FaceVectorIndex, type VectorIndexMatch } from "@/shared/lib/face-vector-index";
+import { pairAttendanceSessions } from "@/shared/lib/attendance";
+import { evaluateLearningCandidate, type LearningRejection } from "@/shared/lib/progressive-learning";
+import { parseSettingsOverride, recognitionSettingsOverrideSchema } from "@/shared/lib/recognition-settings";
 
 const embeddingEntrySchema = z.object({
   vector: z.array(z.number()),
@@ -11,10 +51,13 @@ const embeddingEntrySchema = z.object({
   createdAt: z.string(),
   quality: z.number().optional(),
   imageDataUrl: z.string().optional(), // Base64 face image
+  imageSize: z.number().optional(),
+  source: z.enum(["enrollment", "learned"]).optional(),
+  eventKey: z.string().optional(),
 });
 
-const embeddingsSchema = z.object({
-  version: z.enum(["simple-v1", "faceapi-v1"]),
+export const embeddingsSchema = z.object({
+  version: z.enum(["simple-v1", "faceapi-v1", "landmarks-v1"]),
   entries: z.array(embeddingEntrySchema),
   averageVector: z.array(z.number()).optional(),
   createdAt: z.string(),
@@ -22,6 +65,11 @@ const embeddingsSchema = z.object({
   source: z.enum(["camera", "uploaded"]),
 });
 
+const EMPLOYEE_ROSTER_COLUMNS = "id, full_name, email, role, department, avatar_url, last_check_in";
+const EMPLOYEE_COLUMNS = `${EMPLOYEE_ROSTER_COLUMNS}, embedding_version, embedding_vector, embeddings_data`;
+// employee_roster derives enrolled_at from the template
+const EMPLOYEE_ROSTER_VIEW_COLUMNS = `${EMPLOYEE_ROSTER_COLUMNS}, enrolled_at`;
+
 const employeeRowSchema = z.object({
   id: z.string(),
   full_name: z.string(),
@@ -30,13 +78,184 @@ const employeeRowSchema = z.object({
   department: z.string().nullish(),
   avatar_url: z.string().url().nullish(),
   last_check_in: z.string().nullish(),
+  enrolled_at: z.string().nullish(), // employee_roster only
   embedding_version: z.string().nullish(),
   embedding_vector: z.array(z.number()).nullish(),
   embeddings_data: z.string().nullish(), // JSON string for multi-embeddings
 });
 
+const faceTemplateRowSchema = employeeRowSchema
+  .pick({ embedding_version: true, embedding_vector: true, embeddings_data: true })
+  .extend({ employee_id: z.string() });
+
+const scheduleRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  work_days: z.array(z.number().int().min(0).max(6)),
+  start_time: z.string(),
+  end_time: z.string(),
+  grace_minutes: z.number(),
+  department: z.string().nullish(),
+  employee_ids: z.array(z.string()).nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+const mapScheduleRow = (row: z.infer<typeof scheduleRowSchema>): WorkSchedule => ({
+  id: row.id,
+  name: row.name,
+  workDays: row.work_days as Weekday[],
+  startTime: row.start_time.slice(0, 5), // Postgres TIME comes back as HH:MM:SS
+  endTime: row.end_time.slice(0, 5),
+  graceMinutes: row.grace_minutes,
+  department: row.department ?? undefined,
+  employeeIds: row.employee_ids ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toScheduleRow = (input: UpdateScheduleInput) => ({
+  ...(input.name !== undefined && { name: input.name }),
+  ...(input.workDays !== undefined && { work_days: input.workDays }),
+  ...(input.startTime !== undefined && { start_time: input.startTime }),
+  ...(input.endTime !== undefined && { end_time: input.endTime }),
+  ...(input.graceMinutes !== undefined && { grace_minutes: input.graceMinutes }),
+  ...(input.department !== undefined && { department: input.department || null }),
+  ...(input.employeeIds !== undefined && { employee_ids: input.employeeIds }),
+});
+
+const calendarEntryRowSchema = z.object({
+  id: z.string(),
+  entry_date: z.string(),
+  name: z.string(),
+  kind: z.enum(["public-holiday", "company-closure", "working-day"]),
+  department: z.string().nullish(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+const mapCalendarEntryRow = (row: z.infer<typeof calendarEntryRowSchema>): CalendarEntry => ({
+  id: row.id,
+  date: row.entry_date,
+  name: row.name,
+  kind: row.kind as CalendarEntryKind,
+  department: row.department ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toCalendarEntryRow = (input: UpdateCalendarEntryInput) => ({
+  ...(input.date !== undefined && { entry_date: input.date }),
+  ...(input.name !== undefined && { name: input.name }),
+  ...(input.kind !== undefined && { kind: input.kind }),
+  ...(input.department !== undefined && { department: input.department || null }),
+});
+
+const absenceRowSchema = z.object({
+  id: z.string(),
+  employee_id: z.string(),
+  absence_date: z.string(),
+  schedule_id: z.string().nullish(),
+  cutoff: z.string(),
+  detected_at: z.string(),
+});
+
+const mapAbsenceRow = (row: z.infer<typeof absenceRowSchema>): AbsenceRecord => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  date: row.absence_date,
+  scheduleId: row.schedule_id ?? undefined,
+  cutoff: row.cutoff,
+  detectedAt: row.detected_at,
+});
+
+// Request body schemas shared by the API route handlers
+export const createEmployeeInputSchema = z.object({
+  fullName: z.string().trim().min(1),
+  email: z.string().email(),
+  role: z.string().trim().min(1),
+  department: z.string().optional(),
+});
+
+export const updateEmployeeInputSchema = createEmployeeInputSchema.partial().extend({
+  avatarUrl: z.string().url().optional(),
+});
+
+export const checkInEventPayloadSchema = z.object({
+  employeeId: z.string().min(1),
+  capturedAt: z.string().datetime({ offset: true }),
+  similarityScore: z.number().min(0).max(1),
+  isMatch: z.boolean(),
+  direction: z.enum(["check-in", "check-out"]).optional(),
+  classification: z.enum(["on-time", "late", "early-leave", "unscheduled"]).optional(),
+  classificationMinutes: z.number().int().min(0).optional(),
+  livenessScore: z.number().min(0).max(1).optional(),
+  idempotencyKey: z.string().min(1).max(100).optional(),
+  kioskId: z.string().min(1).max(100).optional(),
+  snapshotDataUrl: z.string().optional(),
+  embeddingVector: z.array(z.number()).optional(),
+  embeddingQuality: z.number().min(0).max(1).optional(),
+  embeddingAngle: embeddingEntrySchema.shape.angle.optional(),
+});
+
 export type EmployeeRepositoryKind = "supabase" | "memory";
 
+export interface ListEmployeesOptions {
+  includeEmbeddings?: boolean; // false = roster only - the one kiosks may read
+}
+
+/**
+ * The server refused a check event for good (constraint, validation or permission
+ * error) - sending it again can never succeed. Network errors and 5xx stay plain Errors.
+ */
+export class RejectedEventError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+    this.name = "RejectedEventError";
+  }
+}
+
+// face_check_events.employee_id has no matching employee
+const FOREIGN_KEY_VIOLATION = "23503";
+
+export const isUnknownEmployeeRejection = (err: unknown) =>
+  err instanceof RejectedEventError && err.code === FOREIGN_KEY_VIOLATION;
+
+// 4xx except expired sessions, timeouts and rate limits - those are worth retrying
+const isPermanentFailure = (status: number) =>
+  status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+
+export type CheckInMatchStatus = "matched" | "unmatched";
+
+// Filters for queryCheckInEvents - every field is optional and they combine with AND
+export interface CheckInEventQuery {
+  from?: string; // ISO instant, inclusive
+  to?: string; // ISO instant, exclusive
+  employeeIds?: string[];
+  department?: string;
+  matchStatus?: CheckInMatchStatus;
+  includeSnapshots?: boolean; // Default true
+  limit?: number; // Page size, default 50, max 500
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface CheckInEventPage {
+  events: FaceCheckEvent[]; // Newest first
+  nextCursor: string | null; // null on the last page
+}
+
+export interface CalendarRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AppendEmbeddingResult {
+  action: EmbeddingAuditAction;
+  added: boolean;
+  totalCount: number;
+  reason?: LearningRejection; // Why the server turned the entry down
+}
+
 // Input for creating a new employee
 export interface CreateEmployeeInput {
   fullName: string;
@@ -45,27 +264,75 @@ export interface CreateEmployeeInput {
   department?: string;
 }
 
+export type UpdateEmployeeInput = Partial<CreateEmployeeInput> & {
+  avatarUrl?: string;
+};
+
 // Callback type for real-time updates
 export type EmployeeChangeCallback = (employees: Employee[]) => void;
 export type CheckInEventCallback = (events: FaceCheckEvent[]) => void;
+export type RecognitionSettingsCallback = (records: RecognitionSettingsRecord[]) => void;
 
 export interface EmployeeRepository {
   kind: EmployeeRepositoryKind;
-  listEmployees(): Promise<Employee[]>;
+  listEmployees(options?: ListEmployeesOptions): Promise<Employee[]>;
   getEmployee(employeeId: string): Promise<Employee | null>;
+  // Face templates of every enrolled employee, for kiosks matching on the device
+  listFaceTemplates(): Promise<EmployeeFaceTemplate[]>;
+  // Server-side 1:N matching - closest employees first, each by its nearest template vector
+  matchFaceDescriptor(descriptor: number[], version: FaceEmbeddingVersion, count?: number): Promise<VectorIndexMatch[]>;
   recordCheckIn(event: FaceCheckEventPayload): Promise<void>;
   upsertEmbedding(employeeId: string, embedding: FaceEmbedding): Promise<void>;
   upsertEmbeddings(employeeId: string, embeddings: FaceEmbeddings): Promise<void>;
-  // Progressive learning: append a new embedding to existing ones
-  appendEmbedding(employeeId: string, entry: FaceEmbeddingEntry): Promise<{ added: boolean; totalCount: number }>;
+  // Progressive learning: append a new embedding to existing ones and record it in the audit trail
+  appendEmbedding(employeeId: string, entry: FaceEmbeddingEntry, options?: { similarity?: number }): Promise<AppendEmbeddingResult>;
+  listEmbeddingAudit(limit?: number): Promise<EmbeddingAuditEntry[]>;
+  // Template migration to the active embedding version - latest attempt per employee
+  listEmbeddingMigrations(): Promise<EmbeddingMigrationRecord[]>;
+  recordEmbeddingMigration(payload: EmbeddingMigrationPayload): Promise<EmbeddingMigrationRecord>;
+  // Ambiguous kiosk matches for review
+  recordNearMiss(event: NearMissEventPayload): Promise<void>;
+  listNearMisses(limit?: number): Promise<NearMissEvent[]>;
+  // Label a near miss with who it really was (null = someone else)
+  reviewNearMiss(eventId: string, resolvedEmployeeId: string | null): Promise<void>;
+  // Recognition settings layers - "global" plus per-kiosk overrides
+  listRecognitionSettings(): Promise<RecognitionSettingsRecord[]>;
+  saveRecognitionSettings(scope: string, settings: RecognitionSettingsOverride): Promise<RecognitionSettingsRecord>;
+  deleteRecognitionSettings(scope: string): Promise<void>;
+  subscribeToRecognitionSettings(callback: RecognitionSettingsCallback): () => void;
   addEmployee(input: CreateEmployeeInput): Promise<Employee>;
+  updateEmployee(employeeId: string, input: UpdateEmployeeInput): Promise<Employee>;
   deleteEmployee(employeeId: string): Promise<void>;
   clearEmbeddings(employeeId: string): Promise<void>;
   // Real-time subscription support
-  subscribe(callback: EmployeeChangeCallback): () => void;
+  subscribe(callback: EmployeeChangeCallback, options?: ListEmployeesOptions): () => void;
   // Check-in events
   listCheckInEvents(limit?: number): Promise<FaceCheckEvent[]>;
+  // Every event captured since an ISO instant, oldest first, without snapshots
+  listCheckInEventsSince(since: string): Promise<FaceCheckEvent[]>;
+  // Filtered events newest first, one page at a time
+  queryCheckInEvents(query: CheckInEventQuery): Promise<CheckInEventPage>;
+  // Every event captured in [from, to) (ISO instants), oldest first, without snapshots
+  listCheckInEventsBetween(from: string, to: string): Promise<FaceCheckEvent[]>;
+  // Check-in/check-out events paired into sessions with worked duration
+  listAttendanceSessions(limit?: number): Promise<AttendanceSession[]>;
   subscribeToCheckIns(callback: CheckInEventCallback): () => void;
+  // Shift schedules
+  listSchedules(): Promise<WorkSchedule[]>;
+  createSchedule(input: CreateScheduleInput): Promise<WorkSchedule>;
+  updateSchedule(scheduleId: string, input: UpdateScheduleInput): Promise<WorkSchedule>;
+  deleteSchedule(scheduleId: string): Promise<void>;
+  // Company calendar - holidays, closures and make-up working days
+  listCalendarEntries(range?: CalendarRange): Promise<CalendarEntry[]>;
+  createCalendarEntry(input: CreateCalendarEntryInput): Promise<CalendarEntry>;
+  updateCalendarEntry(entryId: string, input: UpdateCalendarEntryInput): Promise<CalendarEntry>;
+  deleteCalendarEntry(entryId: string): Promise<void>;
+  // Bulk insert from an .ics import
+  importCalendarEntries(inputs: CreateCalendarEntryInput[]): Promise<CalendarEntry[]>;
+  // Absences detected for a day (YYYY-MM-DD)
+  listAbsences(date: string): Promise<AbsenceRecord[]>;
+  // Replace a day's absences with a fresh detection run
+  replaceAbsences(date: string, absences: AbsencePayload[]): Promise<AbsenceRecord[]>;
 }
 
 /**
@@ -81,20 +348,193 @@ const parseEmbeddingsData = (jsonStr: string | null | undefined): FaceEmbeddings
   }
 };
 
+/**
+ * Roster entry without face vectors or enrollment photos
+ */
+const withoutEmbeddings = (employee: Employee): Employee => ({
+  ...employee,
+  enrolledAt: getEnrolledAt(employee),
+  embedding: undefined,
+  embeddings: undefined,
+});
+
+// An employee as a row of the in-memory face index
+const toIndexCandidate = (employee: Employee) => ({
+  id: employee.id,
+  name: employee.fullName,
+  embeddings: employee.embeddings,
+  embedding: employee.embedding,
+});
+
+/**
+ * Merge a learned entry into the employee's template and report what happened
+ */
+const mergeLearnedEntry = (employee: Employee, entry: FaceEmbeddingEntry) => {
+  const embeddings = aggregateEmbedding(
+    employee.embeddings,
+    entry,
+    {
+      maxEmbeddings: PROGRESSIVE_LEARNING_CONFIG.MAX_EMBEDDINGS,
+      replaceThreshold: PROGRESSIVE_LEARNING_CONFIG.REPLACE_THRESHOLD,
+      strategy: PROGRESSIVE_LEARNING_CONFIG.REPLACEMENT_STRATEGY,
+      minPerAngle: PROGRESSIVE_LEARNING_CONFIG.MIN_ENTRIES_PER_ANGLE,
+    }
+  );
+  const previousCount = employee.embeddings?.entries?.length ?? 0;
+  const action: EmbeddingAuditAction = !embeddings.entries.includes(entry)
+    ? "skipped"
+    : embeddings.entries.length > previousCount ? "added" : "replaced";
+  return { embeddings, action };
+};
+
+const appendResultSchema = z.object({
+  action: z.enum(["added", "replaced", "skipped"]),
+  reason: z.enum(["low-similarity", "low-quality", "no-anchor", "anchor-drift", "ambiguous", "too-soon"]).nullish(),
+  totalCount: z.number(),
+});
+
+const auditRowSchema = z.object({
+  id: z.string(),
+  employee_id: z.string(),
+  event_key: z.string().nullish(),
+  action: z.enum(["added", "replaced", "skipped"]),
+  angle: embeddingEntrySchema.shape.angle,
+  quality: z.number().nullish(),
+  similarity: z.number().nullish(),
+  created_at: z.string(),
+});
+
+// Timesheet queries leave the snapshot out - it is the bulk of every row
+const EVENT_SUMMARY_COLUMNS =
+  "id, employee_id, captured_at, similarity_score, is_match, direction, classification, classification_minutes, liveness_score, idempotency_key, kiosk_id, created_at";
+const EVENT_COLUMNS = `${EVENT_SUMMARY_COLUMNS}, snapshot`;
+const EVENT_PAGE_SIZE = 1000; // PostgREST's default max rows per request
+const DEFAULT_EVENT_QUERY_LIMIT = 50;
+const MAX_EVENT_QUERY_LIMIT = 500;
+
+const eventRowSchema = z.object({
+  id: z.string(),
+  employee_id: z.string(),
+  captured_at: z.string(),
+  similarity_score: z.number(),
+  is_match: z.boolean(),
+  direction: z.enum(["check-in", "check-out"]).nullish(),
+  classification: z.enum(["on-time", "late", "early-leave", "unscheduled"]).nullish(),
+  classification_minutes: z.number().nullish(),
+  liveness_score: z.number().nullish(),
+  idempotency_key: z.string().nullish(),
+  kiosk_id: z.string().nullish(),
+  snapshot: z.string().nullish(),
+  created_at: z.string(),
+});
+
+const mapEventRow = (row: z.infer<typeof eventRowSchema>): FaceCheckEvent => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  capturedAt: row.captured_at,
+  similarityScore: row.similarity_score,
+  isMatch: row.is_match,
+  direction: row.direction ?? "check-in",
+  classification: row.classification ?? undefined,
+  classificationMinutes: row.classification_minutes ?? undefined,
+  livenessScore: row.liveness_score ?? undefined,
+  idempotencyKey: row.idempotency_key ?? undefined,
+  kioskId: row.kiosk_id ?? undefined,
+  snapshot: row.snapshot ?? undefined,
+  createdAt: row.created_at,
+});
+
+const clampEventQueryLimit = (limit = DEFAULT_EVENT_QUERY_LIMIT) =>
+  Math.min(Math.max(Math.floor(limit), 1), MAX_EVENT_QUERY_LIMIT);
+
+// Keyset cursor - (captured_at, id) of the last event on a page, so new scans never shift later pages
+const encodeEventCursor = (event: FaceCheckEvent) => btoa(`${event.capturedAt}|${event.id}`);
+
+const decodeEventCursor = (cursor: string) => {
+  let decoded = "";
+  try {
+    decoded = atob(cursor);
+  } catch {
+    // Not base64 - rejected below
+  }
+  const [capturedAt = "", id = ""] = decoded.split("|");
+  // Both parts end up inside a PostgREST filter, so only timestamp and id characters pass
+  if (!/^[\d:.+\-TZ ]+$/.test(capturedAt) || Number.isNaN(Date.parse(capturedAt)) || !/^[\w-]+$/.test(id)) {
+    throw new Error("cursor ไม่ถูกต้อง");
+  }
+  return { capturedAt, id };
+};
+
+const nearMissRowSchema = z.object({
+  id: z.string(),
+  candidate_employee_id: z.string(),
+  runner_up_employee_id: z.string(),
+  distance: z.number(),
+  runner_up_distance: z.number(),
+  confidence_gap: z.number(),
+  snapshot: z.string().nullish(),
+  descriptor: z.array(z.number()).nullish(),
+  captured_at: z.string(),
+  reviewed_at: z.string().nullish(),
+  resolved_employee_id: z.string().nullish(),
+});
+
+const migrationRowSchema = z.object({
+  employee_id: z.string(),
+  from_version: embeddingsSchema.shape.version.nullish(),
+  target_version: embeddingsSchema.shape.version,
+  status: z.enum(["migrated", "needs-reenrollment"]),
+  reason: z.enum(["no-photos", "unsupported-backend", "too-few-faces"]).nullish(),
+  recomputed_count: z.number(),
+  skipped_count: z.number(),
+  updated_at: z.string(),
+});
+
+const faceMatchRowSchema = z.object({
+  employee_id: z.string(),
+  full_name: z.string(),
+  distance: z.number(),
+});
+
+const mapMigrationRow = (row: z.infer<typeof migrationRowSchema>): EmbeddingMigrationRecord => ({
+  employeeId: row.employee_id,
+  fromVersion: row.from_version ?? null,
+  targetVersion: row.target_version,
+  status: row.status,
+  reason: row.reason ?? undefined,
+  recomputedCount: row.recomputed_count,
+  skippedCount: row.skipped_count,
+  updatedAt: row.updated_at,
+});
+
+const settingsRowSchema = z.object({
+  scope: z.string(),
+  settings: z.unknown(),
+  updated_at: z.string().nullish(),
+});
+
+const mapSettingsRow = (row: z.infer<typeof settingsRowSchema>): RecognitionSettingsRecord => ({
+  scope: row.scope,
+  settings: parseSettingsOverride(row.settings),
+  updatedAt: row.updated_at ?? undefined,
+});
+
 class SupabaseEmployeeRepository implements EmployeeRepository {
   kind: EmployeeRepositoryKind = "supabase";
 
-  async listEmployees(): Promise<Employee[]> {
-    const client = getSupabaseClient();
+  // Defaults to the shared browser client; API routes pass a per-request client
+  constructor(private readonly supabase: SupabaseClient | null = null) {}
+
+  async listEmployees({ includeEmbeddings = true }: ListEmployeesOptions = {}): Promise<Employee[]> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    const { data, error } = await client
-      .from("employees")
-      .select(
-        "id, full_name, email, role, department, avatar_url, last_check_in, embedding_version, embedding_vector, embeddings_data",
-      );
+    // Roster reads go through the view kiosks are allowed to read
+    const { data, error } = includeEmbeddings
+      ? await client.from("employees").select(EMPLOYEE_COLUMNS)
+      : await client.from("employee_roster").select(EMPLOYEE_ROSTER_VIEW_COLUMNS);
 
     if (error) {
       throw new Error(error.message);
@@ -113,6 +553,7 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
         department: z.string().nullish(),
         avatar_url: z.string().nullish(),
         last_check_in: z.string().nullish(),
+        enrolled_at: z.string().nullish(),
         embedding_version: z.string().nullish(),
         embedding_vector: z.array(z.number()).nullish(),
         embeddings_data: z.string().nullish(),
@@ -128,6 +569,7 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
           department: row.department ?? undefined,
           avatarUrl: row.avatar_url ?? undefined,
           lastCheckIn: row.last_check_in ?? undefined,
+          enrolledAt: row.enrolled_at ?? undefined,
           embedding:
             row.embedding_vector && row.embedding_version
               ? {
@@ -156,6 +598,7 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
       department: row.department ?? undefined,
       avatarUrl: row.avatar_url ?? undefined,
       lastCheckIn: row.last_check_in ?? undefined,
+      enrolledAt: row.enrolled_at ?? undefined,
       // Legacy single embedding (backward compatible)
       embedding:
         row.embedding_vector && row.embedding_version
@@ -172,16 +615,14 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
   }
 
   async getEmployee(employeeId: string): Promise<Employee | null> {
-    const client = getSupabaseClient();
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
     const { data, error } = await client
       .from("employees")
-      .select(
-        "id, full_name, email, role, department, avatar_url, last_check_in, embedding_version, embedding_vector, embeddings_data",
-      )
+      .select(EMPLOYEE_COLUMNS)
       .eq("id", employeeId)
       .single();
 
@@ -213,38 +654,92 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
     };
   }
 
+  async listFaceTemplates(): Promise<EmployeeFaceTemplate[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client.rpc("list_face_templates");
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(faceTemplateRowSchema).parse(data ?? []).map((row) => ({
+      employeeId: row.employee_id,
+      embedding:
+        row.embedding_vector && row.embedding_version
+          ? {
+              version: row.embedding_version as FaceEmbedding["version"],
+              createdAt: new Date().toISOString(),
+              source: "camera" as const,
+              vector: row.embedding_vector,
+            }
+          : undefined,
+      embeddings: parseEmbeddingsData(row.embeddings_data),
+    }));
+  }
+
+  async matchFaceDescriptor(
+    descriptor: number[],
+    version: FaceEmbeddingVersion,
+    count = 2
+  ): Promise<VectorIndexMatch[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client.rpc("match_face_descriptor", {
+      query: descriptor,
+      query_version: version,
+      match_count: count,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(faceMatchRowSchema).parse(data ?? []).map((row) => ({
+      employeeId: row.employee_id,
+      employeeName: row.full_name,
+      distance: row.distance,
+    }));
+  }
+
   async recordCheckIn(event: FaceCheckEventPayload): Promise<void> {
-    const client = getSupabaseClient();
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    const { error: insertError } = await client.from("face_check_events").insert({
+    const { error: insertError, status } = await client.from("face_check_events").insert({
       employee_id: event.employeeId,
       captured_at: event.capturedAt,
       similarity_score: event.similarityScore,
       is_match: event.isMatch,
+      direction: event.direction ?? "check-in",
+      classification: event.classification,
+      classification_minutes: event.classificationMinutes,
+      liveness_score: event.livenessScore,
+      idempotency_key: event.idempotencyKey,
+      kiosk_id: event.kioskId,
       snapshot: event.snapshotDataUrl,
     });
 
     if (insertError) {
+      // Unique idempotency_key - this event was already stored by an earlier replay
+      if (insertError.code === "23505" && event.idempotencyKey) return;
+      if (isPermanentFailure(status)) throw new RejectedEventError(insertError.message, status, insertError.code);
       throw new Error(insertError.message);
     }
-
-    const { error: updateError } = await client
-      .from("employees")
-      .update({
-        last_check_in: event.capturedAt,
-      })
-      .eq("id", event.employeeId);
-
-    if (updateError) {
-      throw new Error(updateError.message);
-    }
+    // employees.last_check_in is maintained by a database trigger so kiosk
+    // devices never write employee identity columns
   }
 
   async upsertEmbedding(employeeId: string, embedding: FaceEmbedding): Promise<void> {
-    const client = getSupabaseClient();
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
@@ -264,7 +759,7 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
   }
 
   async upsertEmbeddings(employeeId: string, embeddings: FaceEmbeddings): Promise<void> {
-    const client = getSupabaseClient();
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
@@ -283,151 +778,147 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
     }
   }
 
-  async appendEmbedding(employeeId: string, entry: FaceEmbeddingEntry): Promise<{ added: boolean; totalCount: number }> {
-    const client = getSupabaseClient();
+  async appendEmbedding(
+    employeeId: string,
+    entry: FaceEmbeddingEntry,
+    options: { similarity?: number } = {}
+  ): Promise<AppendEmbeddingResult> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    // First, get current embeddings
-    const employee = await this.getEmployee(employeeId);
-    if (!employee) {
-      throw new Error("ไม่พบพนักงาน");
-    }
-
-    // Aggregate the new embedding with existing ones
-    const updatedEmbeddings = aggregateEmbedding(
-      employee.embeddings,
-      entry,
-      {
-        maxEmbeddings: PROGRESSIVE_LEARNING_CONFIG.MAX_EMBEDDINGS,
-        replaceThreshold: PROGRESSIVE_LEARNING_CONFIG.REPLACE_THRESHOLD,
-      }
-    );
-
-    // Check if embedding was actually added/updated
-    const previousCount = employee.embeddings?.entries?.length ?? 0;
-    const newCount = updatedEmbeddings.entries.length;
-    const added = newCount > previousCount || 
-      (newCount === previousCount && previousCount > 0); // Replaced existing
+    // The server re-checks the drift guards and picks the entry to replace -
+    // kiosks cannot write templates directly
+    const { data, error } = await client.rpc("append_learned_embedding", {
+      target_id: employeeId,
+      new_entry: {
+        vector: entry.vector,
+        angle: entry.angle,
+        quality: entry.quality,
+        eventKey: entry.eventKey,
+      },
+      match_similarity: options.similarity ?? null,
+    });
 
-    // Save updated embeddings
-    await this.upsertEmbeddings(employeeId, updatedEmbeddings);
+    if (error) {
+      throw new Error(error.message);
+    }
 
-    return { added, totalCount: newCount };
+    const result = appendResultSchema.parse(data);
+    return {
+      action: result.action,
+      added: result.action !== "skipped",
+      totalCount: result.totalCount,
+      reason: result.reason ?? undefined,
+    };
   }
 
-  async addEmployee(input: CreateEmployeeInput): Promise<Employee> {
-    const client = getSupabaseClient();
+  async listEmbeddingAudit(limit = 200): Promise<EmbeddingAuditEntry[]> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
     const { data, error } = await client
-      .from("employees")
-      .insert({
-        full_name: input.fullName,
-        email: input.email,
-        role: input.role,
-        department: input.department,
-      })
-      .select()
-      .single();
+      .from("embedding_audit")
+      .select("id, employee_id, event_key, action, angle, quality, similarity, created_at")
+      .order("created_at", { ascending: false })
+      .limit(limit);
 
     if (error) {
       throw new Error(error.message);
     }
 
-    return {
-      id: data.id,
-      fullName: data.full_name,
-      email: data.email,
-      role: data.role,
-      department: data.department ?? undefined,
-      avatarUrl: data.avatar_url ?? undefined,
-    };
+    return z.array(auditRowSchema).parse(data ?? []).map((row) => ({
+      id: row.id,
+      employeeId: row.employee_id,
+      eventKey: row.event_key ?? undefined,
+      action: row.action,
+      angle: row.angle,
+      quality: row.quality ?? undefined,
+      similarity: row.similarity ?? undefined,
+      createdAt: row.created_at,
+    }));
   }
 
-  async deleteEmployee(employeeId: string): Promise<void> {
-    const client = getSupabaseClient();
+  async listEmbeddingMigrations(): Promise<EmbeddingMigrationRecord[]> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    const { error } = await client
-      .from("employees")
-      .delete()
-      .eq("id", employeeId);
+    const { data, error } = await client
+      .from("embedding_migrations")
+      .select("*")
+      .order("updated_at", { ascending: false });
 
     if (error) {
       throw new Error(error.message);
     }
+
+    return z.array(migrationRowSchema).parse(data ?? []).map(mapMigrationRow);
   }
 
-  async clearEmbeddings(employeeId: string): Promise<void> {
-    const client = getSupabaseClient();
+  async recordEmbeddingMigration(payload: EmbeddingMigrationPayload): Promise<EmbeddingMigrationRecord> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    const { error } = await client
-      .from("employees")
-      .update({
-        embedding_vector: null,
-        embedding_version: null,
-        embeddings_data: null,
+    const { data, error } = await client
+      .from("embedding_migrations")
+      .upsert({
+        employee_id: payload.employeeId,
+        from_version: payload.fromVersion,
+        target_version: payload.targetVersion,
+        status: payload.status,
+        reason: payload.reason ?? null,
+        recomputed_count: payload.recomputedCount,
+        skipped_count: payload.skippedCount,
+        updated_at: new Date().toISOString(),
       })
-      .eq("id", employeeId);
+      .select("*")
+      .single();
 
     if (error) {
       throw new Error(error.message);
     }
+
+    return mapMigrationRow(migrationRowSchema.parse(data));
   }
 
-  subscribe(callback: EmployeeChangeCallback): () => void {
-    const client = getSupabaseClient();
+  async recordNearMiss(event: NearMissEventPayload): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
-      console.warn("Supabase not configured, real-time updates disabled");
-      return () => {};
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    // Subscribe to changes on the employees table
-    const channel = client
-      .channel("employees-changes")
-      .on(
-        "postgres_changes",
-        {
-          event: "*", // Listen to all events (INSERT, UPDATE, DELETE)
-          schema: "public",
-          table: "employees",
-        },
-        async () => {
-          // Re-fetch all employees when any change occurs
-          try {
-            const employees = await this.listEmployees();
-            callback(employees);
-          } catch (err) {
-            console.error("Failed to fetch employees after change:", err);
-          }
-        }
-      )
-      .subscribe();
+    const { error } = await client.from("near_miss_events").insert({
+      candidate_employee_id: event.candidateEmployeeId,
+      runner_up_employee_id: event.runnerUpEmployeeId,
+      distance: event.distance,
+      runner_up_distance: event.runnerUpDistance,
+      confidence_gap: event.confidenceGap,
+      snapshot: event.snapshot,
+      descriptor: event.descriptor,
+      captured_at: event.capturedAt,
+    });
 
-    // Return unsubscribe function
-    return () => {
-      client.removeChannel(channel);
-    };
+    if (error) {
+      throw new Error(error.message);
+    }
   }
 
-  async listCheckInEvents(limit = 50): Promise<FaceCheckEvent[]> {
-    const client = getSupabaseClient();
+  async listNearMisses(limit = 100): Promise<NearMissEvent[]> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
       throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
     const { data, error } = await client
-      .from("face_check_events")
-      .select("id, employee_id, captured_at, similarity_score, is_match, snapshot, created_at")
+      .from("near_miss_events")
+      .select("*")
       .order("captured_at", { ascending: false })
       .limit(limit);
 
@@ -435,40 +926,412 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
       throw new Error(error.message);
     }
 
-    return (data ?? []).map((row) => ({
+    return z.array(nearMissRowSchema).parse(data ?? []).map((row) => ({
       id: row.id,
-      employeeId: row.employee_id,
-      capturedAt: row.captured_at,
-      similarityScore: row.similarity_score,
-      isMatch: row.is_match,
+      candidateEmployeeId: row.candidate_employee_id,
+      runnerUpEmployeeId: row.runner_up_employee_id,
+      distance: row.distance,
+      runnerUpDistance: row.runner_up_distance,
+      confidenceGap: row.confidence_gap,
       snapshot: row.snapshot ?? undefined,
-      createdAt: row.created_at,
+      descriptor: row.descriptor ?? undefined,
+      capturedAt: row.captured_at,
+      reviewedAt: row.reviewed_at ?? undefined,
+      resolvedEmployeeId: row.resolved_employee_id ?? undefined,
     }));
   }
 
-  subscribeToCheckIns(callback: CheckInEventCallback): () => void {
-    const client = getSupabaseClient();
+  async reviewNearMiss(eventId: string, resolvedEmployeeId: string | null): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
     if (!client) {
-      console.warn("Supabase not configured, real-time check-in updates disabled");
-      return () => {};
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
     }
 
-    // Subscribe to changes on the face_check_events table
-    const channel = client
-      .channel("checkin-events-changes")
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT", // Only listen to new check-ins
-          schema: "public",
-          table: "face_check_events",
-        },
-        async () => {
-          // Re-fetch recent events when a new check-in occurs
-          try {
-            const events = await this.listCheckInEvents(50);
-            callback(events);
-          } catch (err) {
+    const { error } = await client
+      .from("near_miss_events")
+      .update({ resolved_employee_id: resolvedEmployeeId, reviewed_at: new Date().toISOString() })
+      .eq("id", eventId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async listRecognitionSettings(): Promise<RecognitionSettingsRecord[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("recognition_settings")
+      .select("scope, settings, updated_at")
+      .order("scope");
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(settingsRowSchema).parse(data ?? []).map(mapSettingsRow);
+  }
+
+  async saveRecognitionSettings(
+    scope: string,
+    settings: RecognitionSettingsOverride
+  ): Promise<RecognitionSettingsRecord> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("recognition_settings")
+      .upsert({
+        scope,
+        settings: recognitionSettingsOverrideSchema.parse(settings),
+        updated_at: new Date().toISOString(),
+      })
+      .select("scope, settings, updated_at")
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return mapSettingsRow(settingsRowSchema.parse(data));
+  }
+
+  async deleteRecognitionSettings(scope: string): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { error } = await client
+      .from("recognition_settings")
+      .delete()
+      .eq("scope", scope);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  subscribeToRecognitionSettings(callback: RecognitionSettingsCallback): () => void {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      console.warn("Supabase not configured, live settings updates disabled");
+      return () => {};
+    }
+
+    const channel = client
+      .channel("recognition-settings-changes")
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "recognition_settings",
+        },
+        async () => {
+          // Re-fetch every layer - a global change affects all kiosks
+          try {
+            callback(await this.listRecognitionSettings());
+          } catch (err) {
+            console.error("Failed to fetch recognition settings after change:", err);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }
+
+  async addEmployee(input: CreateEmployeeInput): Promise<Employee> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("employees")
+      .insert({
+        full_name: input.fullName,
+        email: input.email,
+        role: input.role,
+        department: input.department,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      id: data.id,
+      fullName: data.full_name,
+      email: data.email,
+      role: data.role,
+      department: data.department ?? undefined,
+      avatarUrl: data.avatar_url ?? undefined,
+    };
+  }
+
+  async updateEmployee(employeeId: string, input: UpdateEmployeeInput): Promise<Employee> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { error } = await client
+      .from("employees")
+      .update({
+        ...(input.fullName !== undefined && { full_name: input.fullName }),
+        ...(input.email !== undefined && { email: input.email }),
+        ...(input.role !== undefined && { role: input.role }),
+        ...(input.department !== undefined && { department: input.department || null }),
+        ...(input.avatarUrl !== undefined && { avatar_url: input.avatarUrl || null }),
+      })
+      .eq("id", employeeId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const employee = await this.getEmployee(employeeId);
+    if (!employee) {
+      throw new Error("ไม่พบพนักงาน");
+    }
+    return employee;
+  }
+
+  async deleteEmployee(employeeId: string): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { error } = await client
+      .from("employees")
+      .delete()
+      .eq("id", employeeId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async clearEmbeddings(employeeId: string): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { error } = await client
+      .from("employees")
+      .update({
+        embedding_vector: null,
+        embedding_version: null,
+        embeddings_data: null,
+      })
+      .eq("id", employeeId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  subscribe(callback: EmployeeChangeCallback, options?: ListEmployeesOptions): () => void {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      console.warn("Supabase not configured, real-time updates disabled");
+      return () => {};
+    }
+
+    // Subscribe to changes on the employees table
+    const channel = client
+      .channel("employees-changes")
+      .on(
+        "postgres_changes",
+        {
+          event: "*", // Listen to all events (INSERT, UPDATE, DELETE)
+          schema: "public",
+          table: "employees",
+        },
+        async () => {
+          // Re-fetch all employees when any change occurs
+          try {
+            const employees = await this.listEmployees(options);
+            callback(employees);
+          } catch (err) {
+            console.error("Failed to fetch employees after change:", err);
+          }
+        }
+      )
+      .subscribe();
+
+    // Return unsubscribe function
+    return () => {
+      client.removeChannel(channel);
+    };
+  }
+
+  async listCheckInEvents(limit = 50): Promise<FaceCheckEvent[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("face_check_events")
+      .select(EVENT_COLUMNS)
+      .order("captured_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(eventRowSchema).parse(data ?? []).map(mapEventRow);
+  }
+
+  async listCheckInEventsSince(since: string): Promise<FaceCheckEvent[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    // A busy day of scans is past one response
+    const events: FaceCheckEvent[] = [];
+    for (let offset = 0; ; offset += EVENT_PAGE_SIZE) {
+      const { data, error } = await client
+        .from("face_check_events")
+        .select(EVENT_SUMMARY_COLUMNS)
+        .gte("captured_at", since)
+        .order("captured_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + EVENT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const rows = z.array(eventRowSchema).parse(data ?? []);
+      events.push(...rows.map(mapEventRow));
+      if (rows.length < EVENT_PAGE_SIZE) return events;
+    }
+  }
+
+  async queryCheckInEvents({
+    from,
+    to,
+    employeeIds,
+    department,
+    matchStatus,
+    includeSnapshots = true,
+    limit,
+    cursor,
+  }: CheckInEventQuery): Promise<CheckInEventPage> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const pageSize = clampEventQueryLimit(limit);
+    const columns = includeSnapshots ? EVENT_COLUMNS : EVENT_SUMMARY_COLUMNS;
+    // The inner join drops events of employees outside the department
+    let request = client
+      .from("face_check_events")
+      .select(department ? `${columns}, employees!inner(department)` : columns);
+    if (from) request = request.gte("captured_at", from);
+    if (to) request = request.lt("captured_at", to);
+    if (employeeIds) request = request.in("employee_id", employeeIds);
+    if (department) request = request.eq("employees.department", department);
+    if (matchStatus) request = request.eq("is_match", matchStatus === "matched");
+    if (cursor) {
+      const after = decodeEventCursor(cursor);
+      request = request.or(
+        `captured_at.lt."${after.capturedAt}",and(captured_at.eq."${after.capturedAt}",id.lt.${after.id})`
+      );
+    }
+
+    // One extra row tells whether another page exists
+    const { data, error } = await request
+      .order("captured_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(pageSize + 1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const events = z.array(eventRowSchema).parse(data ?? []).map(mapEventRow);
+    const page = events.slice(0, pageSize);
+    return {
+      events: page,
+      nextCursor: events.length > pageSize ? encodeEventCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  async listCheckInEventsBetween(from: string, to: string): Promise<FaceCheckEvent[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    // Page through the range - a month of scans is well past one response
+    const events: FaceCheckEvent[] = [];
+    for (let offset = 0; ; offset += EVENT_PAGE_SIZE) {
+      const { data, error } = await client
+        .from("face_check_events")
+        .select(EVENT_SUMMARY_COLUMNS)
+        .gte("captured_at", from)
+        .lt("captured_at", to)
+        .order("captured_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + EVENT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      const rows = z.array(eventRowSchema).parse(data ?? []);
+      events.push(...rows.map(mapEventRow));
+      if (rows.length < EVENT_PAGE_SIZE) return events;
+    }
+  }
+
+  async listAttendanceSessions(limit = 200): Promise<AttendanceSession[]> {
+    const events = await this.listCheckInEvents(limit);
+    return pairAttendanceSessions(events);
+  }
+
+  subscribeToCheckIns(callback: CheckInEventCallback): () => void {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      console.warn("Supabase not configured, real-time check-in updates disabled");
+      return () => {};
+    }
+
+    // Subscribe to changes on the face_check_events table
+    const channel = client
+      .channel("checkin-events-changes")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT", // Only listen to new check-ins
+          schema: "public",
+          table: "face_check_events",
+        },
+        async () => {
+          // Re-fetch recent events when a new check-in occurs
+          try {
+            const events = await this.listCheckInEvents(50);
+            callback(events);
+          } catch (err) {
             console.error("Failed to fetch check-in events after change:", err);
           }
         }
@@ -480,23 +1343,257 @@ class SupabaseEmployeeRepository implements EmployeeRepository {
       client.removeChannel(channel);
     };
   }
+
+  async listSchedules(): Promise<WorkSchedule[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("work_schedules")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(scheduleRowSchema).parse(data ?? []).map(mapScheduleRow);
+  }
+
+  async createSchedule(input: CreateScheduleInput): Promise<WorkSchedule> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("work_schedules")
+      .insert(toScheduleRow(input))
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return mapScheduleRow(scheduleRowSchema.parse(data));
+  }
+
+  async updateSchedule(scheduleId: string, input: UpdateScheduleInput): Promise<WorkSchedule> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("work_schedules")
+      .update(toScheduleRow(input))
+      .eq("id", scheduleId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return mapScheduleRow(scheduleRowSchema.parse(data));
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { error } = await client
+      .from("work_schedules")
+      .delete()
+      .eq("id", scheduleId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async listCalendarEntries({ from, to }: CalendarRange = {}): Promise<CalendarEntry[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    let query = client.from("calendar_entries").select("*");
+    if (from) query = query.gte("entry_date", from);
+    if (to) query = query.lte("entry_date", to);
+    const { data, error } = await query.order("entry_date", { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(calendarEntryRowSchema).parse(data ?? []).map(mapCalendarEntryRow);
+  }
+
+  async createCalendarEntry(input: CreateCalendarEntryInput): Promise<CalendarEntry> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("calendar_entries")
+      .insert(toCalendarEntryRow(input))
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return mapCalendarEntryRow(calendarEntryRowSchema.parse(data));
+  }
+
+  async updateCalendarEntry(entryId: string, input: UpdateCalendarEntryInput): Promise<CalendarEntry> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("calendar_entries")
+      .update(toCalendarEntryRow(input))
+      .eq("id", entryId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return mapCalendarEntryRow(calendarEntryRowSchema.parse(data));
+  }
+
+  async deleteCalendarEntry(entryId: string): Promise<void> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { error } = await client
+      .from("calendar_entries")
+      .delete()
+      .eq("id", entryId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async importCalendarEntries(inputs: CreateCalendarEntryInput[]): Promise<CalendarEntry[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    if (inputs.length === 0) return [];
+
+    const { data, error } = await client
+      .from("calendar_entries")
+      .insert(inputs.map(toCalendarEntryRow))
+      .select();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(calendarEntryRowSchema).parse(data ?? []).map(mapCalendarEntryRow);
+  }
+
+  async listAbsences(date: string): Promise<AbsenceRecord[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    const { data, error } = await client
+      .from("absence_records")
+      .select("*")
+      .eq("absence_date", date)
+      .order("employee_id", { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(absenceRowSchema).parse(data ?? []).map(mapAbsenceRow);
+  }
+
+  async replaceAbsences(date: string, absences: AbsencePayload[]): Promise<AbsenceRecord[]> {
+    const client = this.supabase ?? getSupabaseClient();
+    if (!client) {
+      throw new Error("ยังไม่ได้ตั้งค่า Supabase");
+    }
+
+    // Delete + insert in one transaction. Re-runs drop employees who have since checked in.
+    const { data, error } = await client.rpc("replace_absences", {
+      target_date: date,
+      records: absences.map((absence) => ({
+        employee_id: absence.employeeId,
+        schedule_id: absence.scheduleId ?? null,
+        cutoff: absence.cutoff,
+      })),
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return z.array(absenceRowSchema).parse(data ?? []).map(mapAbsenceRow);
+  }
 }
 
 class InMemoryEmployeeRepository implements EmployeeRepository {
   kind: EmployeeRepositoryKind = "memory";
   private employees = [...mockEmployees];
 
-  async listEmployees(): Promise<Employee[]> {
-    return [...this.employees];
+  async listEmployees({ includeEmbeddings = true }: ListEmployeesOptions = {}): Promise<Employee[]> {
+    return includeEmbeddings ? [...this.employees] : this.employees.map(withoutEmbeddings);
   }
 
   async getEmployee(employeeId: string): Promise<Employee | null> {
     return this.employees.find((emp) => emp.id === employeeId) ?? null;
   }
 
+  async listFaceTemplates(): Promise<EmployeeFaceTemplate[]> {
+    return this.employees
+      .filter((emp) => emp.embedding || emp.embeddings)
+      .map((emp) => ({
+        employeeId: emp.id,
+        embedding: emp.embedding,
+        embeddings: withoutEnrollmentPhotos(emp.embeddings),
+      }));
+  }
+
+  async matchFaceDescriptor(
+    descriptor: number[],
+    version: FaceEmbeddingVersion,
+    count = 2
+  ): Promise<VectorIndexMatch[]> {
+    return new FaceVectorIndex(this.employees.map(toIndexCandidate), version).search(descriptor, count);
+  }
+
   async recordCheckIn(event: FaceCheckEventPayload): Promise<void> {
+    if (event.idempotencyKey && this.checkInEvents.some((e) => e.idempotencyKey === event.idempotencyKey)) {
+      return;
+    }
+    // Same answer as the foreign key in Supabase
+    if (!this.employees.some((employee) => employee.id === event.employeeId)) {
+      throw new RejectedEventError("ไม่พบพนักงาน", 409, FOREIGN_KEY_VIOLATION);
+    }
+    const direction = event.direction ?? "check-in";
     this.employees = this.employees.map((employee) =>
-      employee.id === event.employeeId
+      employee.id === event.employeeId && direction === "check-in"
         ? {
             ...employee,
             lastCheckIn: event.capturedAt,
@@ -506,11 +1603,18 @@ class InMemoryEmployeeRepository implements EmployeeRepository {
     
     // Add to check-in events
     const checkInEvent: FaceCheckEvent = {
-      id: `evt_${Date.now()}`,
+      // Unique even within one millisecond - page cursors rely on it
+      id: `evt_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
       employeeId: event.employeeId,
       capturedAt: event.capturedAt,
       similarityScore: event.similarityScore,
       isMatch: event.isMatch,
+      direction,
+      classification: event.classification,
+      classificationMinutes: event.classificationMinutes,
+      livenessScore: event.livenessScore,
+      idempotencyKey: event.idempotencyKey,
+      kioskId: event.kioskId,
       snapshot: event.snapshotDataUrl,
       createdAt: new Date().toISOString(),
     };
@@ -544,28 +1648,139 @@ class InMemoryEmployeeRepository implements EmployeeRepository {
     this.notifySubscribers();
   }
 
-  async appendEmbedding(employeeId: string, entry: FaceEmbeddingEntry): Promise<{ added: boolean; totalCount: number }> {
+  async appendEmbedding(
+    employeeId: string,
+    entry: FaceEmbeddingEntry,
+    options: { similarity?: number } = {}
+  ): Promise<AppendEmbeddingResult> {
     const employee = await this.getEmployee(employeeId);
     if (!employee) {
       throw new Error("ไม่พบพนักงาน");
     }
 
-    const updatedEmbeddings = aggregateEmbedding(
-      employee.embeddings,
-      entry,
+    // The append_learned_embedding checks, against the stored templates rather than the caller's numbers
+    const version = employee.embeddings?.version;
+    const search = (candidates: Employee[]) =>
+      version ? new FaceVectorIndex(candidates.map(toIndexCandidate), version).search(entry.vector, 1)[0] : undefined;
+    const own = search([employee]);
+    const competitor = search(this.employees.filter((emp) => emp.id !== employeeId));
+    const decision = evaluateLearningCandidate({
+      employee,
+      vector: entry.vector,
+      angle: entry.angle,
+      quality: entry.quality ?? 0,
+      similarity: own ? distanceToSimilarity(own.distance) : 0,
+      ownDistance: own?.distance ?? Infinity,
+      competitorDistance: competitor?.distance,
+      eventKey: entry.eventKey,
+    });
+    if (!decision.accepted) {
+      return {
+        action: "skipped",
+        added: false,
+        reason: decision.reason,
+        totalCount: employee.embeddings?.entries.length ?? 0,
+      };
+    }
+
+    const { embeddings, action } = mergeLearnedEntry(employee, decision.entry);
+    if (action !== "skipped") {
+      await this.upsertEmbeddings(employeeId, embeddings);
+    }
+
+    this.embeddingAudit = [
       {
-        maxEmbeddings: PROGRESSIVE_LEARNING_CONFIG.MAX_EMBEDDINGS,
-        replaceThreshold: PROGRESSIVE_LEARNING_CONFIG.REPLACE_THRESHOLD,
-      }
+        id: `aud_${Date.now()}`,
+        employeeId,
+        eventKey: decision.entry.eventKey,
+        action,
+        angle: decision.entry.angle,
+        quality: decision.entry.quality,
+        similarity: options.similarity,
+        createdAt: new Date().toISOString(),
+      },
+      ...this.embeddingAudit,
+    ];
+
+    return { action, added: action !== "skipped", totalCount: embeddings.entries.length };
+  }
+
+  private embeddingAudit: EmbeddingAuditEntry[] = [];
+
+  async listEmbeddingAudit(limit = 200): Promise<EmbeddingAuditEntry[]> {
+    return this.embeddingAudit.slice(0, limit);
+  }
+
+  private embeddingMigrations: EmbeddingMigrationRecord[] = [];
+
+  async listEmbeddingMigrations(): Promise<EmbeddingMigrationRecord[]> {
+    return [...this.embeddingMigrations];
+  }
+
+  async recordEmbeddingMigration(payload: EmbeddingMigrationPayload): Promise<EmbeddingMigrationRecord> {
+    const record: EmbeddingMigrationRecord = { ...payload, updatedAt: new Date().toISOString() };
+    this.embeddingMigrations = [
+      record,
+      ...this.embeddingMigrations.filter((r) => r.employeeId !== payload.employeeId),
+    ];
+    return record;
+  }
+
+  private nearMisses: NearMissEvent[] = [];
+
+  async recordNearMiss(event: NearMissEventPayload): Promise<void> {
+    this.nearMisses = [{ id: `nm_${Date.now()}`, ...event }, ...this.nearMisses];
+  }
+
+  async listNearMisses(limit = 100): Promise<NearMissEvent[]> {
+    return this.nearMisses.slice(0, limit);
+  }
+
+  async reviewNearMiss(eventId: string, resolvedEmployeeId: string | null): Promise<void> {
+    this.nearMisses = this.nearMisses.map((event) =>
+      event.id === eventId
+        ? { ...event, resolvedEmployeeId: resolvedEmployeeId ?? undefined, reviewedAt: new Date().toISOString() }
+        : event,
     );
+  }
 
-    const previousCount = employee.embeddings?.entries?.length ?? 0;
-    const newCount = updatedEmbeddings.entries.length;
-    const added = newCount > previousCount || (newCount === previousCount && previousCount > 0);
+  private settingsRecords: RecognitionSettingsRecord[] = [];
+  private settingsSubscribers: Set<RecognitionSettingsCallback> = new Set();
 
-    await this.upsertEmbeddings(employeeId, updatedEmbeddings);
+  private notifySettingsSubscribers(): void {
+    this.settingsSubscribers.forEach((callback) => {
+      callback([...this.settingsRecords]);
+    });
+  }
 
-    return { added, totalCount: newCount };
+  async listRecognitionSettings(): Promise<RecognitionSettingsRecord[]> {
+    return [...this.settingsRecords];
+  }
+
+  async saveRecognitionSettings(
+    scope: string,
+    settings: RecognitionSettingsOverride
+  ): Promise<RecognitionSettingsRecord> {
+    const record: RecognitionSettingsRecord = {
+      scope,
+      settings: recognitionSettingsOverrideSchema.parse(settings),
+      updatedAt: new Date().toISOString(),
+    };
+    this.settingsRecords = [...this.settingsRecords.filter((r) => r.scope !== scope), record];
+    this.notifySettingsSubscribers();
+    return record;
+  }
+
+  async deleteRecognitionSettings(scope: string): Promise<void> {
+    this.settingsRecords = this.settingsRecords.filter((r) => r.scope !== scope);
+    this.notifySettingsSubscribers();
+  }
+
+  subscribeToRecognitionSettings(callback: RecognitionSettingsCallback): () => void {
+    this.settingsSubscribers.add(callback);
+    return () => {
+      this.settingsSubscribers.delete(callback);
+    };
   }
 
   async addEmployee(input: CreateEmployeeInput): Promise<Employee> {
@@ -581,6 +1796,17 @@ class InMemoryEmployeeRepository implements EmployeeRepository {
     return newEmployee;
   }
 
+  async updateEmployee(employeeId: string, input: UpdateEmployeeInput): Promise<Employee> {
+    const existing = await this.getEmployee(employeeId);
+    if (!existing) {
+      throw new Error("ไม่พบพนักงาน");
+    }
+    const updated: Employee = { ...existing, ...input };
+    this.employees = this.employees.map((emp) => (emp.id === employeeId ? updated : emp));
+    this.notifySubscribers();
+    return updated;
+  }
+
   async deleteEmployee(employeeId: string): Promise<void> {
     this.employees = this.employees.filter((emp) => emp.id !== employeeId);
     this.notifySubscribers();
@@ -615,10 +1841,13 @@ class InMemoryEmployeeRepository implements EmployeeRepository {
     });
   }
 
-  subscribe(callback: EmployeeChangeCallback): () => void {
-    this.subscribers.add(callback);
+  subscribe(callback: EmployeeChangeCallback, { includeEmbeddings = true }: ListEmployeesOptions = {}): () => void {
+    const subscriber: EmployeeChangeCallback = includeEmbeddings
+      ? callback
+      : (employees) => callback(employees.map(withoutEmbeddings));
+    this.subscribers.add(subscriber);
     return () => {
-      this.subscribers.delete(callback);
+      this.subscribers.delete(subscriber);
     };
   }
 
@@ -626,18 +1855,189 @@ class InMemoryEmployeeRepository implements EmployeeRepository {
     return this.checkInEvents.slice(0, limit);
   }
 
+  async listCheckInEventsSince(since: string): Promise<FaceCheckEvent[]> {
+    const start = new Date(since).getTime();
+    return this.checkInEvents
+      .filter((event) => new Date(event.capturedAt).getTime() >= start)
+      .map((event) => ({ ...event, snapshot: undefined }))
+      .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime());
+  }
+
+  async queryCheckInEvents({
+    from,
+    to,
+    employeeIds,
+    department,
+    matchStatus,
+    includeSnapshots = true,
+    limit,
+    cursor,
+  }: CheckInEventQuery): Promise<CheckInEventPage> {
+    const pageSize = clampEventQueryLimit(limit);
+    const start = from ? new Date(from).getTime() : -Infinity;
+    const end = to ? new Date(to).getTime() : Infinity;
+    const after = cursor ? decodeEventCursor(cursor) : null;
+    const afterTime = after ? new Date(after.capturedAt).getTime() : Infinity;
+    const departmentIds = department
+      ? new Set(this.employees.filter((e) => e.department === department).map((e) => e.id))
+      : null;
+
+    const events = this.checkInEvents
+      .filter((event) => {
+        const time = new Date(event.capturedAt).getTime();
+        return (
+          time >= start &&
+          time < end &&
+          (!employeeIds || employeeIds.includes(event.employeeId)) &&
+          (!departmentIds || departmentIds.has(event.employeeId)) &&
+          (!matchStatus || event.isMatch === (matchStatus === "matched")) &&
+          (!after || time < afterTime || (time === afterTime && event.id < after.id))
+        );
+      })
+      .sort(
+        (a, b) =>
+          new Date(b.capturedAt).getTime() - new Date(a.capturedAt).getTime() ||
+          (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+      )
+      .map((event) => (includeSnapshots ? event : { ...event, snapshot: undefined }));
+
+    const page = events.slice(0, pageSize);
+    return {
+      events: page,
+      nextCursor: events.length > pageSize ? encodeEventCursor(page[page.length - 1]) : null,
+    };
+  }
+
+  async listCheckInEventsBetween(from: string, to: string): Promise<FaceCheckEvent[]> {
+    const start = new Date(from).getTime();
+    const end = new Date(to).getTime();
+    return this.checkInEvents
+      .filter((event) => {
+        const time = new Date(event.capturedAt).getTime();
+        return time >= start && time < end;
+      })
+      .map((event) => ({ ...event, snapshot: undefined }))
+      .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime());
+  }
+
+  async listAttendanceSessions(limit = 200): Promise<AttendanceSession[]> {
+    return pairAttendanceSessions(this.checkInEvents.slice(0, limit));
+  }
+
   subscribeToCheckIns(callback: CheckInEventCallback): () => void {
     this.checkInSubscribers.add(callback);
     return () => {
       this.checkInSubscribers.delete(callback);
     };
   }
+
+  private schedules: WorkSchedule[] = [];
+
+  async listSchedules(): Promise<WorkSchedule[]> {
+    return [...this.schedules];
+  }
+
+  async createSchedule(input: CreateScheduleInput): Promise<WorkSchedule> {
+    const now = new Date().toISOString();
+    const schedule: WorkSchedule = {
+      id: `sch_${Date.now()}`,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.schedules = [...this.schedules, schedule];
+    return schedule;
+  }
+
+  async updateSchedule(scheduleId: string, input: UpdateScheduleInput): Promise<WorkSchedule> {
+    const existing = this.schedules.find((s) => s.id === scheduleId);
+    if (!existing) {
+      throw new Error("ไม่พบตารางงาน");
+    }
+    const updated: WorkSchedule = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    this.schedules = this.schedules.map((s) => (s.id === scheduleId ? updated : s));
+    return updated;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    this.schedules = this.schedules.filter((s) => s.id !== scheduleId);
+  }
+
+  private calendarEntries: CalendarEntry[] = [];
+
+  async listCalendarEntries({ from, to }: CalendarRange = {}): Promise<CalendarEntry[]> {
+    return this.calendarEntries
+      .filter((entry) => (!from || entry.date >= from) && (!to || entry.date <= to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createCalendarEntry(input: CreateCalendarEntryInput): Promise<CalendarEntry> {
+    const [entry] = await this.importCalendarEntries([input]);
+    return entry;
+  }
+
+  async updateCalendarEntry(entryId: string, input: UpdateCalendarEntryInput): Promise<CalendarEntry> {
+    const existing = this.calendarEntries.find((entry) => entry.id === entryId);
+    if (!existing) {
+      throw new Error("ไม่พบวันในปฏิทิน");
+    }
+    const updated: CalendarEntry = {
+      ...existing,
+      ...input,
+      department: input.department === undefined ? existing.department : input.department || undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    this.calendarEntries = this.calendarEntries.map((entry) => (entry.id === entryId ? updated : entry));
+    return updated;
+  }
+
+  async deleteCalendarEntry(entryId: string): Promise<void> {
+    this.calendarEntries = this.calendarEntries.filter((entry) => entry.id !== entryId);
+  }
+
+  async importCalendarEntries(inputs: CreateCalendarEntryInput[]): Promise<CalendarEntry[]> {
+    const now = new Date().toISOString();
+    const entries = inputs.map((input, index) => ({
+      ...input,
+      id: `cal_${Date.now()}_${index}`,
+      department: input.department || undefined,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    this.calendarEntries = [...this.calendarEntries, ...entries];
+    return entries;
+  }
+
+  private absences: AbsenceRecord[] = [];
+
+  async listAbsences(date: string): Promise<AbsenceRecord[]> {
+    return this.absences.filter((absence) => absence.date === date);
+  }
+
+  async replaceAbsences(date: string, absences: AbsencePayload[]): Promise<AbsenceRecord[]> {
+    const detectedAt = new Date().toISOString();
+    const records = absences.map((absence, index) => ({
+      ...absence,
+      id: `abs_${Date.now()}_${index}`,
+      date,
+      detectedAt,
+    }));
+    this.absences = [...this.absences.filter((absence) => absence.date !== date), ...records];
+    return records;
+  }
 }
 
 let cachedRepo: EmployeeRepository | null = null;
 
 export const createEmployeeRepository = (): EmployeeRepository => {
   if (cachedRepo) return cachedRepo;
-  cachedRepo = hasSupabaseConfig() ? new SupabaseEmployeeRepository() : new InMemoryEmployeeRepository();
+  const repository = hasSupabaseConfig() ? new SupabaseEmployeeRepository() : new InMemoryEmployeeRepository();
+  cachedRepo = withRoleGuard(repository, async () => (await getCurrentUser())?.role ?? null);
   return cachedRepo;
 };
+
+/**
+ * Repository for a server request authenticated with its own Supabase client
+ */
+export const createEmployeeRepositoryForClient = (client: SupabaseClient, role: AppRole): EmployeeRepository =>
+  withRoleGuard(new SupabaseEmployeeRepository(client), async () => role);
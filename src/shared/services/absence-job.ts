@@ -0,0 +1,40 @@
+import type { AbsenceRecord } from "@/entities/schedule";
+import type { EmployeeRepository } from "@/shared/repositories/employee-repository";
+import { absenceQueryWindow, detectAbsences, resolveAbsenceCutoff } from "@/shared/lib/absence";
+import { toDateKey } from "@/shared/lib/datetime";
+
+export interface AbsenceJobOptions {
+  date?: string; // YYYY-MM-DD, defaults to today in company time
+  cutoff?: string; // HH:MM, defaults to the end of the day (or now, for today)
+  now?: Date;
+}
+
+export interface AbsenceJobResult {
+  date: string;
+  cutoff: string; // ISO instant the day was judged at
+  absences: AbsenceRecord[];
+}
+
+/**
+ * Detect a day's absences and store them, replacing the previous run for that day.
+ * Safe to run repeatedly - employees who checked in since drop off the list.
+ */
+export const runAbsenceDetection = async (
+  repository: EmployeeRepository,
+  { date, cutoff, now = new Date() }: AbsenceJobOptions = {}
+): Promise<AbsenceJobResult> => {
+  const day = date ?? toDateKey(now);
+  const cutoffAt = resolveAbsenceCutoff(day, cutoff, now);
+  const window = absenceQueryWindow(day, cutoffAt);
+
+  const [employees, schedules, events, calendar] = await Promise.all([
+    repository.listEmployees({ includeEmbeddings: false }),
+    repository.listSchedules(),
+    repository.listCheckInEventsBetween(window.from, window.to),
+    repository.listCalendarEntries({ from: day, to: day }),
+  ]);
+
+  const detected = detectAbsences({ date: day, cutoff: cutoffAt, employees, schedules, events, calendar });
+  const absences = await repository.replaceAbsences(day, detected);
+  return { date: day, cutoff: cutoffAt.toISOString(), absences };
+};
@@ -0,0 +1,59 @@
+import type { AuthUser } from "@/entities/auth";
+import { parseRole } from "@/shared/lib/permissions";
+import { getSupabaseClient, hasSupabaseConfig } from "./supabase-client";
+
+// Without Supabase there is nothing to sign in to - the in-memory demo runs as admin
+const DEMO_USER: AuthUser = { id: "demo", email: "demo@local", role: "admin" };
+
+export const isAuthEnabled = () => hasSupabaseConfig();
+
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+  const client = getSupabaseClient();
+  if (!client) return DEMO_USER;
+
+  const { data } = await client.auth.getSession();
+  const user = data.session?.user;
+  if (!user) return null;
+
+  return {
+    id: user.id,
+    email: user.email ?? "",
+    role: parseRole(user.app_metadata?.role),
+  };
+};
+
+export const signIn = async (email: string, password: string): Promise<AuthUser> => {
+  const client = getSupabaseClient();
+  if (!client) return DEMO_USER;
+
+  const { error } = await client.auth.signInWithPassword({ email, password });
+  if (error) {
+    throw new Error("อีเมลหรือรหัสผ่านไม่ถูกต้อง");
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error("ไม่สามารถเข้าสู่ระบบได้");
+  }
+  return user;
+};
+
+export const signOut = async (): Promise<void> => {
+  const client = getSupabaseClient();
+  if (!client) return;
+
+  const { error } = await client.auth.signOut();
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const onAuthChange = (callback: (user: AuthUser | null) => void): (() => void) => {
+  const client = getSupabaseClient();
+  if (!client) return () => {};
+
+  const { data } = client.auth.onAuthStateChange(() => {
+    getCurrentUser().then(callback);
+  });
+  return () => data.subscription.unsubscribe();
+};
@@ -0,0 +1,97 @@
+import type { FaceCheckEventPayload } from "@/entities/employee";
+import { RejectedEventError, type EmployeeRepository } from "@/shared/repositories/employee-repository";
+import {
+  countDeadLetterEvents,
+  countQueuedEvents,
+  enqueueEvent,
+  isOfflineStoreSupported,
+  listQueuedEvents,
+  moveToDeadLetter,
+  removeQueuedEvent,
+  type QueuedEvent,
+} from "./offline-store";
+
+// crypto.randomUUID only exists in secure contexts - kiosks on a plain-http LAN fall back
+export const createIdempotencyKey = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+
+const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+/**
+ * Persistent outbox for check events.
+ *
+ * Every event is written to IndexedDB first and then replayed in order.
+ * Each carries an idempotency key, so an event that reached the server but
+ * was not removed locally (tab closed mid-replay) is ignored when resent.
+ * Events the server rejects for good move to a dead-letter store so they
+ * never hold up the rest of the queue.
+ */
+export class EventOutbox {
+  private replayChain: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly repository: EmployeeRepository) {}
+
+  /**
+   * Queue an event and try to send it. Resolves with the number of events still queued.
+   */
+  async record(payload: FaceCheckEventPayload): Promise<number> {
+    const event = { ...payload, idempotencyKey: payload.idempotencyKey ?? createIdempotencyKey() };
+
+    if (!isOfflineStoreSupported()) {
+      await this.repository.recordCheckIn(event);
+      return 0;
+    }
+
+    await enqueueEvent(event);
+    return this.flush();
+  }
+
+  /**
+   * Replay queued events oldest first. Stops at the first retryable failure
+   * (network, 5xx) so order is kept; rejected events are dead-lettered.
+   */
+  flush(): Promise<number> {
+    if (!isOfflineStoreSupported()) return Promise.resolve(0);
+
+    const run = this.replayChain.then(() => this.replay());
+    this.replayChain = run.catch(() => undefined);
+    return run;
+  }
+
+  count(): Promise<number> {
+    return isOfflineStoreSupported() ? countQueuedEvents() : Promise.resolve(0);
+  }
+
+  pending(): Promise<QueuedEvent[]> {
+    return isOfflineStoreSupported() ? listQueuedEvents() : Promise.resolve([]);
+  }
+
+  deadLetterCount(): Promise<number> {
+    return isOfflineStoreSupported() ? countDeadLetterEvents() : Promise.resolve(0);
+  }
+
+  private async replay(): Promise<number> {
+    const queued = await listQueuedEvents();
+
+    for (const [index, event] of queued.entries()) {
+      if (isOffline()) return queued.length - index;
+
+      try {
+        await this.repository.recordCheckIn(event.payload);
+      } catch (err) {
+        if (err instanceof RejectedEventError) {
+          console.warn("Outbox event rejected, moved to dead letters:", err);
+          await moveToDeadLetter(event, err.message);
+          continue;
+        }
+        console.warn("Outbox replay paused:", err);
+        return queued.length - index;
+      }
+      await removeQueuedEvent(event.seq);
+    }
+
+    return 0;
+  }
+}
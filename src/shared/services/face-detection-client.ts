@@ -0,0 +1,164 @@
+"use client";
+
+import type { RecognitionSettings } from "@/entities/settings";
+import {
+  detectFrame,
+  loadDetectionModels,
+  type DetectionFrame,
+  type DetectionWorkerRequest,
+  type DetectionWorkerResponse,
+} from "@/shared/workers/face-detection-protocol";
+
+export interface FaceDetectionClient {
+  kind: "worker" | "main-thread";
+  // Resolves false when the recognizer models failed to load
+  load(): Promise<boolean>;
+  // Settings live per thread - the worker needs its own copy
+  configure(settings: RecognitionSettings): void;
+  // null = dropped because the previous frame is still being processed
+  detect(video: HTMLVideoElement): Promise<DetectionFrame | null>;
+  dispose(): void;
+}
+
+/**
+ * Detection in the page itself - for browsers without OffscreenCanvas workers
+ */
+class MainThreadFaceDetectionClient implements FaceDetectionClient {
+  kind = "main-thread" as const;
+  private busy = false;
+
+  load(): Promise<boolean> {
+    return loadDetectionModels();
+  }
+
+  // applyRecognitionSettings already updated this thread
+  configure(): void {}
+
+  async detect(video: HTMLVideoElement): Promise<DetectionFrame | null> {
+    if (this.busy) return null;
+    this.busy = true;
+    try {
+      return await detectFrame(video);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  dispose(): void {}
+}
+
+/**
+ * Detection in a dedicated worker so inference never blocks the kiosk clock and overlay.
+ * At most one frame is in flight - frames arriving meanwhile are dropped, not queued.
+ */
+class WorkerFaceDetectionClient implements FaceDetectionClient {
+  kind = "worker" as const;
+  private nextId = 0;
+  private inFlight: { id: number; resolve: (frame: DetectionFrame) => void; reject: (err: Error) => void } | null = null;
+  private loadRequest: Promise<boolean> | null = null;
+  private resolveLoad: ((ready: boolean) => void) | null = null;
+
+  constructor(private readonly worker: Worker) {
+    worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => this.handleMessage(event.data);
+    worker.onerror = (event) => {
+      console.error("Detection worker error:", event.message);
+      this.fail(new Error(event.message || "Detection worker crashed"));
+    };
+  }
+
+  load(): Promise<boolean> {
+    this.loadRequest ??= new Promise((resolve) => {
+      this.resolveLoad = resolve;
+      this.post({ type: "load" });
+    });
+    return this.loadRequest;
+  }
+
+  configure(settings: RecognitionSettings): void {
+    this.post({ type: "configure", settings });
+  }
+
+  async detect(video: HTMLVideoElement): Promise<DetectionFrame | null> {
+    if (this.inFlight || video.readyState < 2) return null;
+
+    const id = ++this.nextId;
+    const result = new Promise<DetectionFrame>((resolve, reject) => {
+      this.inFlight = { id, resolve, reject };
+    });
+    try {
+      const frame = await createImageBitmap(video);
+      this.post({ type: "detect", id, frame }, [frame]);
+    } catch (err) {
+      this.inFlight = null;
+      throw err;
+    }
+    return result;
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+    this.fail(new Error("Detection worker stopped"));
+  }
+
+  private post(message: DetectionWorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: DetectionWorkerResponse) {
+    switch (message.type) {
+      case "loaded":
+        this.resolveLoad?.(message.ready);
+        this.resolveLoad = null;
+        break;
+      case "detected":
+        if (this.inFlight?.id === message.id) {
+          this.inFlight.resolve(message.frame);
+          this.inFlight = null;
+        }
+        break;
+      case "failed":
+        if (message.id !== undefined && this.inFlight?.id === message.id) {
+          this.inFlight.reject(new Error(message.message));
+          this.inFlight = null;
+        } else {
+          console.error("Detection worker:", message.message);
+        }
+        break;
+    }
+  }
+
+  private fail(err: Error) {
+    this.resolveLoad?.(false);
+    this.resolveLoad = null;
+    this.inFlight?.reject(err);
+    this.inFlight = null;
+  }
+}
+
+const supportsDetectionWorker = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof createImageBitmap !== "undefined";
+
+/**
+ * Load a detection client with the given settings.
+ * Uses the worker when the browser supports it and falls back to the main
+ * thread when it doesn't, or when the models fail to load inside the worker.
+ */
+export const createFaceDetectionClient = async (
+  settings: RecognitionSettings
+): Promise<{ client: FaceDetectionClient; ready: boolean }> => {
+  if (supportsDetectionWorker()) {
+    // Classic worker: MediaPipe loads its wasm glue with importScripts, which module workers reject
+    const client = new WorkerFaceDetectionClient(
+      new Worker(new URL("../workers/face-detection.worker.ts", import.meta.url))
+    );
+    client.configure(settings);
+    if (await client.load()) return { client, ready: true };
+    console.warn("Detection worker unavailable - running detection on the main thread");
+    client.dispose();
+  }
+
+  const client = new MainThreadFaceDetectionClient();
+  return { client, ready: await client.load() };
+};
@@ -0,0 +1,134 @@
+import type { CalendarEntry } from "@/entities/calendar";
+import type { Employee, FaceCheckEventPayload } from "@/entities/employee";
+import type { WorkSchedule } from "@/entities/schedule";
+import type { RecognitionSettingsRecord } from "@/entities/settings";
+import { withoutEnrollmentPhotos } from "@/shared/lib/embedding-gallery";
+
+// IndexedDB storage that keeps the kiosk working while the network is down
+const DB_NAME = "face-check-offline";
+const DB_VERSION = 2;
+const CACHE_STORE = "cache";
+const OUTBOX_STORE = "outbox";
+const DEAD_LETTER_STORE = "dead-letter";
+const KIOSK_DATA_KEY = "kiosk-data";
+
+export type QueuedEventPayload = FaceCheckEventPayload & { idempotencyKey: string };
+
+export interface QueuedEvent {
+  seq: number; // Auto-increment key - replay order
+  payload: QueuedEventPayload;
+  queuedAt: string;
+}
+
+// Event the server refused for good - kept for an admin instead of blocking the outbox
+export interface DeadLetterEvent extends QueuedEvent {
+  failedAt: string;
+  error: string;
+}
+
+// Last known roster so recognition still works after a reload without network
+export interface CachedKioskData {
+  employees: Employee[];
+  schedules: WorkSchedule[];
+  settings?: RecognitionSettingsRecord[];
+  calendar?: CalendarEntry[]; // Missing in caches written before the calendar existed
+  cachedAt: string;
+}
+
+export const isOfflineStoreSupported = () => typeof indexedDB !== "undefined";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        db.createObjectStore(CACHE_STORE);
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "seq", autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(DEAD_LETTER_STORE)) {
+        db.createObjectStore(DEAD_LETTER_STORE, { keyPath: "seq" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveKioskData = async (data: Omit<CachedKioskData, "cachedAt">): Promise<void> => {
+  // Enrollment photos never go to disk on a kiosk, even when the roster came with them
+  const employees = data.employees.map((employee) => ({
+    ...employee,
+    embeddings: withoutEnrollmentPhotos(employee.embeddings),
+  }));
+  await runRequest(CACHE_STORE, "readwrite", (store) =>
+    store.put({ ...data, employees, cachedAt: new Date().toISOString() }, KIOSK_DATA_KEY),
+  );
+};
+
+export const loadKioskData = (): Promise<CachedKioskData | undefined> =>
+  runRequest<CachedKioskData | undefined>(CACHE_STORE, "readonly", (store) => store.get(KIOSK_DATA_KEY));
+
+export const enqueueEvent = async (payload: QueuedEventPayload): Promise<void> => {
+  await runRequest(OUTBOX_STORE, "readwrite", (store) =>
+    store.add({ payload, queuedAt: new Date().toISOString() }),
+  );
+};
+
+/**
+ * Queued events, oldest first
+ */
+export const listQueuedEvents = (): Promise<QueuedEvent[]> =>
+  runRequest<QueuedEvent[]>(OUTBOX_STORE, "readonly", (store) => store.getAll());
+
+export const removeQueuedEvent = async (seq: number): Promise<void> => {
+  await runRequest(OUTBOX_STORE, "readwrite", (store) => store.delete(seq));
+};
+
+export const countQueuedEvents = (): Promise<number> =>
+  runRequest(OUTBOX_STORE, "readonly", (store) => store.count());
+
+/**
+ * Move a queued event to the dead-letter store in one transaction
+ */
+export const moveToDeadLetter = async (event: QueuedEvent, error: string): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([OUTBOX_STORE, DEAD_LETTER_STORE], "readwrite");
+    const deadLetter: DeadLetterEvent = { ...event, failedAt: new Date().toISOString(), error };
+    transaction.objectStore(DEAD_LETTER_STORE).put(deadLetter);
+    transaction.objectStore(OUTBOX_STORE).delete(event.seq);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const countDeadLetterEvents = (): Promise<number> =>
+  runRequest(DEAD_LETTER_STORE, "readonly", (store) => store.count());
@@ -0,0 +1,37 @@
+import type { FaceEmbeddingVersion } from "@/entities/employee";
+import type { VectorIndexMatch } from "@/shared/lib/face-vector-index";
+import type { EmployeeRepository } from "@/shared/repositories/employee-repository";
+
+const MAX_CACHED_DESCRIPTORS = 16;
+
+/**
+ * Server-side matching for kiosks that don't hold the face galleries.
+ *
+ * A tracked face keeps the same descriptor for several frames (it is only
+ * re-extracted every ~500ms), so each lookup is cached by descriptor and a
+ * descriptor already in flight is never sent twice. Failures resolve to no
+ * candidates - the face simply stays unmatched until the server answers.
+ */
+export class RemoteFaceMatcher {
+  private readonly lookups = new Map<string, Promise<VectorIndexMatch[]>>();
+
+  constructor(private readonly repository: EmployeeRepository) {}
+
+  search(descriptor: number[], version: FaceEmbeddingVersion): Promise<VectorIndexMatch[]> {
+    // Descriptors from the worker are structured clones, so key by value rather than identity
+    const key = `${version}:${descriptor.join(",")}`;
+    const cached = this.lookups.get(key);
+    if (cached) return cached;
+
+    const lookup = this.repository.matchFaceDescriptor(descriptor, version, 2).catch((err) => {
+      console.warn("Server face matching failed:", err);
+      this.lookups.delete(key);
+      return [];
+    });
+    this.lookups.set(key, lookup);
+    if (this.lookups.size > MAX_CACHED_DESCRIPTORS) {
+      this.lookups.delete(this.lookups.keys().next().value!);
+    }
+    return lookup;
+  }
+}
@@ -21,3 +21,22 @@ export const getSupabaseClient = () => {
 
   return cachedClient;
 };
+
+/**
+ * Server-side client acting as the user behind an access token, so RLS
+ * applies to API requests the same way it does in the browser.
+ */
+export const createSupabaseClientForToken = (accessToken: string) => {
+  if (!hasSupabaseConfig()) {
+    return null;
+  }
+
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    },
+  );
+};
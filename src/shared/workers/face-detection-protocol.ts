@@ -0,0 +1,48 @@
+"use client";
+
+import type { RecognitionSettings } from "@/entities/settings";
+import { detectMultipleFaces, initializeFaceDetection, type FaceBoundingBox } from "@/shared/lib/face-embedding";
+import {
+  areMediaPipeModelsLoaded,
+  detectFacesWithMediaPipe,
+  loadMediaPipeModels,
+  type DetectionResult as MeshDetection,
+} from "@/shared/lib/mediapipe-face-detection";
+import type { FaceInput } from "@/shared/lib/face-detection-service";
+
+// One detection tick: tracked faces (embeddings only for stable faces) and MediaPipe meshes for liveness
+export interface DetectionFrame {
+  faces: Array<{ box: FaceBoundingBox; score: number; embedding: number[] }>;
+  meshes: MeshDetection[];
+}
+
+// Messages to the detection worker - handled in order
+export type DetectionWorkerRequest =
+  | { type: "configure"; settings: RecognitionSettings }
+  | { type: "load" }
+  | { type: "detect"; id: number; frame: ImageBitmap }; // Transferred, closed by the worker
+
+// Messages from the detection worker
+export type DetectionWorkerResponse =
+  | { type: "loaded"; ready: boolean } // ready = the recognizer loaded (MediaPipe is optional)
+  | { type: "detected"; id: number; frame: DetectionFrame }
+  | { type: "failed"; id?: number; message: string };
+/**
+ * Same tick on any thread - the worker runs this on its OffscreenCanvas
+ */
+export const detectFrame = async (input: FaceInput): Promise<DetectionFrame> => {
+  const faces = await detectMultipleFaces(input);
+  // Liveness falls back to box movement when MediaPipe isn't loaded
+  const meshes = faces.length && areMediaPipeModelsLoaded()
+    ? (await detectFacesWithMediaPipe(input)).map(({ box, score, landmarks }) => ({ box, score, landmarks }))
+    : [];
+  return { faces, meshes };
+};
+
+/**
+ * Loads both model sets - MediaPipe only feeds liveness, so only the recognizer decides readiness
+ */
+export const loadDetectionModels = async (): Promise<boolean> => {
+  const [loaded] = await Promise.all([initializeFaceDetection(), loadMediaPipeModels()]);
+  return loaded;
+};
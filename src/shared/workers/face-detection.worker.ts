@@ -0,0 +1,56 @@
+import { setupFaceApiWorkerEnv } from "@/shared/lib/face-detection-service";
+import { applyRecognitionSettings } from "@/shared/lib/recognition-settings";
+import {
+  detectFrame,
+  loadDetectionModels,
+  type DetectionWorkerRequest,
+  type DetectionWorkerResponse,
+} from "./face-detection-protocol";
+
+// The project compiles against the DOM lib - only the worker API used here
+interface DetectionWorkerScope {
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+  postMessage(message: DetectionWorkerResponse): void;
+}
+
+const scope = self as unknown as DetectionWorkerScope;
+
+setupFaceApiWorkerEnv();
+
+// Frames are drawn here so both face-api.js and MediaPipe read the same pixels
+let canvas: OffscreenCanvas | null = null;
+
+const drawFrame = (frame: ImageBitmap): OffscreenCanvas => {
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+  }
+  canvas.getContext("2d")?.drawImage(frame, 0, 0);
+  frame.close();
+  return canvas;
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+scope.onmessage = async ({ data: message }) => {
+  switch (message.type) {
+    case "configure":
+      applyRecognitionSettings(message.settings);
+      break;
+    case "load":
+      try {
+        scope.postMessage({ type: "loaded", ready: await loadDetectionModels() });
+      } catch (err) {
+        scope.postMessage({ type: "failed", message: errorMessage(err) });
+        scope.postMessage({ type: "loaded", ready: false });
+      }
+      break;
+    case "detect":
+      try {
+        const frame = await detectFrame(drawFrame(message.frame));
+        scope.postMessage({ type: "detected", id: message.id, frame });
+      } catch (err) {
+        scope.postMessage({ type: "failed", id: message.id, message: errorMessage(err) });
+      }
+      break;
+  }
+};
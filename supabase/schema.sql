@@ -4,6 +4,9 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- pgvector for server-side face matching (Database -> Extensions -> vector in the dashboard)
+CREATE EXTENSION IF NOT EXISTS vector;
+
 -- Employees table
 CREATE TABLE IF NOT EXISTS employees (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -33,16 +36,173 @@ CREATE TABLE IF NOT EXISTS face_check_events (
   captured_at TIMESTAMPTZ NOT NULL,
   similarity_score DOUBLE PRECISION NOT NULL,
   is_match BOOLEAN NOT NULL DEFAULT false,
+  direction TEXT NOT NULL DEFAULT 'check-in' CHECK (direction IN ('check-in', 'check-out')),
+  classification TEXT CHECK (classification IN ('on-time', 'late', 'early-leave', 'unscheduled')),
+  classification_minutes INTEGER,
+  liveness_score DOUBLE PRECISION, -- Anti-spoofing score, kept for audit
+  idempotency_key TEXT, -- Set by the kiosk outbox, unique index below
+  kiosk_id TEXT, -- ?kiosk= of the kiosk that took the scan
   snapshot TEXT, -- Base64 image data
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Work schedules (shifts) used to classify check-ins as on-time / late / early-leave
+CREATE TABLE IF NOT EXISTS work_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  work_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}', -- 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  grace_minutes INTEGER NOT NULL DEFAULT 0,
+  -- Assignment: employee_ids wins over department; neither = company default
+  department TEXT,
+  employee_ids UUID[],
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Progressive learning audit: which check-in contributed which face entry
+CREATE TABLE IF NOT EXISTS embedding_audit (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  event_key TEXT, -- face_check_events.idempotency_key of the contributing scan
+  action TEXT NOT NULL CHECK (action IN ('added', 'replaced', 'skipped')),
+  angle TEXT NOT NULL,
+  quality DOUBLE PRECISION,
+  similarity DOUBLE PRECISION,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Ambiguous kiosk matches (best and runner-up too close) kept for review
+CREATE TABLE IF NOT EXISTS near_miss_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  candidate_employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  runner_up_employee_id UUID REFERENCES employees(id) ON DELETE CASCADE,
+  distance DOUBLE PRECISION NOT NULL,
+  runner_up_distance DOUBLE PRECISION NOT NULL,
+  confidence_gap DOUBLE PRECISION NOT NULL,
+  snapshot TEXT, -- Base64 face thumbnail
+  captured_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Migration: near-miss review feeds threshold calibration
+ALTER TABLE near_miss_events ADD COLUMN IF NOT EXISTS descriptor DOUBLE PRECISION[];
+ALTER TABLE near_miss_events ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+ALTER TABLE near_miss_events ADD COLUMN IF NOT EXISTS resolved_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL;
+
+-- Template migration when the embedding version changes - latest attempt per employee
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  employee_id UUID PRIMARY KEY REFERENCES employees(id) ON DELETE CASCADE,
+  from_version TEXT,
+  target_version TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('migrated', 'needs-reenrollment')),
+  reason TEXT CHECK (reason IN ('no-photos', 'unsupported-backend', 'too-few-faces')),
+  recomputed_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Recognition settings: the 'global' row applies to every kiosk, any other scope is a
+-- kiosk id (/kiosk?kiosk=<id>) layered on top. Each row only stores the values it changes.
+CREATE TABLE IF NOT EXISTS recognition_settings (
+  scope TEXT PRIMARY KEY,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Migration: the calibrated threshold and gap moved from match_config into the global settings
+DO $$
+BEGIN
+  IF to_regclass('public.match_config') IS NOT NULL THEN
+    INSERT INTO recognition_settings (scope, settings, updated_at)
+    SELECT 'global',
+      jsonb_build_object('match', jsonb_build_object(
+        'threshold', match_threshold,
+        'minConfidenceGap', min_confidence_gap
+      )),
+      updated_at
+    FROM match_config
+    ON CONFLICT (scope) DO NOTHING;
+    DROP TABLE match_config;
+  END IF;
+END $$;
+
+-- Template vectors for server-side matching: one row per entry, average vector or legacy
+-- vector. Derived from employees.embeddings_data / embedding_vector by the trigger below -
+-- never written directly. No fixed dimension: each embedding version has its own length.
+CREATE TABLE IF NOT EXISTS face_embeddings (
+  id BIGSERIAL PRIMARY KEY,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  version TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('entry', 'average', 'legacy')),
+  embedding vector NOT NULL
+);
+
+-- Company calendar: days that differ from the schedules' work days. A department
+-- entry overrides a company-wide one (department NULL) on the same day.
+CREATE TABLE IF NOT EXISTS calendar_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_date DATE NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('public-holiday', 'company-closure', 'working-day')),
+  department TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Scheduled work days without a scan by the cutoff. Derived by the absence job
+-- (POST /api/absences), which replaces a day's rows on every run.
+CREATE TABLE IF NOT EXISTS absence_records (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  absence_date DATE NOT NULL,
+  schedule_id UUID REFERENCES work_schedules(id) ON DELETE SET NULL,
+  cutoff TIMESTAMPTZ NOT NULL, -- Scans before this instant counted as present
+  detected_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (employee_id, absence_date)
+);
+
 -- Indexes for faster queries
 CREATE INDEX IF NOT EXISTS idx_employees_email ON employees(email);
 CREATE INDEX IF NOT EXISTS idx_employees_department ON employees(department);
 CREATE INDEX IF NOT EXISTS idx_face_check_events_employee ON face_check_events(employee_id);
 CREATE INDEX IF NOT EXISTS idx_face_check_events_captured_at ON face_check_events(captured_at DESC);
 
+-- Migration: check-out support for databases created before the direction column
+ALTER TABLE face_check_events
+  ADD COLUMN IF NOT EXISTS direction TEXT NOT NULL DEFAULT 'check-in'
+  CHECK (direction IN ('check-in', 'check-out'));
+CREATE INDEX IF NOT EXISTS idx_face_check_events_employee_captured ON face_check_events(employee_id, captured_at);
+
+-- Migration: schedule classification on check events
+ALTER TABLE face_check_events
+  ADD COLUMN IF NOT EXISTS classification TEXT
+  CHECK (classification IN ('on-time', 'late', 'early-leave', 'unscheduled'));
+ALTER TABLE face_check_events ADD COLUMN IF NOT EXISTS classification_minutes INTEGER;
+
+-- Migration: liveness score on check events
+ALTER TABLE face_check_events ADD COLUMN IF NOT EXISTS liveness_score DOUBLE PRECISION;
+
+-- Migration: idempotency key for events replayed from the kiosk offline outbox
+ALTER TABLE face_check_events ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_face_check_events_idempotency_key ON face_check_events(idempotency_key);
+
+-- Migration: kiosk that took the scan, for per-kiosk volume on the dashboard
+ALTER TABLE face_check_events ADD COLUMN IF NOT EXISTS kiosk_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_work_schedules_department ON work_schedules(department);
+CREATE INDEX IF NOT EXISTS idx_embedding_audit_employee ON embedding_audit(employee_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_near_miss_events_captured_at ON near_miss_events(captured_at DESC);
+CREATE INDEX IF NOT EXISTS idx_face_embeddings_employee ON face_embeddings(employee_id);
+CREATE INDEX IF NOT EXISTS idx_face_embeddings_version ON face_embeddings(version);
+CREATE INDEX IF NOT EXISTS idx_absence_records_date ON absence_records(absence_date);
+-- One entry per day and department (NULL = company-wide counts as its own department)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_entries_day ON calendar_entries(entry_date, COALESCE(department, ''));
+
+-- Filtered event queries page newest first with (captured_at, id) as the cursor
+CREATE INDEX IF NOT EXISTS idx_face_check_events_cursor ON face_check_events(captured_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_face_check_events_employee_cursor ON face_check_events(employee_id, captured_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_face_check_events_unmatched ON face_check_events(captured_at DESC, id DESC) WHERE NOT is_match;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -59,29 +219,512 @@ CREATE TRIGGER update_employees_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_work_schedules_updated_at ON work_schedules;
+CREATE TRIGGER update_work_schedules_updated_at
+  BEFORE UPDATE ON work_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_calendar_entries_updated_at ON calendar_entries;
+CREATE TRIGGER update_calendar_entries_updated_at
+  BEFORE UPDATE ON calendar_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- Row Level Security (RLS) Policies
 -- Enable RLS
 ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
 ALTER TABLE face_check_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embedding_audit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE near_miss_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recognition_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embedding_migrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE face_embeddings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE absence_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_entries ENABLE ROW LEVEL SECURITY;
+
+-- Roles live in the Supabase Auth user's app_metadata.role:
+--   admin  - full access
+--   hr     - read-only access to employees, events and schedules
+--   kiosk  - device credential: read the roster, face templates and schedules, insert events,
+--            append learned embeddings (append_learned_embedding only)
+-- Assign with the service role key, e.g.
+--   UPDATE auth.users SET raw_app_meta_data = raw_app_meta_data || '{"role": "kiosk"}' WHERE email = 'kiosk-lobby@example.com';
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS TEXT AS $$
+  SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '');
+$$ LANGUAGE sql STABLE;
+
+-- Migration: drop the old public policies
+DROP POLICY IF EXISTS "Allow public read employees" ON employees;
+DROP POLICY IF EXISTS "Allow public insert employees" ON employees;
+DROP POLICY IF EXISTS "Allow public update employees" ON employees;
+DROP POLICY IF EXISTS "Allow public delete employees" ON employees;
+DROP POLICY IF EXISTS "Allow public read face_check_events" ON face_check_events;
+DROP POLICY IF EXISTS "Allow public insert face_check_events" ON face_check_events;
+DROP POLICY IF EXISTS "Allow public read work_schedules" ON work_schedules;
+DROP POLICY IF EXISTS "Allow public write work_schedules" ON work_schedules;
+
+-- Kiosks never read employees directly: the roster comes from employee_roster and the
+-- face templates from list_face_templates (both below)
+DROP POLICY IF EXISTS "Staff and kiosks read employees" ON employees;
+DROP POLICY IF EXISTS "Staff read employees" ON employees;
+CREATE POLICY "Staff read employees" ON employees
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr'));
+
+-- Roster columns only. Runs with the owner's rights, so the role check is in the view.
+-- enrolled_at is when the current template was created, so dashboards need no vectors.
+CREATE OR REPLACE VIEW employee_roster AS
+  SELECT id, full_name, email, role, department, avatar_url, last_check_in,
+    CASE
+      WHEN jsonb_array_length(COALESCE(template -> 'entries', '[]'::jsonb)) > 0 THEN (template ->> 'createdAt')::timestamptz
+      WHEN COALESCE(array_length(embedding_vector, 1), 0) > 0 THEN created_at
+    END AS enrolled_at
+  FROM (
+    SELECT e.*,
+      -- The app stores embeddings_data as a JSON string inside the JSONB column
+      CASE
+        WHEN jsonb_typeof(e.embeddings_data) = 'string' THEN (e.embeddings_data #>> '{}')::jsonb
+        ELSE e.embeddings_data
+      END AS template
+    FROM employees e
+  ) employee
+  WHERE app_role() IN ('admin', 'hr', 'kiosk');
+
+REVOKE ALL ON employee_roster FROM PUBLIC, anon;
+GRANT SELECT ON employee_roster TO authenticated;
+
+DROP POLICY IF EXISTS "Admins manage employees" ON employees;
+CREATE POLICY "Admins manage employees" ON employees
+  FOR ALL TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Staff read face_check_events" ON face_check_events;
+CREATE POLICY "Staff read face_check_events" ON face_check_events
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr'));
+
+-- Kiosks only see the last day of events (recent log + check-in/out direction)
+DROP POLICY IF EXISTS "Kiosks read recent face_check_events" ON face_check_events;
+CREATE POLICY "Kiosks read recent face_check_events" ON face_check_events
+  FOR SELECT TO authenticated USING (app_role() = 'kiosk' AND captured_at > NOW() - INTERVAL '1 day');
+
+DROP POLICY IF EXISTS "Admins and kiosks insert face_check_events" ON face_check_events;
+CREATE POLICY "Admins and kiosks insert face_check_events" ON face_check_events
+  FOR INSERT TO authenticated WITH CHECK (app_role() IN ('admin', 'kiosk'));
+
+DROP POLICY IF EXISTS "Admins delete face_check_events" ON face_check_events;
+CREATE POLICY "Admins delete face_check_events" ON face_check_events
+  FOR DELETE TO authenticated USING (app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Staff and kiosks read work_schedules" ON work_schedules;
+CREATE POLICY "Staff and kiosks read work_schedules" ON work_schedules
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr', 'kiosk'));
 
--- Allow public read/write for now (adjust based on your auth requirements)
-CREATE POLICY "Allow public read employees" ON employees
-  FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Admins manage work_schedules" ON work_schedules;
+CREATE POLICY "Admins manage work_schedules" ON work_schedules
+  FOR ALL TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
 
-CREATE POLICY "Allow public insert employees" ON employees
-  FOR INSERT WITH CHECK (true);
+-- Kiosks need holidays to classify scans
+DROP POLICY IF EXISTS "Staff and kiosks read calendar_entries" ON calendar_entries;
+CREATE POLICY "Staff and kiosks read calendar_entries" ON calendar_entries
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr', 'kiosk'));
 
-CREATE POLICY "Allow public update employees" ON employees
-  FOR UPDATE USING (true);
+DROP POLICY IF EXISTS "Admins manage calendar_entries" ON calendar_entries;
+CREATE POLICY "Admins manage calendar_entries" ON calendar_entries
+  FOR ALL TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
 
-CREATE POLICY "Allow public delete employees" ON employees
-  FOR DELETE USING (true);
+-- Migration: kiosks no longer update employees directly - learned embeddings go
+-- through append_learned_embedding below
+DROP POLICY IF EXISTS "Kiosks update learned embeddings" ON employees;
+DROP TRIGGER IF EXISTS restrict_kiosk_employee_update ON employees;
+DROP FUNCTION IF EXISTS restrict_kiosk_employee_update();
 
-CREATE POLICY "Allow public read face_check_events" ON face_check_events
-  FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Staff read embedding_audit" ON embedding_audit;
+CREATE POLICY "Staff read embedding_audit" ON embedding_audit
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr'));
 
-CREATE POLICY "Allow public insert face_check_events" ON face_check_events
-  FOR INSERT WITH CHECK (true);
+DROP POLICY IF EXISTS "Admins and kiosks insert embedding_audit" ON embedding_audit;
+CREATE POLICY "Admins and kiosks insert embedding_audit" ON embedding_audit
+  FOR INSERT TO authenticated WITH CHECK (app_role() IN ('admin', 'kiosk'));
+
+DROP POLICY IF EXISTS "Staff read near_miss_events" ON near_miss_events;
+CREATE POLICY "Staff read near_miss_events" ON near_miss_events
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr'));
+
+DROP POLICY IF EXISTS "Admins and kiosks insert near_miss_events" ON near_miss_events;
+CREATE POLICY "Admins and kiosks insert near_miss_events" ON near_miss_events
+  FOR INSERT TO authenticated WITH CHECK (app_role() IN ('admin', 'kiosk'));
+
+DROP POLICY IF EXISTS "Admins review near_miss_events" ON near_miss_events;
+CREATE POLICY "Admins review near_miss_events" ON near_miss_events
+  FOR UPDATE TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Authenticated read recognition_settings" ON recognition_settings;
+CREATE POLICY "Authenticated read recognition_settings" ON recognition_settings
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr', 'kiosk'));
+
+DROP POLICY IF EXISTS "Admins write recognition_settings" ON recognition_settings;
+CREATE POLICY "Admins write recognition_settings" ON recognition_settings
+  FOR ALL TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Staff read embedding_migrations" ON embedding_migrations;
+CREATE POLICY "Staff read embedding_migrations" ON embedding_migrations
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr'));
+
+DROP POLICY IF EXISTS "Admins write embedding_migrations" ON embedding_migrations;
+CREATE POLICY "Admins write embedding_migrations" ON embedding_migrations
+  FOR ALL TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+DROP POLICY IF EXISTS "Staff read absence_records" ON absence_records;
+CREATE POLICY "Staff read absence_records" ON absence_records
+  FOR SELECT TO authenticated USING (app_role() IN ('admin', 'hr'));
+
+DROP POLICY IF EXISTS "Admins write absence_records" ON absence_records;
+CREATE POLICY "Admins write absence_records" ON absence_records
+  FOR ALL TO authenticated USING (app_role() = 'admin') WITH CHECK (app_role() = 'admin');
+
+-- Kiosks match through match_face_descriptor and never read the vectors themselves
+DROP POLICY IF EXISTS "Admins read face_embeddings" ON face_embeddings;
+CREATE POLICY "Admins read face_embeddings" ON face_embeddings
+  FOR SELECT TO authenticated USING (app_role() = 'admin');
+
+-- Rebuild one employee's rows in face_embeddings from the stored template
+CREATE OR REPLACE FUNCTION sync_face_embeddings(target_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  emp employees%ROWTYPE;
+  template JSONB;
+BEGIN
+  DELETE FROM face_embeddings WHERE employee_id = target_id;
+  SELECT * INTO emp FROM employees WHERE id = target_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- The app stores embeddings_data as a JSON string inside the JSONB column
+  template := CASE
+    WHEN jsonb_typeof(emp.embeddings_data) = 'string' THEN (emp.embeddings_data #>> '{}')::jsonb
+    ELSE emp.embeddings_data
+  END;
+
+  -- Same vectors the kiosk compares: every entry plus the average, else the legacy vector
+  IF jsonb_typeof(template -> 'entries') = 'array' AND jsonb_array_length(template -> 'entries') > 0 THEN
+    INSERT INTO face_embeddings (employee_id, version, kind, embedding)
+    SELECT target_id, template ->> 'version', 'entry', (entry -> 'vector')::text::vector
+    FROM jsonb_array_elements(template -> 'entries') AS entry
+    WHERE jsonb_typeof(entry -> 'vector') = 'array' AND jsonb_array_length(entry -> 'vector') > 0;
+
+    IF jsonb_typeof(template -> 'averageVector') = 'array' AND jsonb_array_length(template -> 'averageVector') > 0 THEN
+      INSERT INTO face_embeddings (employee_id, version, kind, embedding)
+      VALUES (target_id, template ->> 'version', 'average', (template -> 'averageVector')::text::vector);
+    END IF;
+  ELSIF emp.embedding_version IS NOT NULL AND COALESCE(array_length(emp.embedding_vector, 1), 0) > 0 THEN
+    INSERT INTO face_embeddings (employee_id, version, kind, embedding)
+    VALUES (target_id, emp.embedding_version, 'legacy', emp.embedding_vector::vector);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_face_embeddings(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Runs as definer so learned embeddings appended by kiosks are synced too
+CREATE OR REPLACE FUNCTION sync_employee_face_embeddings()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM sync_face_embeddings(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_employee_face_embeddings ON employees;
+CREATE TRIGGER sync_employee_face_embeddings
+  AFTER INSERT OR UPDATE OF embeddings_data, embedding_vector, embedding_version ON employees
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_employee_face_embeddings();
+
+-- Migration: copy templates saved before face_embeddings existed
+SELECT sync_face_embeddings(e.id)
+FROM employees e
+WHERE (e.embeddings_data IS NOT NULL OR e.embedding_vector IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM face_embeddings f WHERE f.employee_id = e.id);
+
+-- Progressive learning: the only way a kiosk changes a template. Re-runs the drift
+-- guards of progressive-learning.ts against the stored template (the kiosk's verdict is
+-- not trusted), then appends the entry or replaces a learned one - enrollment entries are
+-- never touched. Defaults mirror PROGRESSIVE_LEARNING_CONFIG; the global recognition
+-- settings row overrides them. Returns {action, reason, totalCount}.
+CREATE OR REPLACE FUNCTION append_learned_embedding(
+  target_id UUID,
+  new_entry JSONB,
+  match_similarity DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  learning JSONB;
+  max_embeddings INTEGER;
+  min_quality DOUBLE PRECISION;
+  min_similarity DOUBLE PRECISION;
+  replace_threshold DOUBLE PRECISION;
+  strategy TEXT;
+  min_per_angle INTEGER;
+  max_anchor_distance DOUBLE PRECISION;
+  min_identity_gap DOUBLE PRECISION;
+  min_hours DOUBLE PRECISION;
+  emp employees%ROWTYPE;
+  template JSONB;
+  entries JSONB;
+  stored JSONB;
+  new_vector vector;
+  new_quality DOUBLE PRECISION;
+  own_distance DOUBLE PRECISION;
+  competitor_distance DOUBLE PRECISION;
+  anchor_average vector;
+  last_learned_at TIMESTAMPTZ;
+  replace_idx INTEGER;
+  lowest_quality DOUBLE PRECISION;
+  result_action TEXT;
+  now_iso TEXT := to_char(NOW() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+BEGIN
+  IF app_role() NOT IN ('admin', 'kiosk') THEN
+    RAISE EXCEPTION 'not allowed to append learned embeddings';
+  END IF;
+  IF COALESCE(jsonb_typeof(new_entry -> 'vector'), '') <> 'array' OR jsonb_array_length(new_entry -> 'vector') = 0 THEN
+    RAISE EXCEPTION 'entry has no vector';
+  END IF;
+  IF COALESCE(new_entry ->> 'angle', '') NOT IN ('front', 'left', 'right', 'slight-left', 'slight-right') THEN
+    RAISE EXCEPTION 'unknown angle %', new_entry ->> 'angle';
+  END IF;
+
+  SELECT settings -> 'learning' INTO learning FROM recognition_settings WHERE scope = 'global';
+  learning := COALESCE(learning, '{}'::jsonb);
+  max_embeddings := COALESCE((learning ->> 'maxEmbeddings')::integer, 20);
+  min_quality := COALESCE((learning ->> 'minQualityToAdd')::double precision, 0.70);
+  min_similarity := COALESCE((learning ->> 'minSimilarityToAdd')::double precision, 0.75);
+  replace_threshold := COALESCE((learning ->> 'replaceThreshold')::double precision, 0.1);
+  strategy := COALESCE(learning ->> 'replacementStrategy', 'diversity');
+  min_per_angle := COALESCE((learning ->> 'minEntriesPerAngle')::integer, 2);
+  max_anchor_distance := COALESCE((learning ->> 'maxAnchorDistance')::double precision, 0.3);
+  min_identity_gap := COALESCE((learning ->> 'minIdentityGap')::double precision, 0.15);
+  min_hours := COALESCE((learning ->> 'minHoursBetweenUpdates')::double precision, 4);
+
+  -- Row lock: two kiosks learning the same employee append one after the other
+  SELECT * INTO emp FROM employees WHERE id = target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'employee % not found', target_id;
+  END IF;
+
+  template := CASE
+    WHEN jsonb_typeof(emp.embeddings_data) = 'string' THEN (emp.embeddings_data #>> '{}')::jsonb
+    ELSE emp.embeddings_data
+  END;
+  entries := CASE WHEN jsonb_typeof(template -> 'entries') = 'array' THEN template -> 'entries' ELSE '[]'::jsonb END;
+  new_vector := (new_entry -> 'vector')::text::vector;
+  new_quality := COALESCE((new_entry ->> 'quality')::double precision, 0);
+
+  SELECT AVG((e -> 'vector')::text::vector) INTO anchor_average
+  FROM jsonb_array_elements(entries) AS e
+  WHERE COALESCE(e ->> 'source', 'enrollment') <> 'learned';
+  IF anchor_average IS NULL THEN
+    RETURN jsonb_build_object('action', 'skipped', 'reason', 'no-anchor', 'totalCount', jsonb_array_length(entries));
+  END IF;
+  IF vector_dims(anchor_average) <> vector_dims(new_vector) THEN
+    RAISE EXCEPTION 'entry does not match the template version %', template ->> 'version';
+  END IF;
+
+  -- Similarity is 1 - distance / 1.5 (distanceToSimilarity), so the minimum becomes a max distance
+  SELECT MIN(f.embedding <-> new_vector) INTO own_distance
+  FROM face_embeddings f
+  WHERE f.employee_id = target_id AND f.version = template ->> 'version';
+  IF own_distance IS NULL OR own_distance > (1 - min_similarity) * 1.5 THEN
+    RETURN jsonb_build_object('action', 'skipped', 'reason', 'low-similarity', 'totalCount', jsonb_array_length(entries));
+  END IF;
+  IF new_quality < min_quality THEN
+    RETURN jsonb_build_object('action', 'skipped', 'reason', 'low-quality', 'totalCount', jsonb_array_length(entries));
+  END IF;
+  IF (anchor_average <-> new_vector) > max_anchor_distance THEN
+    RETURN jsonb_build_object('action', 'skipped', 'reason', 'anchor-drift', 'totalCount', jsonb_array_length(entries));
+  END IF;
+
+  SELECT MIN(f.embedding <-> new_vector) INTO competitor_distance
+  FROM face_embeddings f
+  WHERE f.employee_id <> target_id
+    AND f.version = template ->> 'version'
+    AND vector_dims(f.embedding) = vector_dims(new_vector);
+  IF competitor_distance IS NOT NULL AND competitor_distance - own_distance < min_identity_gap THEN
+    RETURN jsonb_build_object('action', 'skipped', 'reason', 'ambiguous', 'totalCount', jsonb_array_length(entries));
+  END IF;
+
+  SELECT MAX((e ->> 'createdAt')::timestamptz) INTO last_learned_at
+  FROM jsonb_array_elements(entries) AS e
+  WHERE e ->> 'source' = 'learned';
+  IF last_learned_at IS NOT NULL AND NOW() - last_learned_at < make_interval(secs => min_hours * 3600) THEN
+    RETURN jsonb_build_object('action', 'skipped', 'reason', 'too-soon', 'totalCount', jsonb_array_length(entries));
+  END IF;
+
+  -- Only the fields a learned entry has - timestamps come from the server
+  stored := jsonb_strip_nulls(jsonb_build_object(
+    'vector', new_entry -> 'vector',
+    'angle', new_entry ->> 'angle',
+    'quality', new_quality,
+    'createdAt', now_iso,
+    'source', 'learned',
+    'eventKey', new_entry ->> 'eventKey'
+  ));
+
+  IF jsonb_array_length(entries) < max_embeddings THEN
+    entries := entries || jsonb_build_array(stored);
+    result_action := 'added';
+  ELSIF strategy = 'diversity' THEN
+    -- selectMostRedundant: drop the learned (or new) entry closest to its nearest
+    -- neighbour, never taking an angle below the minimum. The new entry is index n.
+    WITH pool AS (
+      SELECT (t.idx - 1)::integer AS idx, t.e ->> 'angle' AS angle, (t.e -> 'vector')::text::vector AS v,
+        COALESCE((t.e ->> 'quality')::double precision, 0.5) AS quality,
+        t.e ->> 'source' = 'learned' AS replaceable
+      FROM jsonb_array_elements(entries) WITH ORDINALITY AS t(e, idx)
+      UNION ALL
+      SELECT jsonb_array_length(entries), stored ->> 'angle', new_vector, new_quality, true
+    ),
+    angle_counts AS (
+      SELECT angle, COUNT(*) AS n FROM pool GROUP BY angle
+    )
+    SELECT p.idx INTO replace_idx
+    FROM pool p
+    JOIN angle_counts c ON c.angle = p.angle
+    WHERE p.replaceable AND c.n - 1 >= min_per_angle
+    ORDER BY (SELECT MIN(p.v <-> o.v) FROM pool o WHERE o.idx <> p.idx), p.quality, p.idx
+    LIMIT 1;
+
+    IF replace_idx IS NOT NULL AND replace_idx < jsonb_array_length(entries) THEN
+      entries := jsonb_set(entries, ARRAY[replace_idx::text], stored);
+      result_action := 'replaced';
+    ELSE
+      result_action := 'skipped';
+    END IF;
+  ELSE
+    -- selectLowestQuality: the worst learned entry, if the new one beats it by the threshold
+    SELECT (t.idx - 1)::integer, COALESCE((t.e ->> 'quality')::double precision, 0.5)
+    INTO replace_idx, lowest_quality
+    FROM jsonb_array_elements(entries) WITH ORDINALITY AS t(e, idx)
+    WHERE t.e ->> 'source' = 'learned'
+    ORDER BY 2, 1
+    LIMIT 1;
+
+    IF replace_idx IS NOT NULL AND new_quality > lowest_quality + replace_threshold THEN
+      entries := jsonb_set(entries, ARRAY[replace_idx::text], stored);
+      result_action := 'replaced';
+    ELSE
+      result_action := 'skipped';
+    END IF;
+  END IF;
+
+  IF result_action <> 'skipped' THEN
+    template := template || jsonb_build_object(
+      'entries', entries,
+      'averageVector', (
+        SELECT to_jsonb(AVG((e -> 'vector')::text::vector)::real[])
+        FROM jsonb_array_elements(entries) AS e
+      ),
+      'updatedAt', now_iso
+    );
+    -- Same JSON-string-in-JSONB shape the app writes; the sync trigger rebuilds face_embeddings
+    UPDATE employees SET embeddings_data = to_jsonb(template::text) WHERE id = target_id;
+  END IF;
+
+  INSERT INTO embedding_audit (employee_id, event_key, action, angle, quality, similarity)
+  VALUES (target_id, new_entry ->> 'eventKey', result_action, stored ->> 'angle', new_quality, match_similarity);
+
+  RETURN jsonb_build_object('action', result_action, 'totalCount', jsonb_array_length(entries));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION append_learned_embedding(UUID, JSONB, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION append_learned_embedding(UUID, JSONB, DOUBLE PRECISION) TO authenticated;
+
+-- Server-side 1:N match: closest employees first, each by its nearest template vector
+-- (exact scan, same result as the kiosk's in-memory index). Only ids, names and
+-- distances leave the database; the threshold and gap decision stays with the caller.
+CREATE OR REPLACE FUNCTION match_face_descriptor(
+  query DOUBLE PRECISION[],
+  query_version TEXT,
+  match_count INTEGER DEFAULT 2
+)
+RETURNS TABLE (employee_id UUID, full_name TEXT, distance DOUBLE PRECISION) AS $$
+  SELECT f.employee_id, e.full_name, MIN(f.embedding <-> query::vector) AS distance
+  FROM face_embeddings f
+  JOIN employees e ON e.id = f.employee_id
+  WHERE app_role() IN ('admin', 'kiosk')
+    AND f.version = query_version
+    AND vector_dims(f.embedding) = array_length(query, 1)
+  GROUP BY f.employee_id, e.full_name
+  ORDER BY distance
+  LIMIT LEAST(GREATEST(match_count, 1), 10);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Face templates for on-device matching (match.mode = local), for kiosks that may not
+-- read the employees table. Only the template columns leave the database, and the
+-- enrollment photos (imageDataUrl) are stripped from every entry.
+CREATE OR REPLACE FUNCTION list_face_templates()
+RETURNS TABLE (
+  employee_id UUID,
+  embedding_version TEXT,
+  embedding_vector DOUBLE PRECISION[],
+  embeddings_data JSONB
+) AS $$
+  SELECT t.id, t.embedding_version, t.embedding_vector,
+    CASE
+      WHEN jsonb_typeof(t.template -> 'entries') = 'array' THEN to_jsonb((t.template || jsonb_build_object(
+        'entries', COALESCE((
+          SELECT jsonb_agg(x.entry - 'imageDataUrl' ORDER BY x.idx)
+          FROM jsonb_array_elements(t.template -> 'entries') WITH ORDINALITY AS x(entry, idx)
+        ), '[]'::jsonb)
+      ))::text)
+      ELSE NULL
+    END
+  FROM (
+    SELECT e.id, e.embedding_version, e.embedding_vector,
+      -- The app stores embeddings_data as a JSON string inside the JSONB column
+      CASE
+        WHEN jsonb_typeof(e.embeddings_data) = 'string' THEN (e.embeddings_data #>> '{}')::jsonb
+        ELSE e.embeddings_data
+      END AS template
+    FROM employees e
+    WHERE app_role() IN ('admin', 'kiosk')
+      AND (e.embeddings_data IS NOT NULL OR e.embedding_vector IS NOT NULL)
+  ) t;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace a day's absences in one transaction, so a failed insert keeps the previous
+-- run instead of leaving the day empty. Runs as the caller - RLS keeps it admin-only.
+CREATE OR REPLACE FUNCTION replace_absences(target_date DATE, records JSONB)
+RETURNS SETOF absence_records AS $$
+BEGIN
+  DELETE FROM absence_records WHERE absence_date = target_date;
+
+  RETURN QUERY
+  INSERT INTO absence_records (employee_id, absence_date, schedule_id, cutoff)
+  SELECT (r ->> 'employee_id')::uuid, target_date, (r ->> 'schedule_id')::uuid, (r ->> 'cutoff')::timestamptz
+  FROM jsonb_array_elements(records) AS r
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- last_check_in is kept in sync here so kiosks never write identity columns
+CREATE OR REPLACE FUNCTION update_employee_last_check_in()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.direction = 'check-in' THEN
+    UPDATE employees SET last_check_in = NEW.captured_at WHERE id = NEW.employee_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_employee_last_check_in ON face_check_events;
+CREATE TRIGGER update_employee_last_check_in
+  AFTER INSERT ON face_check_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_employee_last_check_in();
 
 -- Sample employee data (optional - comment out if not needed)
 -- INSERT INTO employees (full_name, email, role, department) VALUES